@@ -0,0 +1,146 @@
+const { getRepositories } = require('./repositories')
+
+// Read/write helpers behind the staff moderation dashboard (routes/admin.js).
+// Reads return [] on error so one failing table doesn't blank the whole page.
+
+const QUEUE_LIMIT = 200
+
+const listOpenReports = async () => {
+  const { data, error } = await getRepositories().reports.listOpen({ limit: QUEUE_LIMIT })
+  if (error) {
+    console.error('reports:list-open error', error)
+    return []
+  }
+  return (data || []).map((row) => ({
+    id: row.id,
+    reporterEmail: row.reporter_email,
+    targetEmail: row.target_email,
+    sessionId: row.session_id,
+    category: row.reason,
+    note: row.note,
+    transcript: row.transcript || [],
+    weight: Number(row.weight),
+    pattern: row.pattern,
+    createdAt: row.created_at,
+  }))
+}
+
+const listFlaggedSessions = async () => {
+  const { data, error } = await getRepositories().sessions.listFlagged({ limit: QUEUE_LIMIT })
+  if (error) {
+    console.error('sessions:list-flagged error', error)
+    return []
+  }
+  return (data || []).map((row) => ({
+    id: row.id,
+    mode: row.mode,
+    userA: row.user_a_email,
+    userB: row.user_b_email,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    endedBy: row.ended_by,
+    flaggedReason: row.flagged_reason,
+  }))
+}
+
+// Permanent bans plus suspensions that haven't run out yet.
+const listBannedUsers = async () => {
+  const { data, error } = await getRepositories().reputation.listBanned({ limit: QUEUE_LIMIT })
+  if (error) {
+    console.error('reputation:list-banned error', error)
+    return []
+  }
+  return (data || []).map((row) => ({
+    email: row.email,
+    likes: row.likes,
+    dislikes: row.dislikes,
+    reports: row.reports,
+    bannedAt: row.banned_at,
+    bannedUntil: row.banned ? null : row.banned_until,
+  }))
+}
+
+// Closes open reports. Pass `id` for one report, or `targetEmail` for every
+// open report against that user.
+const resolveReports = async ({ id, targetEmail, status, staffEmail }) => {
+  if (!id && !targetEmail) return false
+  const { error } = await getRepositories().reports.resolveOpen(
+    { id, targetEmail },
+    {
+      status,
+      resolved_at: new Date().toISOString(),
+      resolved_by: staffEmail || null,
+    },
+  )
+  if (error) {
+    console.error('reports:resolve error', error)
+    return false
+  }
+  return true
+}
+
+// Lifting a ban (or cutting a suspension short) also stops the strikes that
+// caused it from counting, otherwise the next report would immediately re-ban
+// the user. The suspension ladder position is kept.
+const unbanUser = async (email) => {
+  if (!email) return false
+  const now = new Date().toISOString()
+  const { error } = await getRepositories().reputation.update(email, {
+    banned: false,
+    banned_at: null,
+    banned_until: null,
+    counted_since: now,
+    reports: 0,
+    dislikes: 0,
+    updated_at: now,
+  })
+  if (error) {
+    console.error('reputation:unban error', error)
+    return false
+  }
+  return true
+}
+
+const listNotes = async (email) => {
+  if (!email) return []
+  const { data, error } = await getRepositories().notes.listFor(email)
+  if (error) {
+    console.error('moderation_notes:list error', error)
+    return []
+  }
+  return (data || []).map((row) => ({
+    id: row.id,
+    authorEmail: row.author_email,
+    body: row.body,
+    createdAt: row.created_at,
+  }))
+}
+
+const addNote = async ({ targetEmail, authorEmail, body }) => {
+  if (!targetEmail || !authorEmail || !body) return null
+  const { data, error } = await getRepositories().notes.insert({
+    target_email: targetEmail,
+    author_email: authorEmail,
+    body,
+  })
+  if (error) {
+    console.error('moderation_notes:insert error', error)
+    return null
+  }
+  return {
+    id: data.id,
+    authorEmail: data.author_email,
+    body: data.body,
+    createdAt: data.created_at,
+  }
+}
+
+module.exports = {
+  listOpenReports,
+  listFlaggedSessions,
+  listBannedUsers,
+  resolveReports,
+  unbanUser,
+  listNotes,
+  addNote,
+}
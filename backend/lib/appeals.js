@@ -0,0 +1,58 @@
+const { getRepositories } = require('./repositories')
+
+// Ban appeals. A user can have at most one pending appeal at a time (enforced
+// by a partial unique index); staff approve or deny it from the dashboard.
+
+const toAppeal = (row) => ({
+  id: row.id,
+  email: row.email,
+  message: row.message,
+  status: row.status,
+  staffResponse: row.staff_response,
+  reviewedBy: row.reviewed_by,
+  reviewedAt: row.reviewed_at,
+  createdAt: row.created_at,
+})
+
+// Returns { appeal }, { duplicate: true } if one is already pending, or { error }.
+const createAppeal = async ({ email, message }) => {
+  const { data, error, duplicate } = await getRepositories().appeals.insert({ email, message })
+  if (duplicate) return { duplicate: true }
+  if (error) {
+    console.error('ban_appeals:insert error', error)
+    return { error }
+  }
+  return { appeal: toAppeal(data) }
+}
+
+const listPendingAppeals = async () => {
+  const { data, error } = await getRepositories().appeals.listPending()
+  if (error) {
+    console.error('ban_appeals:list-pending error', error)
+    return []
+  }
+  return (data || []).map(toAppeal)
+}
+
+// Only pending appeals can be decided; returns the updated appeal or null.
+const decideAppeal = async ({ id, decision, response, staffEmail }) => {
+  const { data, error } = await getRepositories().appeals.decide(id, {
+    status: decision,
+    staff_response: response || null,
+    reviewed_by: staffEmail,
+    reviewed_at: new Date().toISOString(),
+  })
+  if (error) {
+    console.error('ban_appeals:decide error', error)
+    return null
+  }
+  return data ? toAppeal(data) : null
+}
+
+const getUserName = async (email) => {
+  const { data, error } = await getRepositories().users.get(email)
+  if (error) console.error('users:get-name error', error)
+  return data?.name || null
+}
+
+module.exports = { createAppeal, listPendingAppeals, decideAppeal, getUserName }
@@ -1,13 +1,16 @@
 const crypto = require('crypto')
 const bcrypt = require('bcryptjs')
 const jwt = require('jsonwebtoken')
+const { getStore } = require('./store')
 
 const JWT_SECRET = process.env.JWT_SECRET
 if (!JWT_SECRET) {
   throw new Error('JWT_SECRET must be set in backend/.env')
 }
 
-const JWT_TTL = '7d'
+// Access tokens are short-lived; clients renew them with a refresh token
+// (lib/authSessions.js).
+const ACCESS_TOKEN_TTL_SEC = 15 * 60
 const OTP_TTL_MS = 10 * 60 * 1000
 const OTP_MAX_ATTEMPTS = 5
 
@@ -19,20 +22,87 @@ const generateOtp = () => {
 const hashOtp = async (code) => bcrypt.hash(code, 10)
 const verifyOtp = async (code, hash) => bcrypt.compare(code, hash)
 
-const signToken = (payload) =>
-  jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_TTL })
+// `sid` names the refresh-token family the access token was issued from.
+const signToken = ({ email, name, sid }) =>
+  jwt.sign({ email, name, sid }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_SEC })
 
 const verifyToken = (token) => jwt.verify(token, JWT_SECRET)
 
+// Revoking a family has to reach access tokens that are already out. The mark
+// only needs to outlive the longest of them, so it expires with the TTL.
+const revokedKey = (sid) => `revoked-session:${sid}`
+
+const markSessionRevoked = (sid) => getStore().set(revokedKey(sid), true, ACCESS_TOKEN_TTL_SEC * 1000)
+
+// Signature, expiry, and revocation. Throws like jwt.verify.
+const verifyAccessToken = async (token) => {
+  const decoded = verifyToken(token)
+  if (!decoded.sid) throw new Error('Token predates refresh sessions')
+  if (await getStore().get(revokedKey(decoded.sid))) throw new Error('Session revoked')
+  return decoded
+}
+
+// Sign-in links carry a JWT naming one `verification_codes` row; expiry,
+// attempts, and single use are still decided by that row (lib/otp.js). A
+// separate key keeps a link from ever passing as a session token.
+const MAGIC_LINK_SECRET = crypto.createHmac('sha256', JWT_SECRET).update('magic-link').digest('hex')
+
+const signMagicLink = ({ email, codeId, name, interests }) =>
+  jwt.sign({ email, cid: codeId, name, interests }, MAGIC_LINK_SECRET, {
+    expiresIn: Math.floor(OTP_TTL_MS / 1000),
+  })
+
+const verifyMagicLink = (token) => jwt.verify(token, MAGIC_LINK_SECRET)
+
 const isWiscEmail = (email) => /^[a-z0-9_.+-]+@wisc\.edu$/i.test(email)
 
+// Moderation staff, from the comma-separated ADMIN_EMAILS allow-list.
+const isStaffEmail = (email) =>
+  Boolean(email) &&
+  (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .includes(email.toLowerCase())
+
+// Express middleware for REST routes: requires `Authorization: Bearer <jwt>`
+// and exposes the verified identity as req.user.
+const requireAuth = async (req, res, next) => {
+  const header = req.headers.authorization || ''
+  const token = header.startsWith('Bearer ') ? header.slice(7) : null
+  if (!token) return res.status(401).json({ error: 'Missing auth token.' })
+  let decoded
+  try {
+    decoded = await verifyAccessToken(token)
+  } catch (err) {
+    return res.status(401).json({ error: 'Invalid or expired auth token.' })
+  }
+  req.user = { email: decoded.email, name: decoded.name, sid: decoded.sid }
+  next()
+}
+
+// Mount after requireAuth: only allow-listed staff get through.
+const requireStaff = (req, res, next) => {
+  if (!isStaffEmail(req.user?.email)) {
+    return res.status(403).json({ error: 'Staff access only.' })
+  }
+  next()
+}
+
 module.exports = {
   generateOtp,
   hashOtp,
   verifyOtp,
   signToken,
   verifyToken,
+  verifyAccessToken,
+  markSessionRevoked,
+  signMagicLink,
+  verifyMagicLink,
   isWiscEmail,
+  isStaffEmail,
+  requireAuth,
+  requireStaff,
   OTP_TTL_MS,
   OTP_MAX_ATTEMPTS,
+  ACCESS_TOKEN_TTL_SEC,
 }
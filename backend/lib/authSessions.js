@@ -0,0 +1,114 @@
+const crypto = require('crypto')
+const { getRepositories } = require('./repositories')
+const { signToken, markSessionRevoked, ACCESS_TOKEN_TTL_SEC } = require('./auth')
+
+// Sign-in sessions: a short-lived access JWT plus an opaque refresh token that
+// rotates on every use. All refresh tokens from one sign-in share a family id,
+// which access tokens carry as `sid`, so one device can be signed out without
+// touching the others.
+const REFRESH_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+// Two tabs refreshing at once present the same token. The loser of that race
+// gets a retryable 409; a rotated token showing up any later means someone
+// else has a copy, and the whole family is revoked.
+const REUSE_GRACE_MS = 10 * 1000
+
+const SIGNED_OUT = { ok: false, status: 401, error: 'Your session has ended. Sign in again.' }
+
+const hashRefreshToken = (token) => crypto.createHash('sha256').update(token).digest('hex')
+
+const issueTokens = async ({ email, name, familyId }) => {
+  const refreshToken = crypto.randomBytes(32).toString('base64url')
+  const { error } = await getRepositories().refreshTokens.insert({
+    email,
+    family_id: familyId,
+    token_hash: hashRefreshToken(refreshToken),
+    expires_at: new Date(Date.now() + REFRESH_TTL_MS).toISOString(),
+  })
+  if (error) {
+    console.error('refresh_tokens:insert error', error)
+    return null
+  }
+  return {
+    token: signToken({ email, name, sid: familyId }),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SEC,
+  }
+}
+
+// New sign-in, new family. Resolves `{ token, refreshToken, expiresIn }`, or
+// null when the refresh token couldn't be stored.
+const startSession = ({ email, name }) => issueTokens({ email, name, familyId: crypto.randomUUID() })
+
+const revokeSession = async (familyId) => {
+  if (!familyId) return
+  const { error } = await getRepositories().refreshTokens.revokeFamily(familyId)
+  if (error) console.error('refresh_tokens:revoke error', error)
+  await markSessionRevoked(familyId)
+}
+
+// Signs out the device holding `refreshToken`. Any token from the family will
+// do, spent or not: whoever holds one can only end the session, not extend it.
+const endSession = async (refreshToken) => {
+  const { data: row, error } = await getRepositories().refreshTokens.getByHash(hashRefreshToken(refreshToken))
+  if (error) console.error('refresh_tokens:select error', error)
+  if (row && !row.revoked_at) await revokeSession(row.family_id)
+}
+
+// "Sign out everywhere", and every ban or suspension.
+const revokeAllSessions = async (email) => {
+  if (!email) return
+  const { data, error } = await getRepositories().refreshTokens.revokeForEmail(email)
+  if (error) console.error('refresh_tokens:revoke-all error', error)
+  const families = new Set((data || []).map((row) => row.family_id))
+  await Promise.all([...families].map((familyId) => markSessionRevoked(familyId)))
+}
+
+// Spends a refresh token. Resolves `{ ok: true, email, familyId }` for the
+// caller to check the account and then `continueSession`, or
+// `{ ok: false, status, error }`.
+const rotateSession = async (refreshToken) => {
+  const { refreshTokens } = getRepositories()
+  const { data: row, error } = await refreshTokens.getByHash(hashRefreshToken(refreshToken))
+  if (error) {
+    console.error('refresh_tokens:select error', error)
+    return { ok: false, status: 500, error: 'Could not refresh your session. Try again.' }
+  }
+  if (!row || row.revoked_at || new Date(row.expires_at).getTime() < Date.now()) return SIGNED_OUT
+
+  if (row.used_at) {
+    if (Date.now() - new Date(row.used_at).getTime() < REUSE_GRACE_MS) {
+      return { ok: false, status: 409, error: 'Session was refreshed in another tab.' }
+    }
+    console.warn(`[auth] refresh token reused for ${row.email}; revoking family ${row.family_id}`)
+    await revokeSession(row.family_id)
+    return SIGNED_OUT
+  }
+
+  const { data: claimed, error: claimError } = await refreshTokens.markUsed(row.id)
+  if (claimError) {
+    console.error('refresh_tokens:update error', claimError)
+    return { ok: false, status: 500, error: 'Could not refresh your session. Try again.' }
+  }
+  if (!claimed) return { ok: false, status: 409, error: 'Session was refreshed in another tab.' }
+
+  return { ok: true, email: row.email, familyId: row.family_id }
+}
+
+// Next token pair in the same family. The display name comes from the users
+// row, the same one sign-in wrote.
+const continueSession = async ({ email, familyId }) => {
+  const { data: user, error } = await getRepositories().users.get(email)
+  if (error) console.error('users:select error', error)
+  return issueTokens({ email, name: user?.name || '', familyId })
+}
+
+module.exports = {
+  startSession,
+  rotateSession,
+  continueSession,
+  endSession,
+  revokeSession,
+  revokeAllSessions,
+  REFRESH_TTL_MS,
+}
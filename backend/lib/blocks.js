@@ -0,0 +1,59 @@
+const { getRepositories } = require('./repositories')
+
+// Per-user block list. Rows are one-directional (blocker → blocked), but the
+// matcher treats a block as mutual: neither side gets paired with the other.
+
+const blockUser = async ({ blockerEmail, blockedEmail, sessionId }) => {
+  if (!blockerEmail || !blockedEmail || blockerEmail === blockedEmail) return false
+  const { error } = await getRepositories().blocks.insert({
+    blocker_email: blockerEmail,
+    blocked_email: blockedEmail,
+    session_id: sessionId || null,
+  })
+  if (error) {
+    console.error('blocks:insert error', error)
+    return false
+  }
+  return true
+}
+
+const unblockUser = async ({ blockerEmail, blockedEmail }) => {
+  if (!blockerEmail || !blockedEmail) return false
+  const { error } = await getRepositories().blocks.remove(blockerEmail, blockedEmail)
+  if (error) {
+    console.error('blocks:delete error', error)
+    return false
+  }
+  return true
+}
+
+// Blocks this user created, newest first.
+const listBlocks = async (email) => {
+  if (!email) return []
+  const { data, error } = await getRepositories().blocks.listByBlocker(email)
+  if (error) {
+    console.error('blocks:list error', error)
+    return []
+  }
+  return (data || []).map((row) => ({
+    email: row.blocked_email,
+    blockedAt: row.created_at,
+  }))
+}
+
+// Everyone this user must never be paired with, in either direction.
+const getBlockedEmails = async (email) => {
+  if (!email) return new Set()
+  const { data, error } = await getRepositories().blocks.listInvolving(email)
+  if (error) {
+    console.error('blocks:lookup error', error)
+    return new Set()
+  }
+  return new Set(
+    (data || []).map((row) =>
+      row.blocker_email === email ? row.blocked_email : row.blocker_email,
+    ),
+  )
+}
+
+module.exports = { blockUser, unblockUser, listBlocks, getBlockedEmails }
@@ -0,0 +1,86 @@
+// Every email goes through sendEmail({ to, template, data }); templates live in
+// ./templates.js.
+//
+// EMAIL_TRANSPORT picks how mail leaves the server:
+//   resend — the Resend API (default when RESEND_API_KEY is set)
+//   smtp   — any SMTP server in SMTP_URL (default when SMTP_URL is set)
+//   outbox — nothing is sent; emails are kept in memory (EMAIL_OUTBOX_FILE
+//            persists them). Only runs with NODE_ENV=development or test,
+//            where it's also the default when no provider is configured.
+//            `/dev/outbox` lists them only when EMAIL_TRANSPORT=outbox is set
+//            explicitly (see isDevOutboxEnabled).
+//
+// A transport is `{ name, send({ from, to, subject, html, text }) }`, and
+// `send` resolves `{ data, error }` like the Resend SDK.
+
+const { renderEmail } = require('./templates')
+const { createResendTransport } = require('./resend')
+const { createSmtpTransport } = require('./smtp')
+const { createOutboxTransport } = require('./outbox')
+
+const EMAIL_FROM = process.env.EMAIL_FROM || process.env.RESEND_FROM || 'onboarding@resend.dev'
+const DEV_ENVIRONMENTS = ['development', 'test']
+
+const createTransport = ({
+  transport = process.env.EMAIL_TRANSPORT,
+  resendApiKey = process.env.RESEND_API_KEY,
+  smtpUrl = process.env.SMTP_URL,
+  outboxFile = process.env.EMAIL_OUTBOX_FILE,
+  environment = process.env.NODE_ENV,
+} = {}) => {
+  const name = String(transport || (resendApiKey ? 'resend' : smtpUrl ? 'smtp' : 'outbox'))
+    .trim()
+    .toLowerCase()
+  if (name === 'resend') {
+    if (!resendApiKey) throw new Error('EMAIL_TRANSPORT=resend requires RESEND_API_KEY')
+    return createResendTransport({ apiKey: resendApiKey })
+  }
+  if (name === 'smtp') {
+    if (!smtpUrl) throw new Error('EMAIL_TRANSPORT=smtp requires SMTP_URL')
+    return createSmtpTransport({ url: smtpUrl })
+  }
+  if (name === 'outbox') {
+    // Nobody would ever receive their code.
+    if (!DEV_ENVIRONMENTS.includes(environment)) {
+      throw new Error(
+        transport
+          ? 'EMAIL_TRANSPORT=outbox needs NODE_ENV=development or test'
+          : 'No email provider configured: set RESEND_API_KEY or SMTP_URL in backend/.env',
+      )
+    }
+    return createOutboxTransport({ file: outboxFile || null })
+  }
+  throw new Error(`Unknown EMAIL_TRANSPORT "${name}" (expected resend, smtp, or outbox)`)
+}
+
+// Built at startup so a misconfigured production server fails to boot rather
+// than on the first sign-in.
+const transport = createTransport()
+
+const sendEmail = async ({ to, template, data }) => {
+  const { subject, html, text } = renderEmail(template, data)
+  return transport.send({
+    from: `Badger Connect <${EMAIL_FROM}>`,
+    to,
+    subject,
+    html,
+    text,
+  })
+}
+
+const sendOtpEmail = ({ to, code, name, purpose, link }) =>
+  sendEmail({ to, template: 'otp', data: { code, name, purpose, link } })
+
+// The outbox transport, or null when mail is really being delivered.
+const getOutbox = () => (transport.name === 'outbox' ? transport : null)
+
+// Whether server.js should mount `/dev`. The outbox holds everyone's sign-in
+// codes, so it takes an explicit EMAIL_TRANSPORT=outbox on a development or
+// test host; falling back to it by default isn't enough.
+const isDevOutboxEnabled = ({
+  transport: configured = process.env.EMAIL_TRANSPORT,
+  environment = process.env.NODE_ENV,
+} = {}) =>
+  String(configured || '').trim().toLowerCase() === 'outbox' && DEV_ENVIRONMENTS.includes(environment)
+
+module.exports = { sendEmail, sendOtpEmail, renderEmail, createTransport, getOutbox, isDevOutboxEnabled }
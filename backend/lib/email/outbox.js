@@ -0,0 +1,52 @@
+const fs = require('fs')
+const { randomUUID } = require('crypto')
+
+// Keeps sent emails instead of delivering them, for development and CI. The
+// dev-only `/dev/outbox` route reads them back. With `file`, each email is
+// also appended to it as a JSON line and the outbox survives restarts.
+
+const OUTBOX_LIMIT = 100
+
+const readFile = (file) => {
+  if (!file || !fs.existsSync(file)) return []
+  return fs
+    .readFileSync(file, 'utf8')
+    .split('\n')
+    .filter(Boolean)
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line)]
+      } catch {
+        return []
+      }
+    })
+}
+
+const createOutboxTransport = ({ file = null, limit = OUTBOX_LIMIT } = {}) => {
+  // Oldest first.
+  let messages = readFile(file).slice(-limit)
+
+  return {
+    name: 'outbox',
+    send: async ({ from, to, subject, html, text }) => {
+      const email = { id: randomUUID(), from, to, subject, html, text, sentAt: new Date().toISOString() }
+      messages = [...messages, email].slice(-limit)
+      if (file) {
+        try {
+          await fs.promises.appendFile(file, `${JSON.stringify(email)}\n`)
+        } catch (error) {
+          return { data: null, error }
+        }
+      }
+      return { data: { id: email.id }, error: null }
+    },
+    // Newest first.
+    list: () => [...messages].reverse(),
+    clear: async () => {
+      messages = []
+      if (file) await fs.promises.writeFile(file, '')
+    },
+  }
+}
+
+module.exports = { createOutboxTransport, OUTBOX_LIMIT }
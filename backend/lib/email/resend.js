@@ -0,0 +1,13 @@
+const { Resend } = require('resend')
+
+// Sends through the Resend API. Resend already answers `{ data, error }`,
+// which is the shape every transport returns.
+const createResendTransport = ({ apiKey }) => {
+  const resend = new Resend(apiKey)
+  return {
+    name: 'resend',
+    send: (message) => resend.emails.send(message),
+  }
+}
+
+module.exports = { createResendTransport }
@@ -0,0 +1,94 @@
+// A template is a function of `data` returning { subject, html, text };
+// `layout` gives the HTML version the shared Badger Connect frame.
+
+const escapeHtml = (value) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+const displayNameOf = (name) => name?.trim() || 'Badger'
+
+const paragraph = (html) =>
+  `<p style="font-size: 15px; line-height: 1.5; color: #333; margin: 0 0 24px;">${html}</p>`
+
+const footnote = (html) =>
+  `<p style="font-size: 13px; color: #666; line-height: 1.5; margin: 0;">${html}</p>`
+
+const layout = ({ name, body }) => `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; max-width: 480px; margin: 0 auto; padding: 32px 24px; color: #111;">
+      <div style="text-align: center; margin-bottom: 24px;">
+        <div style="display: inline-block; padding: 10px 18px; background: #c5050c; color: #fff; font-weight: 700; letter-spacing: 0.08em; border-radius: 999px; font-size: 12px;">BADGER CONNECT</div>
+      </div>
+      <h1 style="font-size: 22px; margin: 0 0 12px;">Hey ${escapeHtml(displayNameOf(name))},</h1>
+      ${body}
+    </div>
+  `
+
+const OTP_PURPOSES = {
+  'sign-in': {
+    subject: (code) => `${code} is your Badger Connect code`,
+    intro: 'Use this code to finish signing in.',
+  },
+  appeal: {
+    subject: (code) => `${code} is your Badger Connect appeal code`,
+    intro: 'Use this code to confirm your ban appeal.',
+  },
+}
+
+const templates = {
+  // `link` (sign-in only) is a magic link that works instead of typing the code.
+  otp: ({ code, name, purpose = 'sign-in', link }) => {
+    const copy = OTP_PURPOSES[purpose] || OTP_PURPOSES['sign-in']
+    const button = link
+      ? `
+      <div style="text-align: center; margin: 0 0 24px;">
+        <a href="${escapeHtml(link)}" style="display: inline-block; padding: 14px 28px; background: #c5050c; color: #fff; font-weight: 700; text-decoration: none; border-radius: 999px;">Sign in to Badger Connect</a>
+      </div>
+      ${paragraph('Or enter this code:')}`
+      : ''
+    return {
+      subject: copy.subject(code),
+      html: layout({
+        name,
+        body: `
+      ${paragraph(`${copy.intro} It expires in 10 minutes.`)}${button}
+      <div style="font-size: 36px; font-weight: 700; letter-spacing: 0.3em; text-align: center; padding: 20px; background: #f6f4ef; border-radius: 12px; margin: 0 0 24px; color: #c5050c;">
+        ${escapeHtml(code)}
+      </div>
+      ${footnote("If you didn't request this, you can safely ignore this email. Nobody can use this code without your inbox.")}`,
+      }),
+      text: `Hey ${displayNameOf(name)},\n\n${copy.intro} Your code is: ${code}${link ? `\n\nOr open this link to sign in: ${link}` : ''}\n\nIt expires in 10 minutes and works once.\n\nIf you didn't request this, ignore this email.`,
+    }
+  },
+
+  'appeal-decision': ({ name, decision, response }) => {
+    const approved = decision === 'approved'
+    const summary = approved
+      ? 'We reviewed your appeal and lifted the ban on your account. You can sign in again — please keep chats within the community guidelines.'
+      : 'We reviewed your appeal and decided to keep the ban on your account in place.'
+    return {
+      subject: approved
+        ? 'Your Badger Connect appeal was approved'
+        : 'Your Badger Connect appeal was reviewed',
+      html: layout({
+        name,
+        body: `
+      ${paragraph(summary)}
+      ${response ? paragraph(`<strong>Note from the moderation team:</strong><br />${escapeHtml(response)}`) : ''}
+      ${footnote('This is an automated message about a decision on your ban appeal.')}`,
+      }),
+      text: `Hey ${displayNameOf(name)},\n\n${summary}${response ? `\n\nNote from the moderation team:\n${response}` : ''}`,
+    }
+  },
+}
+
+const renderEmail = (template, data = {}) => {
+  const render = templates[template]
+  if (!render) throw new Error(`Unknown email template "${template}"`)
+  return render(data)
+}
+
+module.exports = { renderEmail }
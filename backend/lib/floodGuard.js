@@ -0,0 +1,77 @@
+// Flood protection for `chat:text:message`. Runs before moderation so spam
+// never costs a moderation call. Buckets and counters live in the shared store
+// (./store), so the limits hold across every backend node.
+
+const { getStore } = require('./store')
+
+const MAX_BODY_LENGTH = 1000
+// Bursts of 5 messages per socket, refilling one a second. The per-email bucket
+// is a little looser so two tabs don't trip it, but caps the total.
+const SOCKET_BUCKET = { capacity: 5, refillPerSec: 1 }
+const EMAIL_BUCKET = { capacity: 8, refillPerSec: 1.5 }
+// The same text can be sent twice inside this window; the third is dropped.
+const DUPLICATE_WINDOW_MS = 30 * 1000
+const DUPLICATE_MAX = 2
+const RECENT_BODIES_KEPT = 20
+// Every STRIKE_AFTER violations inside the window turn into a reputation strike.
+const VIOLATION_WINDOW_MS = 5 * 60 * 1000
+const STRIKE_AFTER = 3
+
+const normalizeBody = (body) => body.trim().toLowerCase().replace(/\s+/g, ' ')
+
+const createFloodGuard = (store = getStore()) => {
+  // Resolves { ok: true } or { ok: false, reason } with reason one of
+  // 'too-long', 'rate-limit', 'duplicate'.
+  const check = async ({ socketId, email, body }) => {
+    if (body.length > MAX_BODY_LENGTH) return { ok: false, reason: 'too-long' }
+
+    // Take from both buckets so neither can be drained through the other.
+    const [socketOk, emailOk] = await Promise.all([
+      store.takeToken(`flood:socket:${socketId}`, SOCKET_BUCKET.capacity, SOCKET_BUCKET.refillPerSec),
+      store.takeToken(`flood:email:${email}`, EMAIL_BUCKET.capacity, EMAIL_BUCKET.refillPerSec),
+    ])
+    if (!socketOk || !emailOk) return { ok: false, reason: 'rate-limit' }
+
+    const now = Date.now()
+    const text = normalizeBody(body)
+    const key = `flood:recent:${email}`
+    const repeats = (await store.range(key)).filter(
+      (entry) => entry.text === text && now - entry.at < DUPLICATE_WINDOW_MS,
+    ).length
+    if (repeats >= DUPLICATE_MAX) return { ok: false, reason: 'duplicate' }
+    await store.pushCapped(key, { text, at: now }, RECENT_BODIES_KEPT)
+    await store.expire(key, DUPLICATE_WINDOW_MS)
+    return { ok: true }
+  }
+
+  // Counts a violation and resolves { level, strike }. `level` is 1-based
+  // within the current escalation round; `strike` is true on the round's last
+  // step, after which the next violation starts a new round.
+  const recordViolation = async (email) => {
+    const count = await store.countInWindow(`flood:violations:${email}`, VIOLATION_WINDOW_MS)
+    return { level: ((count - 1) % STRIKE_AFTER) + 1, strike: count % STRIKE_AFTER === 0 }
+  }
+
+  const forgetSocket = (socketId) => store.del(`flood:socket:${socketId}`)
+
+  return { check, recordViolation, forgetSocket }
+}
+
+const VIOLATION_MESSAGES = {
+  'too-long': `Messages are limited to ${MAX_BODY_LENGTH} characters.`,
+  'rate-limit': "You're sending messages too fast. Slow down a little.",
+  duplicate: "You've already sent that. Repeated messages aren't delivered.",
+}
+
+const floodWarning = (reason, { level, strike }) => {
+  const base = VIOLATION_MESSAGES[reason] || 'That message was not delivered.'
+  if (strike) return `${base} Your account has received a strike for flooding the chat.`
+  if (level === STRIKE_AFTER - 1) return `${base} Keep it up and your account gets a strike.`
+  return base
+}
+
+module.exports = {
+  createFloodGuard,
+  floodWarning,
+  MAX_BODY_LENGTH,
+}
@@ -0,0 +1,44 @@
+const crypto = require('crypto')
+
+// ICE servers for the video lounge. STUN is public; TURN uses the time-limited
+// credential scheme from the TURN REST API draft (coturn's `use-auth-secret`):
+// the username is `<unix expiry>:<id>` and the password is the base64
+// HMAC-SHA1 of that username under the secret shared with the TURN server.
+// Nothing is stored; the TURN server checks the HMAC and the expiry itself.
+const DEFAULT_STUN_URLS = ['stun:stun.l.google.com:19302']
+const TURN_CREDENTIAL_TTL_SEC = 60 * 60
+
+const splitUrls = (value) =>
+  (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+
+const stunUrls = () => {
+  const configured = splitUrls(process.env.STUN_URLS)
+  return configured.length ? configured : DEFAULT_STUN_URLS
+}
+
+// Both TURN_URLS and TURN_SECRET are needed; with either missing the list is
+// STUN only, and clients behind symmetric NAT have no relay to fall back on.
+const isTurnConfigured = () => Boolean(splitUrls(process.env.TURN_URLS).length && process.env.TURN_SECRET)
+
+const turnCredential = (id, now = Date.now()) => {
+  const username = `${Math.floor(now / 1000) + TURN_CREDENTIAL_TTL_SEC}:${id}`
+  const credential = crypto.createHmac('sha1', process.env.TURN_SECRET).update(username).digest('base64')
+  return { username, credential }
+}
+
+// `id` ends up in the TURN server's logs, so it's an opaque per-user hash
+// rather than the email.
+const getIceServers = (email) => {
+  const iceServers = [{ urls: stunUrls() }]
+  const relay = isTurnConfigured()
+  if (relay) {
+    const id = crypto.createHash('sha256').update(email).digest('hex').slice(0, 16)
+    iceServers.push({ urls: splitUrls(process.env.TURN_URLS), ...turnCredential(id) })
+  }
+  return { iceServers, relay, ttlSec: TURN_CREDENTIAL_TTL_SEC }
+}
+
+module.exports = { getIceServers, isTurnConfigured, TURN_CREDENTIAL_TTL_SEC }
@@ -0,0 +1,113 @@
+// Interest-aware pairing for the waiting queues.
+//
+// Each queue entry carries the interests from the user's profile and the time
+// it joined. Two entries can be paired when they share at least as many
+// interests as either side currently requires. The requirement starts at
+// min(interests, MAX_REQUIRED_OVERLAP), drops by one every RELAX_STEP_MS, and
+// never goes below 1 for someone who picked interests. Once either side has
+// waited RANDOM_FALLBACK_MS, they're paired with a random eligible partner.
+//
+// Skipping a partner (`match:next`) puts the pair on a SKIP_COOLDOWN_MS
+// cooldown so the matcher doesn't hand them straight back to each other. The
+// cooldowns live in the shared store so they hold across backend nodes.
+//
+// Entry shape: { socketId, email, interests, joinedAt }
+
+const { getStore } = require('./store')
+
+const RELAX_STEP_MS = 8 * 1000
+const RANDOM_FALLBACK_MS = 30 * 1000
+const MAX_REQUIRED_OVERLAP = 2
+const SKIP_COOLDOWN_MS = 15 * 60 * 1000
+
+const normalizeInterest = (value) =>
+  String(value || '')
+    .trim()
+    .toLowerCase()
+
+// Shared interests in `a`'s casing, de-duplicated.
+const sharedInterests = (a, b) => {
+  const theirs = new Set((b.interests || []).map(normalizeInterest))
+  const seen = new Set()
+  return (a.interests || []).filter((interest) => {
+    const key = normalizeInterest(interest)
+    if (!key || !theirs.has(key) || seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+const hasFallenBack = (entry, now) => now - entry.joinedAt >= RANDOM_FALLBACK_MS
+
+const requiredOverlap = (entry, now) => {
+  const count = entry.interests?.length || 0
+  if (!count || hasFallenBack(entry, now)) return 0
+  const relaxedBy = Math.floor((now - entry.joinedAt) / RELAX_STEP_MS)
+  return Math.max(1, Math.min(count, MAX_REQUIRED_OVERLAP) - relaxedBy)
+}
+
+// Finds the next pair to match, oldest waiter first. `isEligible(a, b)` lets
+// the caller veto specific pairs. Returns { first, second, shared } or null.
+const findMatch = (queue, { now = Date.now(), isEligible = () => true } = {}) => {
+  for (const first of queue) {
+    const fallback = hasFallenBack(first, now)
+    const candidates = []
+    for (const second of queue) {
+      if (second === first || !isEligible(first, second)) continue
+      const shared = sharedInterests(first, second)
+      const acceptable =
+        fallback ||
+        hasFallenBack(second, now) ||
+        shared.length >= Math.max(requiredOverlap(first, now), requiredOverlap(second, now))
+      if (acceptable) candidates.push({ first, second, shared })
+    }
+    if (!candidates.length) continue
+
+    if (fallback) {
+      return candidates[Math.floor(Math.random() * candidates.length)]
+    }
+    // Most overlap wins; queue order breaks ties so the longer waiter goes first.
+    return candidates.reduce((best, candidate) =>
+      candidate.shared.length > best.shared.length ? candidate : best,
+    )
+  }
+  return null
+}
+
+// skips:<email> is a hash of other email -> timestamp the cooldown expires,
+// written for both sides of the pair.
+const recordSkip = async (a, b, store = getStore()) => {
+  if (!a || !b) return
+  const [first, second] = [String(a).toLowerCase(), String(b).toLowerCase()]
+  const expiresAt = Date.now() + SKIP_COOLDOWN_MS
+  await Promise.all(
+    [
+      [first, second],
+      [second, first],
+    ].map(async ([email, other]) => {
+      await store.hset(`skips:${email}`, other, expiresAt)
+      await store.expire(`skips:${email}`, SKIP_COOLDOWN_MS)
+    }),
+  )
+}
+
+// Emails `email` is still cooling down from.
+const getSkipCooldowns = async (email, store = getStore()) => {
+  if (!email) return new Set()
+  const now = Date.now()
+  const skips = await store.hgetall(`skips:${String(email).toLowerCase()}`)
+  return new Set(
+    Object.entries(skips)
+      .filter(([, expiresAt]) => expiresAt > now)
+      .map(([other]) => other),
+  )
+}
+
+module.exports = {
+  findMatch,
+  sharedInterests,
+  recordSkip,
+  getSkipCooldowns,
+  RELAX_STEP_MS,
+  RANDOM_FALLBACK_MS,
+}
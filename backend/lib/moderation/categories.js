@@ -0,0 +1,27 @@
+// Category → severity mapping shared by every moderation provider. Category
+// names follow OpenAI's Moderation API so reasons stored on sessions and
+// reputation rows read the same whichever provider flagged the message.
+//
+//   'critical' → auto-ban immediately (e.g. sexual content involving minors)
+//   'block'    → drop + add a strike
+
+// Categories that get an immediate hard ban.
+const CRITICAL_CATEGORIES = ['sexual/minors']
+
+// Categories that get the message dropped + a strike against the sender.
+const BLOCK_CATEGORIES = [
+  'sexual',
+  'harassment/threatening',
+  'hate/threatening',
+  'violence/graphic',
+]
+
+const SEVERITY_RANK = { block: 1, critical: 2 }
+
+const severityFor = (category) => {
+  if (CRITICAL_CATEGORIES.includes(category)) return 'critical'
+  if (BLOCK_CATEGORIES.includes(category)) return 'block'
+  return null
+}
+
+module.exports = { CRITICAL_CATEGORIES, BLOCK_CATEGORIES, SEVERITY_RANK, severityFor }
@@ -0,0 +1,84 @@
+// Text moderation, run through a configurable chain of providers.
+//
+// MODERATION_PROVIDERS picks which run and in what order (default
+// "local,openai"). `local` is the built-in rule engine and always works
+// offline; `openai` skips itself when OPENAI_API_KEY is missing. The most
+// severe verdict wins, and a 'critical' verdict stops the chain early.
+// Fails OPEN if every provider skips — we'd rather not brick chat.
+//
+// Verdict shape: { allowed, severity, reason, skipped, provider }
+//   allowed:  boolean — forward the message to the partner
+//   severity: 'critical' | 'block' | null
+//     'critical' → auto-ban immediately (e.g. sexual content involving minors)
+//     'block'    → drop + add a strike
+//   reason:   category string that tripped the filter
+//   skipped:  true if no provider actually ran
+//   provider: name of the provider behind a rejection
+//
+// Provider shape: { name, moderate: async (text) => verdict }
+
+const { SEVERITY_RANK } = require('./categories')
+const { createLocalProvider, normalizeText } = require('./local')
+const { createOpenAIProvider } = require('./openai')
+
+const DEFAULT_PROVIDERS = 'local,openai'
+
+const PROVIDER_FACTORIES = {
+  local: createLocalProvider,
+  openai: createOpenAIProvider,
+}
+
+const createProviders = (names = process.env.MODERATION_PROVIDERS || DEFAULT_PROVIDERS) =>
+  String(names)
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean)
+    .flatMap((name) => {
+      const factory = PROVIDER_FACTORIES[name]
+      if (!factory) {
+        console.warn(`[moderation] unknown provider "${name}" in MODERATION_PROVIDERS — ignoring`)
+        return []
+      }
+      return [factory()]
+    })
+
+const createModerator = (providers) => async (text) => {
+  let rejection = null
+  let ran = false
+
+  for (const provider of providers) {
+    let verdict
+    try {
+      verdict = await provider.moderate(text)
+    } catch (err) {
+      console.error(`[moderation] ${provider.name} provider failed`, err)
+      continue
+    }
+    if (!verdict || verdict.skipped) continue
+    ran = true
+    if (verdict.allowed) continue
+    if (!rejection || SEVERITY_RANK[verdict.severity] > SEVERITY_RANK[rejection.severity]) {
+      rejection = { ...verdict, provider: provider.name }
+    }
+    if (rejection.severity === 'critical') break
+  }
+
+  if (rejection) return rejection
+  return ran ? { allowed: true } : { allowed: true, skipped: true }
+}
+
+let defaultModerator = null
+
+const moderateText = (text) => {
+  if (!defaultModerator) defaultModerator = createModerator(createProviders())
+  return defaultModerator(text)
+}
+
+module.exports = {
+  moderateText,
+  createModerator,
+  createProviders,
+  createLocalProvider,
+  createOpenAIProvider,
+  normalizeText,
+}
@@ -0,0 +1,182 @@
+// Built-in rule engine, so moderation still runs with no network or API key.
+//
+// Rule shape: { category, keywords?, patterns?, severity? }
+//   category: OpenAI-style category name — also the verdict's `reason`
+//   severity: 'critical' | 'block'; defaults to the category's severity in
+//             ./categories, or 'block' for categories it doesn't list
+//   keywords: words/phrases matched on whole words of the normalized text
+//   patterns: regex sources run against the normalized text
+//
+// Normalized text is lowercased and stripped of accents, with punctuation
+// collapsed to single spaces. Nothing else is rewritten: leetspeak ("k1ll")
+// and spelled-out letters ("k y s") are only resolved while a word is being
+// compared with a keyword, and patterns see a copy where just the words that
+// mix letters with digits or symbols are decoded. Keywords also ignore
+// repeated letters, so "kiiiill" still matches "kill".
+//
+// When several rules match, the most severe one decides the verdict.
+//
+// The defaults are a small, deliberately tame starting set of phrases rather
+// than single words, with context checks where everyday speech overlaps
+// ("I will kill you at mario kart"). Slur lists are not shipped in the repo —
+// point MODERATION_RULES_FILE at a JSON array of rules to extend them.
+
+const fs = require('fs')
+const { SEVERITY_RANK, severityFor } = require('./categories')
+
+const MINORS = '(?:child|children|kid|kids|minor|minors|underage|preteen|preteens|teen|teens)'
+
+const DEFAULT_RULES = [
+  {
+    category: 'sexual/minors',
+    patterns: [
+      `\\b${MINORS}\\s+(?:porn|nudes|nude\\s+(?:pics?|photos?|videos?)|sexts?|sexting)\\b`,
+      `\\b(?:porn|nudes|nude\\s+(?:pics?|photos?|videos?))\\s+of\\s+(?:a\\s+|an\\s+)?${MINORS}\\b`,
+    ],
+  },
+  {
+    category: 'harassment/threatening',
+    keywords: ['kys'],
+    patterns: [
+      '\\b(?:go|just|you\\s+should|u\\s+should)\\s+kill\\s+(?:yourself|urself|your\\s+self)\\b',
+      '\\bi\\s+hope\\s+(?:you|u)\\s+die\\b(?!\\s+(?:laughing|of\\s+laughter))',
+      '\\b(?:just|please|pls|you\\s+should|u\\s+should)\\s+go\\s+die\\b',
+      '\\bgo\\s+die\\s+(?:already|in\\s+a\\s+(?:hole|fire|ditch))\\b',
+      // Not "at chess" or "in this round": trash talk, not a threat.
+      '\\bi\\s+(?:will|ll|m\\s+going\\s+to|m\\s+gonna|am\\s+going\\s+to|am\\s+gonna)\\s+(?:kill|hurt|stab|shoot)\\s+(?:you|u)\\b' +
+        '(?!\\s+(?:at\\b|in\\s+(?:this|that|the|a|our|every|next)\\s+(?:game|round|match|level|race)))',
+    ],
+  },
+  {
+    category: 'sexual',
+    keywords: ['sext me'],
+    patterns: ['\\bsend\\s+(?:me\\s+)?(?:your\\s+|ur\\s+|some\\s+)?nudes\\b'],
+  },
+]
+
+// What each leetspeak character can stand for. Symbols only count inside a
+// word ("$ex", "h@te"), so trailing punctuation like "!!" is dropped.
+const LEET_MAP = {
+  0: 'o',
+  1: 'il',
+  2: 'z',
+  3: 'e',
+  4: 'a',
+  5: 's',
+  6: 'g',
+  7: 't',
+  8: 'b',
+  9: 'g',
+  '@': 'a',
+  $: 's',
+  '!': 'i',
+  '|': 'il',
+  '+': 't',
+  '€': 'e',
+}
+
+const LEET_CHARS = Object.keys(LEET_MAP).join('')
+const escapeClass = (chars) => chars.replace(/[\\\]^-]/g, '\\$&')
+const NOT_TOKEN = new RegExp(`[^a-z${escapeClass(LEET_CHARS)}]+`, 'g')
+const TRAILING_SYMBOLS = /[@$!|+€]+$/
+const HAS_LETTER = /[a-z]/
+const HAS_LEET = /[0-9@$!|+€]/
+
+const tokenize = (text) =>
+  String(text || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(NOT_TOKEN)
+    .map((token) => token.replace(TRAILING_SYMBOLS, ''))
+    .filter(Boolean)
+
+const normalizeText = (text) => tokenize(text).join(' ')
+
+// A word that mixes letters with leet characters, read the most likely way.
+// Plain words and bare numbers are left alone.
+const decodeToken = (token) =>
+  HAS_LETTER.test(token) && HAS_LEET.test(token)
+    ? token.replace(/[0-9@$!|+€]/g, (char) => LEET_MAP[char][0])
+    : token
+
+// "kill" → /^[k]+[i1!|]+[l1|]+$/: any repeat count, any leet stand-in.
+const compileWord = (word) => {
+  const letters = word.replace(/([a-z])\1+/g, '$1').split('')
+  const classes = letters.map((letter) => {
+    const standIns = Object.keys(LEET_MAP).filter((char) => LEET_MAP[char].includes(letter))
+    return `[${letter}${escapeClass(standIns.join(''))}]+`
+  })
+  return new RegExp(`^${classes.join('')}$`)
+}
+
+const compileRule = (rule) => {
+  const keywords = (rule.keywords || [])
+    .map((keyword) => tokenize(keyword).map(compileWord))
+    .filter((words) => words.length > 0)
+  const patterns = (rule.patterns || []).map((source) => new RegExp(source, 'i'))
+  const severity = SEVERITY_RANK[rule.severity] ? rule.severity : severityFor(rule.category) || 'block'
+  return { category: rule.category, severity, keywords, patterns }
+}
+
+// Single-letter tokens starting at `start`, joined: "k y s" → "kys".
+const spelledOutAt = (tokens, start) => {
+  let word = ''
+  for (let index = start; index < tokens.length && tokens[index].length === 1; index += 1) {
+    word += tokens[index]
+  }
+  return word
+}
+
+const keywordAt = (tokens, start, words) => {
+  if (words.every((word, offset) => word.test(tokens[start + offset] ?? ''))) return true
+  if (words.length !== 1) return false
+  const spelled = spelledOutAt(tokens, start)
+  for (let length = 2; length <= spelled.length; length += 1) {
+    if (words[0].test(spelled.slice(0, length))) return true
+  }
+  return false
+}
+
+const matchesRule = (rule, tokens, texts) =>
+  rule.keywords.some((words) => tokens.some((_, start) => keywordAt(tokens, start, words))) ||
+  rule.patterns.some((pattern) => texts.some((text) => pattern.test(text)))
+
+const loadRulesFile = (path) => {
+  if (!path) return []
+  try {
+    const rules = JSON.parse(fs.readFileSync(path, 'utf8'))
+    if (!Array.isArray(rules)) throw new Error('expected a JSON array of rules')
+    return rules
+  } catch (err) {
+    console.error(`[moderation] could not load rules from ${path}`, err.message)
+    return []
+  }
+}
+
+const createLocalProvider = ({
+  rules = DEFAULT_RULES,
+  rulesFile = process.env.MODERATION_RULES_FILE,
+} = {}) => {
+  const compiled = [...rules, ...loadRulesFile(rulesFile)].map(compileRule)
+
+  const moderate = async (text) => {
+    const tokens = tokenize(text)
+    if (tokens.length === 0) return { allowed: true }
+    const plain = tokens.join(' ')
+    const decoded = tokens.map(decodeToken).join(' ')
+    const texts = decoded === plain ? [plain] : [plain, decoded]
+
+    let match = null
+    for (const rule of compiled) {
+      if (match && SEVERITY_RANK[rule.severity] <= SEVERITY_RANK[match.severity]) continue
+      if (matchesRule(rule, tokens, texts)) match = rule
+    }
+    if (!match) return { allowed: true }
+    return { allowed: false, severity: match.severity, reason: match.category }
+  }
+
+  return { name: 'local', moderate }
+}
+
+module.exports = { createLocalProvider, normalizeText, DEFAULT_RULES }
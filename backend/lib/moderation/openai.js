@@ -0,0 +1,67 @@
+// Provider backed by OpenAI's free Moderation API.
+// Skips (allows) if the key is missing or the API errors — we'd rather not
+// brick chat because a third-party is down.
+
+const { CRITICAL_CATEGORIES, BLOCK_CATEGORIES } = require('./categories')
+
+const OPENAI_ENDPOINT = 'https://api.openai.com/v1/moderations'
+const OPENAI_MODEL = 'omni-moderation-latest'
+
+const createOpenAIProvider = ({
+  apiKey = process.env.OPENAI_API_KEY,
+  fetchImpl = (...args) => fetch(...args),
+} = {}) => {
+  let warnedMissingKey = false
+
+  const moderate = async (text) => {
+    if (!apiKey) {
+      if (!warnedMissingKey) {
+        console.warn(
+          '[moderation] OPENAI_API_KEY missing — the openai provider is disabled. ' +
+            'Set it in backend/.env to enable the free Moderation API.',
+        )
+        warnedMissingKey = true
+      }
+      return { allowed: true, skipped: true }
+    }
+
+    try {
+      const res = await fetchImpl(OPENAI_ENDPOINT, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({ model: OPENAI_MODEL, input: text }),
+      })
+      if (!res.ok) {
+        console.error('[moderation] api error', res.status, await res.text().catch(() => ''))
+        return { allowed: true, skipped: true }
+      }
+      const data = await res.json()
+      const result = data.results?.[0]
+      if (!result) return { allowed: true, skipped: true }
+
+      const categories = result.categories || {}
+
+      const critical = CRITICAL_CATEGORIES.find((cat) => categories[cat])
+      if (critical) {
+        return { allowed: false, severity: 'critical', reason: critical }
+      }
+
+      const blocked = BLOCK_CATEGORIES.find((cat) => categories[cat])
+      if (blocked) {
+        return { allowed: false, severity: 'block', reason: blocked }
+      }
+
+      return { allowed: true }
+    } catch (err) {
+      console.error('[moderation] request failed', err)
+      return { allowed: true, skipped: true }
+    }
+  }
+
+  return { name: 'openai', moderate }
+}
+
+module.exports = { createOpenAIProvider }
@@ -0,0 +1,127 @@
+const { getRepositories } = require('./repositories')
+const {
+  generateOtp,
+  hashOtp,
+  verifyOtp,
+  verifyMagicLink,
+  OTP_TTL_MS,
+  OTP_MAX_ATTEMPTS,
+} = require('./auth')
+const { getStore } = require('./store')
+
+// One-time codes in `verification_codes`. `purpose` keeps codes apart: a code
+// issued for a ban appeal can never be redeemed to sign in, and vice versa.
+// A sign-in email's magic link points at the same row as its code, so using
+// either one consumes both. Consuming only succeeds for the request that
+// flips `consumed_at` from null, so two requests racing with the same code or
+// link can't both sign in.
+
+// 5 code requests per email per hour, as a token bucket in the shared store so
+// every backend node enforces the same limit.
+const RATE_MAX = 5
+const RATE_REFILL_PER_SEC = RATE_MAX / (60 * 60)
+
+const allowCodeRequest = (email) =>
+  getStore().takeToken(`otp-requests:${email}`, RATE_MAX, RATE_REFILL_PER_SEC)
+
+// Returns { code, codeId } on success or { error } if the row couldn't be
+// written.
+const issueCode = async (email, purpose = 'sign-in') => {
+  const code = generateOtp()
+  const code_hash = await hashOtp(code)
+  const expires_at = new Date(Date.now() + OTP_TTL_MS).toISOString()
+
+  const { codes } = getRepositories()
+  // Invalidate outstanding codes for this email.
+  await codes.consumeActive(email, purpose)
+
+  const { data, error } = await codes.insert({ email, code_hash, expires_at, purpose })
+  if (error) {
+    console.error('verification_codes:insert', error)
+    return { error }
+  }
+  return { code, codeId: data.id }
+}
+
+// Loads the newest active row and applies the rules codes and links share.
+// Returns { record } when it may be redeemed, or { status, error }.
+const loadRedeemable = async (codes, email, purpose) => {
+  const { data: record, error: fetchError } = await codes.latestActive(email, purpose)
+
+  if (fetchError) {
+    console.error('verification_codes:select', fetchError)
+    return { status: 500, error: 'Verification failed.' }
+  }
+
+  if (!record) {
+    return { status: 400, error: 'No active code. Request a new one.' }
+  }
+
+  if (new Date(record.expires_at).getTime() < Date.now()) {
+    return { status: 400, error: 'Code expired. Request a new one.' }
+  }
+
+  if (record.attempts >= OTP_MAX_ATTEMPTS) {
+    await codes.consume(record.id)
+    return { status: 429, error: 'Too many attempts. Request a new code.' }
+  }
+
+  return { record }
+}
+
+// Marks the row consumed. Returns null when this request did it, or
+// { status, error } when it failed or another request got there first.
+const markConsumed = async (codes, record, alreadyUsedError) => {
+  const { data: consumed, error } = await codes.consume(record.id)
+  if (error) {
+    console.error('verification_codes:consume', error)
+    return { status: 500, error: 'Verification failed.' }
+  }
+  if (!consumed) return { status: 400, error: alreadyUsedError }
+  return null
+}
+
+// Checks and consumes the newest active code. Returns { ok: true }, or
+// { status, error } ready to send back as the HTTP response.
+const consumeCode = async (email, code, purpose = 'sign-in') => {
+  const { codes } = getRepositories()
+  const { record, ...failure } = await loadRedeemable(codes, email, purpose)
+  if (!record) return failure
+
+  const match = await verifyOtp(code, record.code_hash)
+  if (!match) {
+    await codes.update(record.id, { attempts: record.attempts + 1 })
+    return { status: 400, error: 'Incorrect code.' }
+  }
+
+  const rejection = await markConsumed(codes, record, 'This code was already used. Request a new one.')
+  if (rejection) return rejection
+
+  return { ok: true }
+}
+
+// Same as consumeCode for a sign-in link. The link only works while its row
+// is the newest active one, so requesting another email retires it. Returns
+// { ok: true, claims } with the email, name, and interests it was issued for.
+const consumeLink = async (token) => {
+  let claims
+  try {
+    claims = verifyMagicLink(token)
+  } catch {
+    return { status: 400, error: 'This sign-in link is invalid or has expired. Request a new one.' }
+  }
+
+  const { codes } = getRepositories()
+  const { record, ...failure } = await loadRedeemable(codes, claims.email, 'sign-in')
+  if (!record) return failure
+
+  const alreadyUsed = 'This sign-in link was already used or replaced by a newer email.'
+  if (record.id !== claims.cid) return { status: 400, error: alreadyUsed }
+
+  const rejection = await markConsumed(codes, record, alreadyUsed)
+  if (rejection) return rejection
+
+  return { ok: true, claims }
+}
+
+module.exports = { allowCodeRequest, issueCode, consumeCode, consumeLink }
@@ -0,0 +1,62 @@
+// Persistent data — users, verification codes, reputation, reports, sessions,
+// blocks, appeals, moderation notes, and refresh tokens — behind one set of
+// repositories.
+//
+// DATA_STORE picks the backend:
+//   supabase — the Supabase project in SUPABASE_URL (default when it's set)
+//   memory   — in-process tables, for CI and running on a laptop offline;
+//              everything is lost on restart
+//
+// Every method is async and resolves `{ data, error }`; inserts that hit a
+// unique constraint resolve `{ duplicate: true }` instead of an error.
+//   users        get(email), listByEmails(emails), upsert(row)
+//   codes        insert(row) -> { id }, latestActive(email, purpose), update(id, patch),
+//                consume(id) -> { id } | null, consumeActive(email, purpose)
+//   reputation   get(email), ensure(email), upsert(row), update(email, patch),
+//                listBanned({ limit }), addEvent(row) (one per actor, session, type),
+//                listEvents(email, since)
+//   reports      insert(row), listByReporter(email), listAgainst(email, since),
+//                countBetween({ reporterEmail, targetEmail, since }),
+//                listOpen({ limit }), resolveOpen({ id | targetEmail }, patch)
+//   sessions     insert(row), end(id, patch), countForUser(email),
+//                listAmong(emails) -> [{ user_a_email, user_b_email }],
+//                listFlagged({ limit })
+//   blocks       insert(row), remove(blocker, blocked), listByBlocker(email),
+//                listInvolving(email)
+//   appeals      insert(row), listPending(), decide(id, patch)
+//   notes        listFor(email), insert(row)
+//   refreshTokens insert(row), getByHash(hash), markUsed(id) -> { id } | null,
+//                revokeFamily(familyId), revokeForEmail(email) -> [{ family_id }]
+// Rows use the column names from supabase/schema.sql.
+
+const { createSupabaseRepositories } = require('./supabase')
+const { createMemoryRepositories } = require('./memory')
+
+const createRepositories = ({
+  driver = process.env.DATA_STORE,
+  supabaseUrl = process.env.SUPABASE_URL,
+} = {}) => {
+  const name = String(driver || (supabaseUrl ? 'supabase' : 'memory')).trim().toLowerCase()
+  if (name === 'memory') return createMemoryRepositories()
+  if (name === 'supabase') return createSupabaseRepositories()
+  throw new Error(`Unknown DATA_STORE "${name}" (expected supabase or memory)`)
+}
+
+let repositories = null
+
+const getRepositories = () => {
+  if (!repositories) {
+    repositories = createRepositories()
+    if (repositories.name === 'memory') {
+      console.warn('[data] DATA_STORE=memory: users, reports, and bans are kept in this process only')
+    }
+  }
+  return repositories
+}
+
+module.exports = {
+  createRepositories,
+  getRepositories,
+  createSupabaseRepositories,
+  createMemoryRepositories,
+}
@@ -0,0 +1,326 @@
+// In-process repositories for CI and offline development. Mirrors the column
+// defaults and unique constraints in supabase/schema.sql (foreign keys are not
+// enforced). Rows are copied in and out so callers can't mutate the tables.
+
+const { randomUUID } = require('crypto')
+
+const now = () => new Date().toISOString()
+const copy = (value) => (value == null ? value : structuredClone(value))
+const ok = (data = null) => ({ data: copy(data), error: null })
+
+// ISO timestamps sort lexicographically; later inserts win ties.
+const newestFirst = (key) => (rows) =>
+  [...rows].reverse().sort((a, b) => String(b[key] ?? '').localeCompare(String(a[key] ?? '')))
+const oldestFirst = (key) => (rows) =>
+  [...rows].sort((a, b) => String(a[key] ?? '').localeCompare(String(b[key] ?? '')))
+
+const isActiveBan = (row, at = now()) => row.banned || (row.banned_until && row.banned_until > at)
+
+const createMemoryRepositories = () => {
+  const tables = {
+    users: new Map(),
+    reputation: new Map(),
+    reputationEvents: [],
+    codes: [],
+    reports: [],
+    sessions: [],
+    blocks: [],
+    appeals: [],
+    notes: [],
+    refreshTokens: [],
+  }
+
+  const reputationDefaults = (email) => ({
+    email,
+    likes: 0,
+    dislikes: 0,
+    reports: 0,
+    banned: false,
+    banned_at: null,
+    banned_until: null,
+    suspension_count: 0,
+    counted_since: null,
+    updated_at: now(),
+  })
+
+  return {
+    name: 'memory',
+
+    users: {
+      get: async (email) => ok(tables.users.get(email) || null),
+      listByEmails: async (emails) => ok(emails.map((email) => tables.users.get(email)).filter(Boolean)),
+      upsert: async (row) => {
+        const existing = tables.users.get(row.email)
+        tables.users.set(row.email, {
+          interests: [],
+          created_at: now(),
+          last_login_at: null,
+          consented_at: null,
+          ...existing,
+          ...copy(row),
+        })
+        return ok()
+      },
+    },
+
+    codes: {
+      insert: async (row) => {
+        const code = {
+          id: randomUUID(),
+          consumed_at: null,
+          attempts: 0,
+          purpose: 'sign-in',
+          created_at: now(),
+          ...copy(row),
+        }
+        tables.codes.push(code)
+        return ok({ id: code.id })
+      },
+      latestActive: async (email, purpose) =>
+        ok(
+          newestFirst('created_at')(tables.codes).find(
+            (row) => row.email === email && row.purpose === purpose && !row.consumed_at,
+          ) || null,
+        ),
+      update: async (id, patch) => {
+        const row = tables.codes.find((entry) => entry.id === id)
+        if (row) Object.assign(row, copy(patch))
+        return ok()
+      },
+      consume: async (id) => {
+        const row = tables.codes.find((entry) => entry.id === id && !entry.consumed_at)
+        if (row) row.consumed_at = now()
+        return ok(row ? { id: row.id } : null)
+      },
+      consumeActive: async (email, purpose) => {
+        const at = now()
+        tables.codes
+          .filter((row) => row.email === email && row.purpose === purpose && !row.consumed_at)
+          .forEach((row) => {
+            row.consumed_at = at
+          })
+        return ok()
+      },
+    },
+
+    reputation: {
+      get: async (email) => ok(tables.reputation.get(email) || null),
+      ensure: async (email) => {
+        if (!tables.reputation.has(email)) tables.reputation.set(email, reputationDefaults(email))
+        return ok()
+      },
+      upsert: async (row) => {
+        const existing = tables.reputation.get(row.email) || reputationDefaults(row.email)
+        tables.reputation.set(row.email, { ...existing, ...copy(row) })
+        return ok()
+      },
+      update: async (email, patch) => {
+        const existing = tables.reputation.get(email)
+        if (existing) tables.reputation.set(email, { ...existing, ...copy(patch) })
+        return ok()
+      },
+      listBanned: async ({ limit }) => {
+        const at = now()
+        const banned = [...tables.reputation.values()].filter((row) => isActiveBan(row, at))
+        return ok(newestFirst('banned_at')(banned).slice(0, limit))
+      },
+      // unique (actor_email, session_id, type); nulls never conflict.
+      addEvent: async (row) => {
+        const duplicate =
+          row.actor_email != null &&
+          row.session_id != null &&
+          tables.reputationEvents.some(
+            (entry) =>
+              entry.actor_email === row.actor_email &&
+              entry.session_id === row.session_id &&
+              entry.type === row.type,
+          )
+        if (duplicate) return { data: null, error: null, duplicate: true }
+        tables.reputationEvents.push({
+          id: randomUUID(),
+          weight: 1,
+          pattern: null,
+          created_at: now(),
+          ...copy(row),
+        })
+        return ok()
+      },
+      listEvents: async (email, since) =>
+        ok(tables.reputationEvents.filter((row) => row.email === email && row.created_at >= since)),
+    },
+
+    reports: {
+      // unique (reporter_email, target_email, session_id); like Postgres, a
+      // null session id never conflicts.
+      insert: async (row) => {
+        const duplicate =
+          row.session_id != null &&
+          tables.reports.some(
+            (entry) =>
+              entry.reporter_email === row.reporter_email &&
+              entry.target_email === row.target_email &&
+              entry.session_id === row.session_id,
+          )
+        if (duplicate) return { data: null, error: null, duplicate: true }
+        tables.reports.push({
+          id: randomUUID(),
+          status: 'open',
+          resolved_at: null,
+          resolved_by: null,
+          weight: 1,
+          pattern: null,
+          note: null,
+          transcript: null,
+          created_at: now(),
+          ...copy(row),
+        })
+        return ok()
+      },
+      listByReporter: async (email) => ok(tables.reports.filter((row) => row.reporter_email === email)),
+      listAgainst: async (targetEmail, since) =>
+        ok(tables.reports.filter((row) => row.target_email === targetEmail && row.created_at >= since)),
+      countBetween: async ({ reporterEmail, targetEmail, since }) =>
+        ok(
+          tables.reports.filter(
+            (row) =>
+              row.reporter_email === reporterEmail &&
+              row.target_email === targetEmail &&
+              row.created_at >= since,
+          ).length,
+        ),
+      listOpen: async ({ limit }) =>
+        ok(newestFirst('created_at')(tables.reports.filter((row) => row.status === 'open')).slice(0, limit)),
+      resolveOpen: async ({ id, targetEmail }, patch) => {
+        tables.reports
+          .filter((row) => row.status === 'open' && (id ? row.id === id : row.target_email === targetEmail))
+          .forEach((row) => Object.assign(row, copy(patch)))
+        return ok()
+      },
+    },
+
+    sessions: {
+      insert: async (row) => {
+        tables.sessions.push({
+          started_at: now(),
+          ended_at: null,
+          ended_by: null,
+          flagged_reason: null,
+          ...copy(row),
+        })
+        return ok()
+      },
+      end: async (id, patch) => {
+        const row = tables.sessions.find((entry) => entry.id === id && !entry.ended_at)
+        if (row) Object.assign(row, copy(patch))
+        return ok()
+      },
+      countForUser: async (email) =>
+        ok(tables.sessions.filter((row) => row.user_a_email === email || row.user_b_email === email).length),
+      listAmong: async (emails) =>
+        ok(
+          tables.sessions
+            .filter((row) => emails.includes(row.user_a_email) && emails.includes(row.user_b_email))
+            .map(({ user_a_email, user_b_email }) => ({ user_a_email, user_b_email })),
+        ),
+      listFlagged: async ({ limit }) =>
+        ok(newestFirst('started_at')(tables.sessions.filter((row) => row.flagged_reason)).slice(0, limit)),
+    },
+
+    blocks: {
+      insert: async (row) => {
+        const exists = tables.blocks.some(
+          (entry) => entry.blocker_email === row.blocker_email && entry.blocked_email === row.blocked_email,
+        )
+        if (!exists) tables.blocks.push({ id: randomUUID(), created_at: now(), ...copy(row) })
+        return ok()
+      },
+      remove: async (blockerEmail, blockedEmail) => {
+        tables.blocks = tables.blocks.filter(
+          (row) => !(row.blocker_email === blockerEmail && row.blocked_email === blockedEmail),
+        )
+        return ok()
+      },
+      listByBlocker: async (email) =>
+        ok(newestFirst('created_at')(tables.blocks.filter((row) => row.blocker_email === email))),
+      listInvolving: async (email) =>
+        ok(tables.blocks.filter((row) => row.blocker_email === email || row.blocked_email === email)),
+    },
+
+    appeals: {
+      // One pending appeal per email (ban_appeals_pending_idx).
+      insert: async (row) => {
+        if (tables.appeals.some((entry) => entry.email === row.email && entry.status === 'pending')) {
+          return { data: null, error: null, duplicate: true }
+        }
+        const appeal = {
+          id: randomUUID(),
+          status: 'pending',
+          staff_response: null,
+          reviewed_by: null,
+          reviewed_at: null,
+          created_at: now(),
+          ...copy(row),
+        }
+        tables.appeals.push(appeal)
+        return ok(appeal)
+      },
+      listPending: async () =>
+        ok(oldestFirst('created_at')(tables.appeals.filter((row) => row.status === 'pending'))),
+      decide: async (id, patch) => {
+        const row = tables.appeals.find((entry) => entry.id === id && entry.status === 'pending')
+        if (row) Object.assign(row, copy(patch))
+        return ok(row || null)
+      },
+    },
+
+    notes: {
+      listFor: async (email) =>
+        ok(newestFirst('created_at')(tables.notes.filter((row) => row.target_email === email))),
+      insert: async (row) => {
+        const note = { id: randomUUID(), created_at: now(), ...copy(row) }
+        tables.notes.push(note)
+        return ok(note)
+      },
+    },
+
+    refreshTokens: {
+      // token_hash is unique, but it's 256 random bits; no duplicate check.
+      insert: async (row) => {
+        tables.refreshTokens.push({
+          id: randomUUID(),
+          used_at: null,
+          revoked_at: null,
+          created_at: now(),
+          ...copy(row),
+        })
+        return ok()
+      },
+      getByHash: async (tokenHash) =>
+        ok(tables.refreshTokens.find((row) => row.token_hash === tokenHash) || null),
+      markUsed: async (id) => {
+        const row = tables.refreshTokens.find((entry) => entry.id === id && !entry.used_at)
+        if (row) row.used_at = now()
+        return ok(row ? { id: row.id } : null)
+      },
+      revokeFamily: async (familyId) => {
+        const at = now()
+        tables.refreshTokens
+          .filter((row) => row.family_id === familyId && !row.revoked_at)
+          .forEach((row) => {
+            row.revoked_at = at
+          })
+        return ok()
+      },
+      revokeForEmail: async (email) => {
+        const at = now()
+        const rows = tables.refreshTokens.filter((row) => row.email === email && !row.revoked_at)
+        rows.forEach((row) => {
+          row.revoked_at = at
+        })
+        return ok(rows.map((row) => ({ family_id: row.family_id })))
+      },
+    },
+  }
+}
+
+module.exports = { createMemoryRepositories }
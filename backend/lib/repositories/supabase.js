@@ -0,0 +1,210 @@
+// Repositories backed by the Supabase project described in
+// supabase/schema.sql. Every method resolves the client's own `{ data, error }`
+// shape; counts come back as `data`.
+
+const UNIQUE_VIOLATION = '23505'
+
+// Maps a unique-constraint failure to `{ duplicate: true }` so callers don't
+// need to know Postgres error codes.
+const withDuplicate = (result) =>
+  result.error?.code === UNIQUE_VIOLATION ? { data: null, error: null, duplicate: true } : result
+
+const asCount = ({ count, error }) => ({ data: count || 0, error })
+
+const createSupabaseRepositories = (supabase = require('../supabase').supabase) => ({
+  name: 'supabase',
+
+  users: {
+    get: (email) => supabase.from('users').select('*').eq('email', email).maybeSingle(),
+    listByEmails: (emails) => supabase.from('users').select('*').in('email', emails),
+    upsert: (row) => supabase.from('users').upsert(row, { onConflict: 'email' }),
+  },
+
+  codes: {
+    insert: (row) => supabase.from('verification_codes').insert(row).select('id').single(),
+    latestActive: async (email, purpose) => {
+      const { data, error } = await supabase
+        .from('verification_codes')
+        .select('id, code_hash, expires_at, consumed_at, attempts')
+        .eq('email', email)
+        .eq('purpose', purpose)
+        .is('consumed_at', null)
+        .order('created_at', { ascending: false })
+        .limit(1)
+      return { data: data?.[0] || null, error }
+    },
+    update: (id, patch) => supabase.from('verification_codes').update(patch).eq('id', id),
+    consume: (id) =>
+      supabase
+        .from('verification_codes')
+        .update({ consumed_at: new Date().toISOString() })
+        .eq('id', id)
+        .is('consumed_at', null)
+        .select('id')
+        .maybeSingle(),
+    consumeActive: (email, purpose) =>
+      supabase
+        .from('verification_codes')
+        .update({ consumed_at: new Date().toISOString() })
+        .eq('email', email)
+        .eq('purpose', purpose)
+        .is('consumed_at', null),
+  },
+
+  reputation: {
+    get: (email) => supabase.from('reputation').select('*').eq('email', email).maybeSingle(),
+    ensure: (email) =>
+      supabase.from('reputation').upsert({ email }, { onConflict: 'email', ignoreDuplicates: true }),
+    upsert: (row) => supabase.from('reputation').upsert(row, { onConflict: 'email' }),
+    update: (email, patch) => supabase.from('reputation').update(patch).eq('email', email),
+    listBanned: ({ limit }) =>
+      supabase
+        .from('reputation')
+        .select('*')
+        .or(`banned.eq.true,banned_until.gt.${new Date().toISOString()}`)
+        .order('banned_at', { ascending: false })
+        .limit(limit),
+    addEvent: async (row) => withDuplicate(await supabase.from('reputation_events').insert(row)),
+    listEvents: (email, since) =>
+      supabase
+        .from('reputation_events')
+        .select('type, weight, actor_email, created_at')
+        .eq('email', email)
+        .gte('created_at', since),
+  },
+
+  reports: {
+    insert: async (row) => withDuplicate(await supabase.from('reports').insert(row)),
+    listByReporter: (email) => supabase.from('reports').select('*').eq('reporter_email', email),
+    listAgainst: (targetEmail, since) =>
+      supabase.from('reports').select('*').eq('target_email', targetEmail).gte('created_at', since),
+    countBetween: async ({ reporterEmail, targetEmail, since }) =>
+      asCount(
+        await supabase
+          .from('reports')
+          .select('id', { count: 'exact', head: true })
+          .eq('reporter_email', reporterEmail)
+          .eq('target_email', targetEmail)
+          .gte('created_at', since),
+      ),
+    listOpen: ({ limit }) =>
+      supabase
+        .from('reports')
+        .select('*')
+        .eq('status', 'open')
+        .order('created_at', { ascending: false })
+        .limit(limit),
+    resolveOpen: ({ id, targetEmail }, patch) => {
+      const query = supabase.from('reports').update(patch).eq('status', 'open')
+      return id ? query.eq('id', id) : query.eq('target_email', targetEmail)
+    },
+  },
+
+  sessions: {
+    insert: (row) => supabase.from('sessions').insert(row),
+    // Only the first end wins, so a late duplicate can't clear a flag.
+    end: (id, patch) => supabase.from('sessions').update(patch).eq('id', id).is('ended_at', null),
+    countForUser: async (email) =>
+      asCount(
+        await supabase
+          .from('sessions')
+          .select('id', { count: 'exact', head: true })
+          .or(`user_a_email.eq.${email},user_b_email.eq.${email}`),
+      ),
+    listAmong: (emails) =>
+      supabase
+        .from('sessions')
+        .select('user_a_email, user_b_email')
+        .in('user_a_email', emails)
+        .in('user_b_email', emails),
+    listFlagged: ({ limit }) =>
+      supabase
+        .from('sessions')
+        .select('*')
+        .not('flagged_reason', 'is', null)
+        .order('started_at', { ascending: false })
+        .limit(limit),
+  },
+
+  blocks: {
+    insert: (row) =>
+      supabase
+        .from('blocks')
+        .upsert(row, { onConflict: 'blocker_email,blocked_email', ignoreDuplicates: true }),
+    remove: (blockerEmail, blockedEmail) =>
+      supabase
+        .from('blocks')
+        .delete()
+        .eq('blocker_email', blockerEmail)
+        .eq('blocked_email', blockedEmail),
+    listByBlocker: (email) =>
+      supabase
+        .from('blocks')
+        .select('*')
+        .eq('blocker_email', email)
+        .order('created_at', { ascending: false }),
+    listInvolving: (email) =>
+      supabase.from('blocks').select('*').or(`blocker_email.eq.${email},blocked_email.eq.${email}`),
+  },
+
+  appeals: {
+    insert: async (row) => withDuplicate(await supabase.from('ban_appeals').insert(row).select('*').single()),
+    listPending: () =>
+      supabase
+        .from('ban_appeals')
+        .select('*')
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true }),
+    // Only pending appeals can be decided; `data` is null otherwise.
+    decide: (id, patch) =>
+      supabase
+        .from('ban_appeals')
+        .update(patch)
+        .eq('id', id)
+        .eq('status', 'pending')
+        .select('*')
+        .maybeSingle(),
+  },
+
+  notes: {
+    listFor: (email) =>
+      supabase
+        .from('moderation_notes')
+        .select('*')
+        .eq('target_email', email)
+        .order('created_at', { ascending: false }),
+    insert: (row) => supabase.from('moderation_notes').insert(row).select('*').single(),
+  },
+
+  refreshTokens: {
+    insert: (row) => supabase.from('refresh_tokens').insert(row),
+    getByHash: (tokenHash) =>
+      supabase.from('refresh_tokens').select('*').eq('token_hash', tokenHash).maybeSingle(),
+    // Only the first caller gets the row back, so two concurrent refreshes
+    // can't both rotate the same token.
+    markUsed: (id) =>
+      supabase
+        .from('refresh_tokens')
+        .update({ used_at: new Date().toISOString() })
+        .eq('id', id)
+        .is('used_at', null)
+        .select('id')
+        .maybeSingle(),
+    revokeFamily: (familyId) =>
+      supabase
+        .from('refresh_tokens')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('family_id', familyId)
+        .is('revoked_at', null),
+    // Resolves the revoked rows' family ids.
+    revokeForEmail: (email) =>
+      supabase
+        .from('refresh_tokens')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('email', email)
+        .is('revoked_at', null)
+        .select('family_id'),
+  },
+})
+
+module.exports = { createSupabaseRepositories }
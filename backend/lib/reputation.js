@@ -1,22 +1,113 @@
-const { supabase } = require('./supabase')
+const { getRepositories } = require('./repositories')
+const { weighReaction } = require('./trust')
+const { revokeAllSessions } = require('./authSessions')
 
 const REPORT_THRESHOLD = 2
 const DISLIKE_THRESHOLD = 6
 
-const emptyRep = () => ({ likes: 0, dislikes: 0, reports: 0, banned: false })
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
 
+// Events only count while they're inside their decay window, so a user who
+// behaves for a while drifts back to a clean slate on their own.
+const DECAY_WINDOWS_MS = {
+  like: 30 * DAY_MS,
+  dislike: 7 * DAY_MS,
+  report: 30 * DAY_MS,
+  strike: 30 * DAY_MS,
+}
+const LONGEST_WINDOW_MS = Math.max(...Object.values(DECAY_WINDOWS_MS))
+
+// Each suspension lasts longer than the one before. Crossing a threshold again
+// after the last step is a permanent ban.
+const SUSPENSION_STEPS_MS = [24 * HOUR_MS, 7 * DAY_MS, 30 * DAY_MS]
+
+const EVENT_TYPES = Object.keys(DECAY_WINDOWS_MS)
+
+const getReputationPolicy = () => ({
+  reportThreshold: REPORT_THRESHOLD,
+  dislikeThreshold: DISLIKE_THRESHOLD,
+  decayWindowsDays: Object.fromEntries(
+    Object.entries(DECAY_WINDOWS_MS).map(([type, ms]) => [type, ms / DAY_MS]),
+  ),
+  suspensionStepsHours: SUSPENSION_STEPS_MS.map((ms) => ms / HOUR_MS),
+})
+
+const emptyRep = () => ({
+  likes: 0,
+  dislikes: 0,
+  reports: 0,
+  banned: false,
+  banned_until: null,
+  permanent: false,
+})
+
+const isSuspended = (row, now = Date.now()) =>
+  Boolean(row?.banned_until) && new Date(row.banned_until).getTime() > now
+
+// Tallies the events still inside their window. Anything before `countedSince`
+// (the start of the last suspension, or a staff unban) was already acted on.
+// Counts are what users see; scores are the trust-weighted sums the
+// thresholds are checked against (see lib/trust.js). In the scores each actor
+// counts once per type, at their heaviest weight, so one person can't build
+// up a suspension by reporting the same user session after session.
+const tallyEvents = (events, countedSince, now = Date.now()) => {
+  const floor = countedSince ? new Date(countedSince).getTime() : 0
+  const counts = { like: 0, dislike: 0, report: 0, strike: 0 }
+  const scores = { like: 0, dislike: 0, report: 0, strike: 0 }
+  const actorWeights = new Map()
+  for (const event of events) {
+    const at = new Date(event.created_at).getTime()
+    if (at <= floor || now - at > DECAY_WINDOWS_MS[event.type]) continue
+    counts[event.type] += 1
+    const weight = Number(event.weight ?? 1)
+    if (!event.actor_email) {
+      scores[event.type] += weight
+      continue
+    }
+    const key = `${event.type}:${event.actor_email}`
+    actorWeights.set(key, { type: event.type, weight: Math.max(weight, actorWeights.get(key)?.weight ?? 0) })
+  }
+  for (const { type, weight } of actorWeights.values()) scores[type] += weight
+  return {
+    likes: counts.like,
+    dislikes: counts.dislike,
+    reports: counts.report + counts.strike,
+    dislikeScore: scores.dislike,
+    reportScore: scores.report + scores.strike,
+  }
+}
+
+const loadState = async (email) => {
+  const { reputation } = getRepositories()
+  const since = new Date(Date.now() - LONGEST_WINDOW_MS).toISOString()
+  const [{ data: row, error: rowError }, { data: events, error: eventsError }] = await Promise.all([
+    reputation.get(email),
+    reputation.listEvents(email, since),
+  ])
+  if (rowError) console.error('reputation:get error', rowError)
+  if (eventsError) console.error('reputation_events:list error', eventsError)
+  return { row: row || {}, events: events || [] }
+}
+
+const toReputation = ({ row, events }) => {
+  const suspended = isSuspended(row)
+  const { likes, dislikes, reports } = tallyEvents(events, row.counted_since)
+  return {
+    likes,
+    dislikes,
+    reports,
+    banned: Boolean(row.banned) || suspended,
+    banned_until: !row.banned && suspended ? row.banned_until : null,
+    permanent: Boolean(row.banned),
+  }
+}
+
+// `banned` is true for both permanent bans and suspensions that haven't run
+// out yet; `banned_until` is only set for the latter.
 const getReputation = async (email) => {
   if (!email) return emptyRep()
-  const { data, error } = await supabase
-    .from('reputation')
-    .select('likes, dislikes, reports, banned')
-    .eq('email', email)
-    .maybeSingle()
-  if (error) {
-    console.error('reputation:get error', error)
-    return emptyRep()
-  }
-  return data || emptyRep()
+  return toReputation(await loadState(email))
 }
 
 const upsertUser = async ({ email, name, interests = [], consented = false }) => {
@@ -28,108 +119,147 @@ const upsertUser = async ({ email, name, interests = [], consented = false }) =>
   }
   if (consented) userRow.consented_at = new Date().toISOString()
 
-  const { error } = await supabase.from('users').upsert(userRow, { onConflict: 'email' })
+  const { users, reputation } = getRepositories()
+  const { error } = await users.upsert(userRow)
   if (error) console.error('users:upsert error', error)
 
   // Ensure a reputation row exists so later upserts don't race.
-  const { error: repError } = await supabase
-    .from('reputation')
-    .upsert({ email }, { onConflict: 'email', ignoreDuplicates: true })
+  const { error: repError } = await reputation.ensure(email)
   if (repError) console.error('reputation:init error', repError)
 }
 
-const applyReaction = async ({ reporterEmail, targetEmail, type, sessionId }) => {
+// Records one event and re-evaluates the user. Crossing a threshold starts the
+// next suspension on the ladder; events during a suspension are kept for the
+// record but can't stack another one on top. An actor gets one event of each
+// type per session: a repeat changes nothing and resolves the current standing.
+const recordEvent = async ({ email, type, actorEmail, sessionId, reason, weight = 1, pattern = null }) => {
+  if (!email || !EVENT_TYPES.includes(type)) return null
+
+  const { reputation } = getRepositories()
+  const { error: insertError, duplicate } = await reputation.addEvent({
+    email,
+    type,
+    actor_email: actorEmail || null,
+    session_id: sessionId || null,
+    reason: reason || null,
+    weight,
+    pattern,
+  })
+  if (insertError) console.error('reputation_events:insert error', insertError)
+  if (duplicate) return getReputation(email)
+
+  const state = await loadState(email)
+  const rep = toReputation(state)
+  const { reportScore, dislikeScore } = tallyEvents(state.events, state.row.counted_since)
+  const nowIso = new Date().toISOString()
+  const update = {
+    email,
+    likes: rep.likes,
+    dislikes: rep.dislikes,
+    reports: rep.reports,
+    updated_at: nowIso,
+  }
+
+  if (!rep.banned && (reportScore >= REPORT_THRESHOLD || dislikeScore >= DISLIKE_THRESHOLD)) {
+    const step = state.row.suspension_count || 0
+    update.suspension_count = step + 1
+    update.banned_at = nowIso
+    update.counted_since = nowIso
+    if (step >= SUSPENSION_STEPS_MS.length) {
+      update.banned = true
+      rep.permanent = true
+    } else {
+      update.banned_until = new Date(Date.now() + SUSPENSION_STEPS_MS[step]).toISOString()
+      rep.banned_until = update.banned_until
+    }
+    rep.banned = true
+  }
+
+  const { error } = await reputation.upsert(update)
+  if (error) console.error('reputation:upsert error', error)
+  // Existing access tokens stop working now, not when they expire.
+  if (update.banned_at) await revokeAllSessions(email)
+
+  return rep
+}
+
+// Dislikes and reports are weighted by the reporter's trust. Reactions that
+// look like retaliation or brigading count for nothing; the report still lands
+// in the moderation queue, labelled, so staff can decide. `report` carries the
+// reporter's category and note plus the session transcript as evidence.
+// Each reporter gets one reaction of each type per session: a repeated report
+// stops at the reports table, a repeated dislike at recordEvent, and both
+// resolve the target's current standing without adding weight.
+const applyReaction = async ({ reporterEmail, targetEmail, type, sessionId, report = {} }) => {
   if (!targetEmail || !type) return null
 
+  const { weight, pattern } = await weighReaction({ reporterEmail, targetEmail, type })
+
   if (type === 'report' && reporterEmail) {
     // Per-reporter uniqueness (enforced by table constraint).
-    const { error: reportErr } = await supabase.from('reports').insert({
+    const { error: reportErr, duplicate } = await getRepositories().reports.insert({
       reporter_email: reporterEmail,
       target_email: targetEmail,
       session_id: sessionId || null,
-      reason: null,
+      reason: report.category || null,
+      note: report.note || null,
+      transcript: report.transcript?.length ? report.transcript : null,
+      weight,
+      pattern,
     })
-    if (reportErr && reportErr.code !== '23505') {
-      console.error('reports:insert error', reportErr)
-    }
-  }
-
-  const current = await getReputation(targetEmail)
-  const next = { ...current }
-  if (type === 'like') next.likes += 1
-  if (type === 'dislike') next.dislikes += 1
-  if (type === 'report') next.reports += 1
-  if (next.reports >= REPORT_THRESHOLD || next.dislikes >= DISLIKE_THRESHOLD) {
-    next.banned = true
+    if (reportErr) console.error('reports:insert error', reportErr)
+    if (duplicate) return getReputation(targetEmail)
   }
 
-  const { error } = await supabase
-    .from('reputation')
-    .upsert(
-      {
-        email: targetEmail,
-        ...next,
-        banned_at: next.banned ? new Date().toISOString() : null,
-        updated_at: new Date().toISOString(),
-      },
-      { onConflict: 'email' },
-    )
-  if (error) console.error('reputation:upsert error', error)
-
-  return next
+  return recordEvent({
+    email: targetEmail,
+    type,
+    actorEmail: reporterEmail,
+    sessionId,
+    weight,
+    pattern,
+  })
 }
 
-// System-initiated strike (e.g. moderation filter). Same ban math as a user report,
-// but doesn't write to the `reports` table (which requires a real reporter_email).
+// System-initiated strike (e.g. moderation filter). Same suspension math as a
+// user report, but doesn't write to the `reports` table (which requires a real
+// reporter_email).
 const flagUserAuto = async (email, reason) => {
   if (!email) return null
-  const current = await getReputation(email)
-  const next = { ...current, reports: current.reports + 1 }
-  if (next.reports >= REPORT_THRESHOLD || next.dislikes >= DISLIKE_THRESHOLD) {
-    next.banned = true
-  }
-  const { error } = await supabase
-    .from('reputation')
-    .upsert(
-      {
-        email,
-        ...next,
-        banned_at: next.banned ? new Date().toISOString() : null,
-        updated_at: new Date().toISOString(),
-      },
-      { onConflict: 'email' },
-    )
-  if (error) console.error('reputation:auto-flag error', error)
+  const next = await recordEvent({ email, type: 'strike', reason })
   console.warn(`[moderation] auto-flag ${email} reason=${reason} rep=${JSON.stringify(next)}`)
   return next
 }
 
-// Immediate ban, bypassing strike math. Used for severe categories (e.g. sexual/minors).
+// Immediate permanent ban, bypassing the suspension ladder. Used for severe
+// categories (e.g. sexual/minors) and staff bans.
 const hardBanUser = async (email, reason) => {
   if (!email) return null
   const now = new Date().toISOString()
-  const { error } = await supabase
-    .from('reputation')
-    .upsert(
-      {
-        email,
-        banned: true,
-        banned_at: now,
-        updated_at: now,
-      },
-      { onConflict: 'email' },
-    )
+  const { error } = await getRepositories().reputation.upsert({
+    email,
+    banned: true,
+    banned_at: now,
+    banned_until: null,
+    updated_at: now,
+  })
   if (error) console.error('reputation:hard-ban error', error)
+  await revokeAllSessions(email)
   console.warn(`[moderation] HARD BAN ${email} reason=${reason}`)
-  return { banned: true, reason }
+  return { banned: true, banned_until: null, permanent: true, reason }
 }
 
 module.exports = {
   getReputation,
+  getReputationPolicy,
   upsertUser,
+  recordEvent,
   applyReaction,
   flagUserAuto,
   hardBanUser,
+  isSuspended,
   REPORT_THRESHOLD,
   DISLIKE_THRESHOLD,
+  DECAY_WINDOWS_MS,
+  SUSPENSION_STEPS_MS,
 }
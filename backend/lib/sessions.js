@@ -1,11 +1,11 @@
-const { supabase } = require('./supabase')
+const { getRepositories } = require('./repositories')
 
 // Pairing audit log. Never blocks the socket path — every call is fire-and-forget
 // from the caller's perspective; errors are just logged.
 
 const logSessionStart = async ({ sessionId, mode, userA, userB }) => {
   if (!sessionId || !mode || !userA || !userB) return
-  const { error } = await supabase.from('sessions').insert({
+  const { error } = await getRepositories().sessions.insert({
     id: sessionId,
     mode,
     user_a_email: userA,
@@ -22,11 +22,7 @@ const logSessionEnd = async ({ sessionId, endedBy, flaggedReason }) => {
   }
   if (flaggedReason) patch.flagged_reason = flaggedReason
 
-  const { error } = await supabase
-    .from('sessions')
-    .update(patch)
-    .eq('id', sessionId)
-    .is('ended_at', null)
+  const { error } = await getRepositories().sessions.end(sessionId, patch)
   if (error) console.error('sessions:end error', error)
 }
 
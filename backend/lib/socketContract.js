@@ -0,0 +1,111 @@
+// Runtime validation for client → server socket events. The TypeScript side of
+// this contract is `ClientToServerEvents` in src/types.ts — a payload that
+// doesn't match is rejected with `system:error` instead of being half-handled.
+
+const MODES = ['text', 'video']
+const REACTION_TYPES = ['like', 'dislike', 'report']
+const REPORT_CATEGORIES = ['harassment', 'sexual', 'hate', 'spam', 'underage', 'other']
+const RECEIPT_STATUSES = ['delivered', 'read']
+const SDP_TYPES = ['offer', 'answer', 'pranswer', 'rollback']
+
+const isObject = (value) =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+const isString = (value) => typeof value === 'string'
+const isBoolean = (value) => typeof value === 'boolean'
+const isNonEmptyString = (value) => isString(value) && value.trim().length > 0
+const isStringArray = (value) => Array.isArray(value) && value.every(isString)
+const isNonEmptyStringArray = (value) =>
+  Array.isArray(value) && value.length > 0 && value.every(isNonEmptyString)
+const optional = (check) => (value) => typeof value === 'undefined' || check(value)
+const oneOf = (options) => (value) => options.includes(value)
+
+// Each schema maps a field to a predicate. Unknown fields are ignored.
+const schema = (fields) => (payload) =>
+  isObject(payload) &&
+  Object.entries(fields).every(([key, check]) => check(payload[key]))
+
+const isSessionDescription = schema({
+  type: oneOf(SDP_TYPES),
+  sdp: optional(isString),
+})
+
+const isIceCandidate = (value) =>
+  value === null ||
+  (isObject(value) && optional(isString)(value.candidate))
+
+const clientEventSchemas = {
+  'profile:update': schema({
+    name: optional(isString),
+    interests: optional(isStringArray),
+  }),
+  'profile:reaction': schema({
+    target: isNonEmptyString,
+    type: oneOf(REACTION_TYPES),
+    sessionId: optional(isString),
+    category: optional(oneOf(REPORT_CATEGORIES)),
+    note: optional(isString),
+  }),
+  'profile:block': schema({
+    target: isNonEmptyString,
+    sessionId: optional(isString),
+  }),
+  'match:request': schema({ mode: oneOf(MODES) }),
+  'match:next': schema({
+    mode: oneOf(MODES),
+    sessionId: optional(isString),
+  }),
+  'chat:text:message': schema({
+    sessionId: isNonEmptyString,
+    body: isNonEmptyString,
+    clientId: optional(isString),
+  }),
+  'chat:typing': schema({
+    sessionId: isNonEmptyString,
+    typing: isBoolean,
+  }),
+  'chat:receipt': schema({
+    sessionId: isNonEmptyString,
+    messageIds: isNonEmptyStringArray,
+    status: oneOf(RECEIPT_STATUSES),
+  }),
+  'chat:leave': schema({ sessionId: optional(isString) }),
+  'session:resume': schema({ sessionId: isNonEmptyString }),
+  'video:reveal': schema({ sessionId: isNonEmptyString }),
+  'webrtc:offer': schema({
+    sessionId: isNonEmptyString,
+    description: isSessionDescription,
+  }),
+  'webrtc:answer': schema({
+    sessionId: isNonEmptyString,
+    description: isSessionDescription,
+  }),
+  'webrtc:ice-candidate': schema({
+    sessionId: isNonEmptyString,
+    candidate: isIceCandidate,
+  }),
+}
+
+// socket.on() with the payload checked against the contract first. Async
+// handlers that throw (e.g. the shared store is unreachable) are logged and
+// answered with `system:error` instead of becoming unhandled rejections.
+const registerHandler = (socket, event, handler) => {
+  const validate = clientEventSchemas[event]
+  if (!validate) {
+    throw new Error(`No payload schema registered for socket event "${event}"`)
+  }
+  socket.on(event, (payload) => {
+    if (!validate(payload)) {
+      console.warn(`[socket] rejected ${event} from ${socket.id}: invalid payload`)
+      socket.emit('system:error', `Invalid payload for ${event}.`)
+      return
+    }
+    Promise.resolve()
+      .then(() => handler(payload))
+      .catch((err) => {
+        console.error(`[socket] ${event} handler failed`, err)
+        socket.emit('system:error', 'Something went wrong. Try again.')
+      })
+  })
+}
+
+module.exports = { registerHandler, clientEventSchemas }
@@ -0,0 +1,194 @@
+// Realtime matchmaking state — waiting queues, live sessions, and which
+// sockets belong to which email — kept in the shared store (./store) so every
+// backend node sees the same thing.
+//
+// Keys:
+//   queue:<mode>            hash socketId -> queue entry
+//   session:<id>            { id, mode, participants, emails, startedAt, away }
+//   lock:session:<id>       held while a session is read, changed and saved
+//   sessions                set of live session ids
+//   socket-session:<sid>    session id the socket is in
+//   away:<email>            { sessionId, awayId } held open for a reconnect
+//   transcript:<id>         capped list of recent messages
+//   email-sockets:<email>   set of socket ids
+//   socket-email:<sid>      email
+
+const { getStore, withLock } = require('./store')
+
+// Upper bound on how long session bookkeeping outlives a node that crashed
+// without cleaning up.
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000
+const TRANSCRIPT_LIMIT = 50
+// A session is one JSON value, so changes to it wait their turn for the
+// session lock rather than being skipped the way a busy pairing pass is.
+const SESSION_LOCK_MS = 2000
+const SESSION_LOCK_RETRY_MS = 25
+const SESSION_LOCK_ATTEMPTS = 80
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+
+const createState = (store = getStore()) => {
+  // ---- queues ----
+  const enqueue = (mode, entry) => store.hset(`queue:${mode}`, entry.socketId, entry)
+
+  const dequeue = async (socketId, modes) => {
+    await Promise.all(modes.map((mode) => store.hdel(`queue:${mode}`, socketId)))
+  }
+
+  // Oldest first, so the matcher serves the longest waiter.
+  const queueEntries = async (mode) =>
+    Object.values(await store.hgetall(`queue:${mode}`)).sort((a, b) => a.joinedAt - b.joinedAt)
+
+  const queueLength = (mode) => store.hlen(`queue:${mode}`)
+
+  // ---- sessions ----
+  const saveSession = (session) => store.set(`session:${session.id}`, session, SESSION_TTL_MS)
+
+  const createSession = async (session) => {
+    await saveSession({ away: {}, ...session })
+    await store.sadd('sessions', session.id)
+    await Promise.all(
+      session.participants.map((id) => store.set(`socket-session:${id}`, session.id, SESSION_TTL_MS)),
+    )
+  }
+
+  const getSession = (sessionId) => (sessionId ? store.get(`session:${sessionId}`) : null)
+
+  // Re-reads the session under its lock, lets `change` edit it in place, and
+  // saves it. Resolves the saved session, or null when it's gone or `change`
+  // returned false to leave it alone. Both partners dropping (or resuming) at
+  // once on different nodes would otherwise overwrite each other's seat.
+  const updateSession = async (sessionId, change) => {
+    for (let attempt = 0; attempt < SESSION_LOCK_ATTEMPTS; attempt += 1) {
+      const result = await withLock(store, `lock:session:${sessionId}`, SESSION_LOCK_MS, async () => {
+        const session = await getSession(sessionId)
+        if (!session || change(session) === false) return { session: null }
+        await saveSession(session)
+        return { session }
+      })
+      if (result) return result.session
+      await sleep(SESSION_LOCK_RETRY_MS)
+    }
+    throw new Error(`Timed out waiting for the lock on session ${sessionId}`)
+  }
+
+  const findSessionBySocket = async (socketId) => {
+    const sessionId = await store.get(`socket-session:${socketId}`)
+    const session = await getSession(sessionId)
+    if (!session || !session.participants.includes(socketId)) return null
+    return { sessionId, session }
+  }
+
+  const countSessions = async () => (await store.smembers('sessions')).length
+
+  const deleteSession = async (session) => {
+    await store.del(`session:${session.id}`)
+    await store.srem('sessions', session.id)
+    await store.del(`transcript:${session.id}`)
+    await store.del(`reveal:${session.id}`)
+    await Promise.all([
+      ...session.participants.map((id) => store.del(`socket-session:${id}`)),
+      ...Object.values(session.away || {}).map(({ email }) => store.del(`away:${email}`)),
+    ])
+  }
+
+  // Resolves the updated session, or null if the socket is no longer in it.
+  const markAway = async (sessionId, socketId, email) => {
+    const session = await updateSession(sessionId, (current) => {
+      if (!current.participants.includes(socketId)) return false
+      current.away = { ...current.away, [socketId]: { email } }
+    })
+    if (session) await store.set(`away:${email}`, { sessionId, awayId: socketId }, SESSION_TTL_MS)
+    return session
+  }
+
+  // Sessions held open for a dropped participant are keyed by their old socket
+  // id in `session.away`. The JWT email is what lets a new socket claim it.
+  const findAwaySession = async (email) => {
+    const pointer = await store.get(`away:${email}`)
+    if (!pointer) return null
+    const session = await getSession(pointer.sessionId)
+    if (!session?.away?.[pointer.awayId]) return null
+    return { sessionId: session.id, session, awayId: pointer.awayId }
+  }
+
+  // Moves the away participant's seat to their new socket. Resolves the
+  // updated session, or null if the seat was already resumed or let go.
+  const resumeParticipant = async (sessionId, awayId, socketId) => {
+    let email = null
+    const session = await updateSession(sessionId, (current) => {
+      if (!current.away?.[awayId]) return false
+      email = current.away[awayId].email
+      delete current.away[awayId]
+      current.participants = current.participants.map((id) => (id === awayId ? socketId : id))
+      current.emails[socketId] = current.emails[awayId]
+      delete current.emails[awayId]
+    })
+    if (!session) return null
+    await store.del(`away:${email}`)
+    await store.del(`socket-session:${awayId}`)
+    await store.set(`socket-session:${socketId}`, session.id, SESSION_TTL_MS)
+    return session
+  }
+
+  const appendTranscript = async (sessionId, entry) => {
+    await store.pushCapped(`transcript:${sessionId}`, entry, TRANSCRIPT_LIMIT)
+    await store.expire(`transcript:${sessionId}`, SESSION_TTL_MS)
+  }
+
+  const getTranscript = (sessionId) => store.range(`transcript:${sessionId}`)
+
+  // Video reveal consent, by email so it survives a resume. A set rather than
+  // a field on the session: two partners pressing reveal at once can't
+  // overwrite each other.
+  const markRevealed = async (sessionId, email) => {
+    await store.sadd(`reveal:${sessionId}`, email)
+    await store.expire(`reveal:${sessionId}`, SESSION_TTL_MS)
+  }
+
+  const revealedEmails = (sessionId) => store.smembers(`reveal:${sessionId}`)
+
+  // ---- socket registry ----
+  const registerSocket = async (socketId, email) => {
+    if (!email) return
+    const normalized = email.toLowerCase()
+    await store.sadd(`email-sockets:${normalized}`, socketId)
+    await store.set(`socket-email:${socketId}`, normalized)
+  }
+
+  const unregisterSocket = async (socketId) => {
+    const email = await store.get(`socket-email:${socketId}`)
+    await store.del(`socket-email:${socketId}`)
+    if (email) await store.srem(`email-sockets:${email}`, socketId)
+  }
+
+  const socketsForEmail = (email) => store.smembers(`email-sockets:${String(email).toLowerCase()}`)
+
+  const isSocketRegistered = async (socketId) => Boolean(await store.get(`socket-email:${socketId}`))
+
+  return {
+    enqueue,
+    dequeue,
+    queueEntries,
+    queueLength,
+    createSession,
+    getSession,
+    saveSession,
+    findSessionBySocket,
+    countSessions,
+    deleteSession,
+    markAway,
+    findAwaySession,
+    resumeParticipant,
+    appendTranscript,
+    getTranscript,
+    markRevealed,
+    revealedEmails,
+    registerSocket,
+    unregisterSocket,
+    socketsForEmail,
+    isSocketRegistered,
+  }
+}
+
+module.exports = { createState, TRANSCRIPT_LIMIT }
@@ -0,0 +1,78 @@
+// Shared state for queues, sessions, socket registries, and rate limits.
+//
+// STATE_STORE picks the backend:
+//   memory     — single process (default when REDIS_URL is unset)
+//   redis      — shared by every node; needs REDIS_URL plus `ioredis` and
+//                `@socket.io/redis-adapter` (optionalDependencies)
+//
+// Store shape (every method is async; values are JSON-serializable):
+//   get/set(key, value, ttlMs?)/del        plain values
+//   hset/hget/hdel/hgetall/hlen            hashes
+//   sadd/srem/smembers                     sets of strings
+//   pushCapped(key, value, max)/range      capped lists
+//   expire(key, ttlMs)
+//   acquireLock(key, ttlMs) -> token|null, releaseLock(key, token)
+//   takeToken(key, capacity, refillPerSec) -> boolean   token bucket
+//   countInWindow(key, windowMs) -> number              fixed-window counter
+
+const { createMemoryStore } = require('./memory')
+const { createRedisStore } = require('./redis')
+
+const requireOptional = (name) => {
+  try {
+    return require(name)
+  } catch (err) {
+    if (err.code !== 'MODULE_NOT_FOUND') throw err
+    throw new Error(`STATE_STORE=redis needs the "${name}" package. Run: npm install --include=optional`)
+  }
+}
+
+const createStore = ({
+  driver = process.env.STATE_STORE,
+  redisUrl = process.env.REDIS_URL,
+} = {}) => {
+  const name = String(driver || (redisUrl ? 'redis' : 'memory')).trim().toLowerCase()
+  if (name === 'memory') return createMemoryStore()
+  if (name === 'redis') {
+    if (!redisUrl) throw new Error('STATE_STORE=redis requires REDIS_URL')
+    const Redis = requireOptional('ioredis')
+    return createRedisStore({ client: new Redis(redisUrl) })
+  }
+  throw new Error(`Unknown STATE_STORE "${name}" (expected memory or redis)`)
+}
+
+// Socket.IO needs its own pub/sub connection pair to fan events out across
+// nodes. Only a real Redis has one; everything else stays single-node.
+const createSocketAdapter = (store) => {
+  if (store.name !== 'redis' || typeof store.client.duplicate !== 'function') return null
+  const { createAdapter } = requireOptional('@socket.io/redis-adapter')
+  return createAdapter(store.client, store.client.duplicate())
+}
+
+// Runs `fn` while holding a store-wide lock, or skips it (returning null) when
+// another node already holds it.
+const withLock = async (store, key, ttlMs, fn) => {
+  const token = await store.acquireLock(key, ttlMs)
+  if (!token) return null
+  try {
+    return await fn()
+  } finally {
+    await store.releaseLock(key, token)
+  }
+}
+
+let defaultStore = null
+
+const getStore = () => {
+  if (!defaultStore) defaultStore = createStore()
+  return defaultStore
+}
+
+module.exports = {
+  getStore,
+  createStore,
+  createSocketAdapter,
+  withLock,
+  createMemoryStore,
+  createRedisStore,
+}
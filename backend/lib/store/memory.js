@@ -0,0 +1,108 @@
+// Single-process store. Values are JSON round-tripped like they would be in
+// Redis, so callers can't come to rely on sharing object references.
+
+const encode = (value) => JSON.stringify(value)
+const decode = (raw) => (raw === undefined ? null : JSON.parse(raw))
+
+const createMemoryStore = () => {
+  // key -> { value, expiresAt }
+  const entries = new Map()
+
+  const read = (key, now = Date.now()) => {
+    const entry = entries.get(key)
+    if (!entry) return undefined
+    if (entry.expiresAt && entry.expiresAt <= now) {
+      entries.delete(key)
+      return undefined
+    }
+    return entry.value
+  }
+
+  const write = (key, value, ttlMs) => {
+    entries.set(key, { value, expiresAt: ttlMs ? Date.now() + ttlMs : null })
+  }
+
+  const container = (key, create) => {
+    let value = read(key)
+    if (value === undefined) {
+      value = create()
+      write(key, value)
+    }
+    return value
+  }
+
+  return {
+    name: 'memory',
+
+    get: async (key) => decode(read(key)),
+    set: async (key, value, ttlMs) => write(key, encode(value), ttlMs),
+    del: async (key) => {
+      entries.delete(key)
+    },
+
+    hset: async (key, field, value) => {
+      container(key, () => new Map()).set(field, encode(value))
+    },
+    hget: async (key, field) => decode(read(key)?.get(field)),
+    hdel: async (key, field) => {
+      read(key)?.delete(field)
+    },
+    hgetall: async (key) => {
+      const hash = read(key)
+      if (!hash) return {}
+      return Object.fromEntries([...hash].map(([field, raw]) => [field, decode(raw)]))
+    },
+    hlen: async (key) => read(key)?.size ?? 0,
+
+    sadd: async (key, member) => {
+      container(key, () => new Set()).add(member)
+    },
+    srem: async (key, member) => {
+      read(key)?.delete(member)
+    },
+    smembers: async (key) => [...(read(key) ?? [])],
+
+    pushCapped: async (key, value, maxLength) => {
+      const list = container(key, () => [])
+      list.push(encode(value))
+      if (list.length > maxLength) list.splice(0, list.length - maxLength)
+    },
+    range: async (key) => (read(key) ?? []).map(decode),
+    expire: async (key, ttlMs) => {
+      const entry = entries.get(key)
+      if (entry) entry.expiresAt = Date.now() + ttlMs
+    },
+
+    acquireLock: async (key, ttlMs) => {
+      if (read(key) !== undefined) return null
+      const token = `${Date.now()}-${Math.random()}`
+      write(key, token, ttlMs)
+      return token
+    },
+    releaseLock: async (key, token) => {
+      if (read(key) === token) entries.delete(key)
+    },
+
+    takeToken: async (key, capacity, refillPerSec) => {
+      const now = Date.now()
+      const bucket = read(key, now) ?? { tokens: capacity, at: now }
+      const elapsedMs = Math.max(0, now - bucket.at)
+      const tokens = Math.min(capacity, bucket.tokens + (elapsedMs / 1000) * refillPerSec)
+      const allowed = tokens >= 1
+      // Expire once the bucket would be full again; a full bucket is no bucket.
+      write(key, { tokens: allowed ? tokens - 1 : tokens, at: now }, Math.ceil((capacity / refillPerSec) * 1000))
+      return allowed
+    },
+    countInWindow: async (key, windowMs) => {
+      const current = read(key)
+      if (current === undefined) {
+        write(key, 1, windowMs)
+        return 1
+      }
+      entries.get(key).value = current + 1
+      return current + 1
+    },
+  }
+}
+
+module.exports = { createMemoryStore }
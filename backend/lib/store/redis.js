@@ -0,0 +1,117 @@
+// Redis-backed store, shared by every backend node. `client` is an ioredis
+// instance (or anything with the same command methods, such as ioredis-mock in
+// the tests). Multi-step operations run as Lua scripts so two
+// nodes can't interleave inside them.
+
+const SCRIPTS = {
+  bcTakeToken: {
+    numberOfKeys: 1,
+    lua: `
+      local capacity = tonumber(ARGV[1])
+      local refill = tonumber(ARGV[2])
+      local time = redis.call('TIME')
+      local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+      local state = redis.call('HMGET', KEYS[1], 'tokens', 'at')
+      local tokens = tonumber(state[1]) or capacity
+      local at = tonumber(state[2]) or now
+      -- A clock that steps back (say, after a failover) refills nothing.
+      if now < at then now = at end
+      tokens = math.min(capacity, tokens + ((now - at) / 1000) * refill)
+      local allowed = 0
+      if tokens >= 1 then
+        tokens = tokens - 1
+        allowed = 1
+      end
+      redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'at', tostring(now))
+      redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / refill * 1000))
+      return allowed`,
+  },
+  bcCountInWindow: {
+    numberOfKeys: 1,
+    lua: `
+      local count = redis.call('INCR', KEYS[1])
+      if count == 1 then redis.call('PEXPIRE', KEYS[1], ARGV[1]) end
+      return count`,
+  },
+  bcPushCapped: {
+    numberOfKeys: 1,
+    lua: `
+      redis.call('RPUSH', KEYS[1], ARGV[1])
+      redis.call('LTRIM', KEYS[1], -tonumber(ARGV[2]), -1)
+      return 1`,
+  },
+  bcReleaseLock: {
+    numberOfKeys: 1,
+    lua: `
+      if redis.call('GET', KEYS[1]) == ARGV[1] then
+        return redis.call('DEL', KEYS[1])
+      end
+      return 0`,
+  },
+}
+
+const encode = (value) => JSON.stringify(value)
+const decode = (raw) => (raw === null || raw === undefined ? null : JSON.parse(raw))
+
+const createRedisStore = ({ client, prefix = 'badger:' }) => {
+  Object.entries(SCRIPTS).forEach(([name, definition]) => client.defineCommand(name, definition))
+  const k = (key) => `${prefix}${key}`
+
+  return {
+    name: 'redis',
+    client,
+
+    get: async (key) => decode(await client.get(k(key))),
+    set: async (key, value, ttlMs) => {
+      if (ttlMs) await client.set(k(key), encode(value), 'PX', ttlMs)
+      else await client.set(k(key), encode(value))
+    },
+    del: async (key) => {
+      await client.del(k(key))
+    },
+
+    hset: async (key, field, value) => {
+      await client.hset(k(key), field, encode(value))
+    },
+    hget: async (key, field) => decode(await client.hget(k(key), field)),
+    hdel: async (key, field) => {
+      await client.hdel(k(key), field)
+    },
+    hgetall: async (key) => {
+      const raw = await client.hgetall(k(key))
+      return Object.fromEntries(Object.entries(raw || {}).map(([field, value]) => [field, decode(value)]))
+    },
+    hlen: (key) => client.hlen(k(key)),
+
+    sadd: async (key, member) => {
+      await client.sadd(k(key), member)
+    },
+    srem: async (key, member) => {
+      await client.srem(k(key), member)
+    },
+    smembers: (key) => client.smembers(k(key)),
+
+    pushCapped: async (key, value, maxLength) => {
+      await client.bcPushCapped(k(key), encode(value), maxLength)
+    },
+    range: async (key) => (await client.lrange(k(key), 0, -1)).map(decode),
+    expire: async (key, ttlMs) => {
+      await client.pexpire(k(key), ttlMs)
+    },
+
+    acquireLock: async (key, ttlMs) => {
+      const token = `${Date.now()}-${Math.random()}`
+      const ok = await client.set(k(key), token, 'PX', ttlMs, 'NX')
+      return ok ? token : null
+    },
+    releaseLock: async (key, token) => {
+      await client.bcReleaseLock(k(key), token)
+    },
+
+    takeToken: async (key, capacity, refillPerSec) =>
+      (await client.bcTakeToken(k(key), capacity, refillPerSec)) === 1,
+    countInWindow: (key, windowMs) => client.bcCountInWindow(k(key), windowMs),
+  }
+}
+
+module.exports = { createRedisStore, SCRIPTS }
@@ -0,0 +1,122 @@
+const { getRepositories } = require('./repositories')
+
+// How much a reporter's dislike or report counts toward someone else's
+// suspension. New accounts, accounts with no history, and reporters whose past
+// reports staff keep dismissing count for less; reporters staff keep agreeing
+// with count for a bit more.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const MIN_WEIGHT = 0.1
+const MAX_WEIGHT = 1.5
+// Account age and session count at which a reporter stops being "new".
+const MATURE_ACCOUNT_DAYS = 14
+const MATURE_SESSION_COUNT = 20
+
+const RECIPROCAL_WINDOW_MS = DAY_MS
+const BRIGADE_WINDOW_MS = 6 * 60 * 60 * 1000
+const BRIGADE_MIN_REPORTERS = 3
+const BRIGADE_NEW_ACCOUNT_DAYS = 7
+// Reporters who have been matched with another reporter before. One old
+// pairing among many reporters is chance; several of them is a group.
+const BRIGADE_MIN_LINKED = 3
+
+const clamp = (value, min, max) => Math.min(max, Math.max(min, value))
+
+const ageInDays = (iso, now = Date.now()) => (iso ? (now - new Date(iso).getTime()) / DAY_MS : 0)
+
+const countSessions = async (email) => {
+  const { data: count, error } = await getRepositories().sessions.countForUser(email)
+  if (error) console.error('sessions:count error', error)
+  return count || 0
+}
+
+const getReporterTrust = async (email) => {
+  const { users, reports: reportRepo, reputation } = getRepositories()
+  const [{ data: user, error: userError }, { data: reports, error: reportsError }, { data: rep }, sessions] =
+    await Promise.all([
+      users.get(email),
+      reportRepo.listByReporter(email),
+      reputation.get(email),
+      countSessions(email),
+    ])
+  if (userError) console.error('users:get error', userError)
+  if (reportsError) console.error('reports:list-by-reporter error', reportsError)
+
+  const ageDays = ageInDays(user?.created_at)
+  const upheld = (reports || []).filter((row) => row.status === 'upheld').length
+  const dismissed = (reports || []).filter((row) => row.status === 'dismissed').length
+
+  const ageFactor = 0.3 + 0.7 * Math.min(1, ageDays / MATURE_ACCOUNT_DAYS)
+  const historyFactor = 0.5 + 0.5 * Math.min(1, sessions / MATURE_SESSION_COUNT)
+  // Laplace-smoothed upheld rate, so one dismissal doesn't sink a reporter.
+  const upheldFactor = 0.5 + (upheld + 1) / (upheld + dismissed + 2)
+  const standingFactor = rep?.banned ? 0 : rep?.suspension_count ? 0.5 : 1
+
+  const weight = clamp(ageFactor * historyFactor * upheldFactor * standingFactor, MIN_WEIGHT, MAX_WEIGHT)
+  return { weight: Math.round(weight * 100) / 100, ageDays, sessions, upheld, dismissed }
+}
+
+// The target reported the reporter shortly before being reported back.
+const isReciprocal = async ({ reporterEmail, targetEmail }) => {
+  const since = new Date(Date.now() - RECIPROCAL_WINDOW_MS).toISOString()
+  const { data: count, error } = await getRepositories().reports.countBetween({
+    reporterEmail: targetEmail,
+    targetEmail: reporterEmail,
+    since,
+  })
+  if (error) console.error('reports:reciprocal error', error)
+  return (count || 0) > 0
+}
+
+// A burst of reports against one user from accounts that are mostly brand new,
+// or mostly linked to each other by past sessions (friends queueing together).
+const isBrigade = async ({ reporterEmail, targetEmail }) => {
+  const since = new Date(Date.now() - BRIGADE_WINDOW_MS).toISOString()
+  const { users, reports, sessions } = getRepositories()
+  const { data: recent, error } = await reports.listAgainst(targetEmail, since)
+  if (error) {
+    console.error('reports:brigade error', error)
+    return false
+  }
+  const reporters = [...new Set([reporterEmail, ...(recent || []).map((row) => row.reporter_email)])]
+  if (reporters.length < BRIGADE_MIN_REPORTERS) return false
+
+  const [{ data: accounts }, { data: pairings }] = await Promise.all([
+    users.listByEmails(reporters),
+    sessions.listAmong(reporters),
+  ])
+  const newAccounts = (accounts || []).filter(
+    (row) => ageInDays(row.created_at) < BRIGADE_NEW_ACCOUNT_DAYS,
+  ).length
+  const linked = new Set(
+    (pairings || [])
+      .filter((row) => row.user_a_email !== row.user_b_email)
+      .flatMap((row) => [row.user_a_email, row.user_b_email]),
+  ).size
+  const mostlyNew = newAccounts * 2 >= reporters.length
+  const mostlyLinked = linked >= BRIGADE_MIN_LINKED && linked * 2 >= reporters.length
+  return mostlyNew || mostlyLinked
+}
+
+// Returns the weight to record for a reaction, and the pattern it matched (if
+// any). Patterned reactions count for nothing and are left for staff to review.
+const weighReaction = async ({ reporterEmail, targetEmail, type }) => {
+  if (!reporterEmail || (type !== 'report' && type !== 'dislike')) {
+    return { weight: 1, pattern: null }
+  }
+
+  const trust = await getReporterTrust(reporterEmail)
+  let pattern = null
+  if (type === 'report') {
+    if (await isReciprocal({ reporterEmail, targetEmail })) pattern = 'reciprocal'
+    else if (await isBrigade({ reporterEmail, targetEmail })) pattern = 'brigade'
+  }
+  if (pattern) {
+    console.warn(`[trust] ${pattern} ${reporterEmail} -> ${targetEmail}`)
+    return { weight: 0, pattern }
+  }
+  return { weight: trust.weight, pattern: null }
+}
+
+module.exports = { getReporterTrust, weighReaction }
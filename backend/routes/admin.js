@@ -0,0 +1,161 @@
+const express = require('express')
+const { requireAuth, requireStaff, isWiscEmail } = require('../lib/auth')
+const { hardBanUser } = require('../lib/reputation')
+const { sendEmail } = require('../lib/email')
+const { listPendingAppeals, decideAppeal, getUserName } = require('../lib/appeals')
+const {
+  listOpenReports,
+  listFlaggedSessions,
+  listBannedUsers,
+  resolveReports,
+  unbanUser,
+  listNotes,
+  addNote,
+} = require('../lib/admin')
+
+const NOTE_MAX_LENGTH = 2000
+const APPEAL_DECISIONS = ['approved', 'denied']
+
+const targetEmail = (req) => (req.params.email || '').trim().toLowerCase()
+
+// `onBan(email, reason)` lets the socket server kick a user who is banned from
+// the dashboard while they're still connected.
+const createAdminRouter = ({ onBan = () => {} } = {}) => {
+  const router = express.Router()
+
+  router.use(requireAuth, requireStaff)
+
+  router.get('/me', (req, res) => {
+    res.json({ ok: true, email: req.user.email })
+  })
+
+  router.get('/overview', async (req, res) => {
+    try {
+      const [reports, flaggedSessions, bannedUsers, appeals] = await Promise.all([
+        listOpenReports(),
+        listFlaggedSessions(),
+        listBannedUsers(),
+        listPendingAppeals(),
+      ])
+      res.json({ reports, flaggedSessions, bannedUsers, appeals })
+    } catch (err) {
+      console.error('admin:overview fatal', err)
+      res.status(500).json({ error: 'Something went wrong.' })
+    }
+  })
+
+  router.post('/reports/:id/dismiss', async (req, res) => {
+    try {
+      const ok = await resolveReports({
+        id: req.params.id,
+        status: 'dismissed',
+        staffEmail: req.user.email,
+      })
+      if (!ok) return res.status(500).json({ error: 'Could not dismiss the report.' })
+      res.json({ ok: true })
+    } catch (err) {
+      console.error('admin:dismiss fatal', err)
+      res.status(500).json({ error: 'Something went wrong.' })
+    }
+  })
+
+  router.post('/users/:email/ban', async (req, res) => {
+    try {
+      const email = targetEmail(req)
+      if (!isWiscEmail(email)) return res.status(400).json({ error: 'Invalid email.' })
+      const reason = (req.body?.reason || '').trim() || `staff:${req.user.email}`
+      await hardBanUser(email, reason)
+      await resolveReports({ targetEmail: email, status: 'upheld', staffEmail: req.user.email })
+      onBan(email, reason)
+      res.json({ ok: true })
+    } catch (err) {
+      console.error('admin:ban fatal', err)
+      res.status(500).json({ error: 'Something went wrong.' })
+    }
+  })
+
+  router.post('/users/:email/unban', async (req, res) => {
+    try {
+      const email = targetEmail(req)
+      if (!isWiscEmail(email)) return res.status(400).json({ error: 'Invalid email.' })
+      const ok = await unbanUser(email)
+      if (!ok) return res.status(500).json({ error: 'Could not lift the ban.' })
+      res.json({ ok: true })
+    } catch (err) {
+      console.error('admin:unban fatal', err)
+      res.status(500).json({ error: 'Something went wrong.' })
+    }
+  })
+
+  // Approving lifts the ban. Either way the user hears back by email; a failed
+  // send is logged but doesn't undo the decision.
+  router.post('/appeals/:id/decide', async (req, res) => {
+    try {
+      const decision = req.body?.decision
+      const response = (req.body?.response || '').trim().slice(0, NOTE_MAX_LENGTH)
+      if (!APPEAL_DECISIONS.includes(decision)) {
+        return res.status(400).json({ error: 'Decision must be approved or denied.' })
+      }
+
+      const appeal = await decideAppeal({
+        id: req.params.id,
+        decision,
+        response,
+        staffEmail: req.user.email,
+      })
+      if (!appeal) {
+        return res.status(404).json({ error: 'Appeal not found or already decided.' })
+      }
+
+      if (decision === 'approved') {
+        const ok = await unbanUser(appeal.email)
+        if (!ok) return res.status(500).json({ error: 'Appeal saved, but the ban could not be lifted.' })
+      }
+
+      const name = await getUserName(appeal.email)
+      const { error: sendError } = await sendEmail({
+        to: appeal.email,
+        template: 'appeal-decision',
+        data: { name, decision, response },
+      })
+      if (sendError) console.error('email:send appeal decision', sendError)
+
+      res.json({ ok: true, appeal, emailed: !sendError })
+    } catch (err) {
+      console.error('admin:decide-appeal fatal', err)
+      res.status(500).json({ error: 'Something went wrong.' })
+    }
+  })
+
+  router.get('/users/:email/notes', async (req, res) => {
+    try {
+      const notes = await listNotes(targetEmail(req))
+      res.json({ notes })
+    } catch (err) {
+      console.error('admin:notes fatal', err)
+      res.status(500).json({ error: 'Something went wrong.' })
+    }
+  })
+
+  router.post('/users/:email/notes', async (req, res) => {
+    try {
+      const email = targetEmail(req)
+      const body = (req.body?.body || '').trim()
+      if (!isWiscEmail(email)) return res.status(400).json({ error: 'Invalid email.' })
+      if (!body) return res.status(400).json({ error: 'Note is empty.' })
+      if (body.length > NOTE_MAX_LENGTH) {
+        return res.status(400).json({ error: `Notes are limited to ${NOTE_MAX_LENGTH} characters.` })
+      }
+      const note = await addNote({ targetEmail: email, authorEmail: req.user.email, body })
+      if (!note) return res.status(500).json({ error: 'Could not save the note.' })
+      res.json({ note })
+    } catch (err) {
+      console.error('admin:add-note fatal', err)
+      res.status(500).json({ error: 'Something went wrong.' })
+    }
+  })
+
+  return router
+}
+
+module.exports = { createAdminRouter }
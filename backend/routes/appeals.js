@@ -0,0 +1,107 @@
+const express = require('express')
+const { isWiscEmail, OTP_TTL_MS } = require('../lib/auth')
+const { allowCodeRequest, issueCode, consumeCode } = require('../lib/otp')
+const { sendOtpEmail } = require('../lib/email')
+const { getReputation } = require('../lib/reputation')
+const { createAppeal, getUserName } = require('../lib/appeals')
+
+const APPEAL_MAX_LENGTH = 2000
+
+const router = express.Router()
+
+// Banned users can't sign in, so appeals are verified with their own OTP
+// (purpose 'appeal') instead of a session token.
+router.post('/request-code', async (req, res) => {
+  try {
+    const email = (req.body?.email || '').trim().toLowerCase()
+    if (!isWiscEmail(email)) {
+      return res
+        .status(400)
+        .json({ error: 'Only @wisc.edu email addresses are allowed.' })
+    }
+
+    const rep = await getReputation(email)
+    if (!rep.banned) {
+      return res.status(400).json({ error: 'This account is not banned.' })
+    }
+
+    if (!(await allowCodeRequest(email))) {
+      return res.status(429).json({
+        error: 'Too many codes requested. Try again in an hour.',
+      })
+    }
+
+    const { code, error: issueError } = await issueCode(email, 'appeal')
+    if (issueError) {
+      return res.status(500).json({ error: 'Could not issue a code. Try again.' })
+    }
+
+    const isDev = process.env.NODE_ENV !== 'production'
+    if (isDev) {
+      console.log(`[dev] appeal OTP for ${email}: ${code}`)
+    }
+
+    const name = await getUserName(email)
+    const { error: sendError } = await sendOtpEmail({ to: email, code, name, purpose: 'appeal' })
+    if (sendError) {
+      console.error('email:send', sendError)
+      if (!isDev) {
+        return res
+          .status(502)
+          .json({ error: 'Could not send the email. Try again in a minute.' })
+      }
+      return res.json({
+        ok: true,
+        expiresInSec: OTP_TTL_MS / 1000,
+        devMessage: 'Email delivery failed; check the backend terminal for the code.',
+      })
+    }
+
+    res.json({ ok: true, expiresInSec: OTP_TTL_MS / 1000 })
+  } catch (err) {
+    console.error('appeals:request-code fatal', err)
+    res.status(500).json({ error: 'Something went wrong.' })
+  }
+})
+
+router.post('/', async (req, res) => {
+  try {
+    const email = (req.body?.email || '').trim().toLowerCase()
+    const code = (req.body?.code || '').trim()
+    const message = (req.body?.message || '').trim()
+
+    if (!isWiscEmail(email) || !/^\d{6}$/.test(code)) {
+      return res.status(400).json({ error: 'Invalid email or code.' })
+    }
+    if (!message) {
+      return res.status(400).json({ error: 'Tell us why the ban should be lifted.' })
+    }
+    if (message.length > APPEAL_MAX_LENGTH) {
+      return res
+        .status(400)
+        .json({ error: `Appeals are limited to ${APPEAL_MAX_LENGTH} characters.` })
+    }
+
+    const verdict = await consumeCode(email, code, 'appeal')
+    if (!verdict.ok) {
+      return res.status(verdict.status).json({ error: verdict.error })
+    }
+
+    const { duplicate, error } = await createAppeal({ email, message })
+    if (duplicate) {
+      return res
+        .status(409)
+        .json({ error: 'You already have an appeal under review. We will email you the decision.' })
+    }
+    if (error) {
+      return res.status(500).json({ error: 'Could not submit the appeal. Try again.' })
+    }
+
+    res.json({ ok: true })
+  } catch (err) {
+    console.error('appeals:create fatal', err)
+    res.status(500).json({ error: 'Something went wrong.' })
+  }
+})
+
+module.exports = router
@@ -1,33 +1,48 @@
 const express = require('express')
-const { supabase } = require('../lib/supabase')
-const {
-  generateOtp,
-  hashOtp,
-  verifyOtp,
-  signToken,
-  isWiscEmail,
-  OTP_TTL_MS,
-  OTP_MAX_ATTEMPTS,
-} = require('../lib/auth')
-const { sendOtpEmail } = require('../lib/resend')
+const { signMagicLink, isWiscEmail, isStaffEmail, requireAuth, OTP_TTL_MS } = require('../lib/auth')
+const { allowCodeRequest, issueCode, consumeCode, consumeLink } = require('../lib/otp')
+const { sendOtpEmail } = require('../lib/email')
 const { upsertUser, getReputation } = require('../lib/reputation')
+const {
+  startSession,
+  rotateSession,
+  continueSession,
+  endSession,
+  revokeAllSessions,
+} = require('../lib/authSessions')
 
 const router = express.Router()
 
-// Tiny in-memory rate limiter: 5 requests per email per hour.
-const requestBuckets = new Map()
-const RATE_WINDOW_MS = 60 * 60 * 1000
-const RATE_MAX = 5
-
-const rateLimit = (email) => {
-  const now = Date.now()
-  const bucket = (requestBuckets.get(email) || []).filter(
-    (t) => now - t < RATE_WINDOW_MS,
-  )
-  if (bucket.length >= RATE_MAX) return false
-  bucket.push(now)
-  requestBuckets.set(email, bucket)
-  return true
+// Magic links point at the React app, which exchanges them via /verify-link.
+const APP_URL = (process.env.APP_URL || process.env.CLIENT_ORIGIN?.split(',')[0] || 'http://localhost:5173')
+  .trim()
+  .replace(/\/$/, '')
+
+const readInterests = (body) =>
+  Array.isArray(body?.interests) ? body.interests.filter((entry) => typeof entry === 'string') : []
+
+const readRefreshToken = (body) =>
+  typeof body?.refreshToken === 'string' ? body.refreshToken.trim() : ''
+
+const bannedResponse = (rep) => ({
+  error: rep.banned_until
+    ? 'This account is temporarily suspended from Badger Connect.'
+    : 'This account has been banned from Badger Connect.',
+  banned_until: rep.banned_until,
+})
+
+// Successful verification is treated as consent to the community guidelines
+// shown on the signup form (18+, no nudity/sexual content).
+const completeSignIn = async (res, { email, name, interests }) => {
+  await upsertUser({ email, name, interests, consented: true })
+
+  const tokens = await startSession({ email, name })
+  if (!tokens) return res.status(500).json({ error: 'Could not start your session. Try again.' })
+  res.json({
+    ok: true,
+    ...tokens,
+    user: { email, name, interests, staff: isStaffEmail(email) },
+  })
 }
 
 router.post('/request-code', async (req, res) => {
@@ -43,46 +58,31 @@ router.post('/request-code', async (req, res) => {
     }
 
     const rep = await getReputation(email)
-    if (rep.banned) {
-      return res
-        .status(403)
-        .json({ error: 'This account has been banned from Badger Connect.' })
-    }
+    if (rep.banned) return res.status(403).json(bannedResponse(rep))
 
-    if (!rateLimit(email)) {
+    if (!(await allowCodeRequest(email))) {
       return res.status(429).json({
         error: 'Too many codes requested. Try again in an hour.',
       })
     }
 
-    const code = generateOtp()
-    const code_hash = await hashOtp(code)
-    const expires_at = new Date(Date.now() + OTP_TTL_MS).toISOString()
-
-    // Invalidate outstanding codes for this email.
-    await supabase
-      .from('verification_codes')
-      .update({ consumed_at: new Date().toISOString() })
-      .eq('email', email)
-      .is('consumed_at', null)
-
-    const { error: insertError } = await supabase
-      .from('verification_codes')
-      .insert({ email, code_hash, expires_at })
-
-    if (insertError) {
-      console.error('verification_codes:insert', insertError)
+    const { code, codeId, error: issueError } = await issueCode(email)
+    if (issueError) {
       return res.status(500).json({ error: 'Could not issue a code. Try again.' })
     }
+    // The link carries the signup details so it also works in another browser.
+    const link = `${APP_URL}/verify/link?token=${encodeURIComponent(
+      signMagicLink({ email, codeId, name, interests: readInterests(req.body) }),
+    )}`
 
     const isDev = process.env.NODE_ENV !== 'production'
     if (isDev) {
       console.log(`[dev] OTP for ${email}: ${code}`)
     }
 
-    const { error: sendError } = await sendOtpEmail({ to: email, code, name })
+    const { error: sendError } = await sendOtpEmail({ to: email, code, name, link })
     if (sendError) {
-      console.error('resend:send', sendError)
+      console.error('email:send', sendError)
       if (!isDev) {
         return res
           .status(502)
@@ -108,68 +108,89 @@ router.post('/verify-code', async (req, res) => {
     const name = (req.body?.name || '').trim()
     const email = (req.body?.email || '').trim().toLowerCase()
     const code = (req.body?.code || '').trim()
-    const interests = Array.isArray(req.body?.interests) ? req.body.interests : []
+    const interests = readInterests(req.body)
 
     if (!isWiscEmail(email) || !/^\d{6}$/.test(code)) {
       return res.status(400).json({ error: 'Invalid email or code.' })
     }
 
-    const { data: rows, error: fetchError } = await supabase
-      .from('verification_codes')
-      .select('id, code_hash, expires_at, consumed_at, attempts')
-      .eq('email', email)
-      .is('consumed_at', null)
-      .order('created_at', { ascending: false })
-      .limit(1)
-
-    if (fetchError) {
-      console.error('verification_codes:select', fetchError)
-      return res.status(500).json({ error: 'Verification failed.' })
+    const verdict = await consumeCode(email, code)
+    if (!verdict.ok) {
+      return res.status(verdict.status).json({ error: verdict.error })
     }
 
-    const record = rows?.[0]
-    if (!record) {
-      return res
-        .status(400)
-        .json({ error: 'No active code. Request a new one.' })
-    }
+    await completeSignIn(res, { email, name, interests })
+  } catch (err) {
+    console.error('verify-code fatal', err)
+    res.status(500).json({ error: 'Something went wrong.' })
+  }
+})
 
-    if (new Date(record.expires_at).getTime() < Date.now()) {
-      return res.status(400).json({ error: 'Code expired. Request a new one.' })
+router.post('/verify-link', async (req, res) => {
+  try {
+    const token = typeof req.body?.token === 'string' ? req.body.token.trim() : ''
+    if (!token) return res.status(400).json({ error: 'Missing sign-in link.' })
+
+    const verdict = await consumeLink(token)
+    if (!verdict.ok) {
+      return res.status(verdict.status).json({ error: verdict.error })
     }
 
-    if (record.attempts >= OTP_MAX_ATTEMPTS) {
-      await supabase
-        .from('verification_codes')
-        .update({ consumed_at: new Date().toISOString() })
-        .eq('id', record.id)
-      return res
-        .status(429)
-        .json({ error: 'Too many attempts. Request a new code.' })
+    const { email, name, interests } = verdict.claims
+    await completeSignIn(res, { email, name, interests: Array.isArray(interests) ? interests : [] })
+  } catch (err) {
+    console.error('verify-link fatal', err)
+    res.status(500).json({ error: 'Something went wrong.' })
+  }
+})
+
+// Trades a refresh token for a new access token and the next refresh token.
+// Bans are revoked when they land, but the check here catches any that landed
+// while the store was unreachable.
+router.post('/refresh', async (req, res) => {
+  try {
+    const refreshToken = readRefreshToken(req.body)
+    if (!refreshToken) return res.status(400).json({ error: 'Missing refresh token.' })
+
+    const verdict = await rotateSession(refreshToken)
+    if (!verdict.ok) {
+      return res.status(verdict.status).json({ error: verdict.error })
     }
 
-    const match = await verifyOtp(code, record.code_hash)
-    if (!match) {
-      await supabase
-        .from('verification_codes')
-        .update({ attempts: record.attempts + 1 })
-        .eq('id', record.id)
-      return res.status(400).json({ error: 'Incorrect code.' })
+    const rep = await getReputation(verdict.email)
+    if (rep.banned) {
+      await revokeAllSessions(verdict.email)
+      return res.status(403).json(bannedResponse(rep))
     }
 
-    await supabase
-      .from('verification_codes')
-      .update({ consumed_at: new Date().toISOString() })
-      .eq('id', record.id)
+    const tokens = await continueSession(verdict)
+    if (!tokens) return res.status(500).json({ error: 'Could not refresh your session. Try again.' })
+    res.json({ ok: true, ...tokens })
+  } catch (err) {
+    console.error('refresh fatal', err)
+    res.status(500).json({ error: 'Something went wrong.' })
+  }
+})
 
-    // Successful verification is treated as consent to the community guidelines
-    // shown on the signup form (18+, no nudity/sexual content).
-    await upsertUser({ email, name, interests, consented: true })
+// Signs this device out. Takes the refresh token rather than the access token
+// so it still works once the access token has expired.
+router.post('/logout', async (req, res) => {
+  try {
+    const refreshToken = readRefreshToken(req.body)
+    if (refreshToken) await endSession(refreshToken)
+    res.json({ ok: true })
+  } catch (err) {
+    console.error('logout fatal', err)
+    res.status(500).json({ error: 'Something went wrong.' })
+  }
+})
 
-    const token = signToken({ email, name })
-    res.json({ ok: true, token, user: { email, name, interests } })
+router.post('/logout-all', requireAuth, async (req, res) => {
+  try {
+    await revokeAllSessions(req.user.email)
+    res.json({ ok: true })
   } catch (err) {
-    console.error('verify-code fatal', err)
+    console.error('logout-all fatal', err)
     res.status(500).json({ error: 'Something went wrong.' })
   }
 })
@@ -0,0 +1,31 @@
+const express = require('express')
+const { requireAuth } = require('../lib/auth')
+const { listBlocks, unblockUser } = require('../lib/blocks')
+
+const router = express.Router()
+
+router.use(requireAuth)
+
+router.get('/', async (req, res) => {
+  try {
+    const blocks = await listBlocks(req.user.email)
+    res.json({ blocks })
+  } catch (err) {
+    console.error('blocks:list fatal', err)
+    res.status(500).json({ error: 'Something went wrong.' })
+  }
+})
+
+router.delete('/:email', async (req, res) => {
+  try {
+    const blockedEmail = (req.params.email || '').trim().toLowerCase()
+    const ok = await unblockUser({ blockerEmail: req.user.email, blockedEmail })
+    if (!ok) return res.status(500).json({ error: 'Could not remove the block.' })
+    res.json({ ok: true })
+  } catch (err) {
+    console.error('blocks:delete fatal', err)
+    res.status(500).json({ error: 'Something went wrong.' })
+  }
+})
+
+module.exports = router
@@ -0,0 +1,32 @@
+const express = require('express')
+const { getOutbox } = require('../lib/email')
+
+// Development helpers. server.js only mounts this router when
+// isDevOutboxEnabled() says so, and even then it only answers this machine.
+
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1', '::ffff:127.0.0.1']
+
+const router = express.Router()
+
+router.use((req, res, next) => {
+  if (!LOOPBACK_ADDRESSES.includes(req.socket.remoteAddress)) {
+    return res.status(403).json({ error: 'The dev outbox is only available from this machine.' })
+  }
+  next()
+})
+
+router.get('/outbox', (req, res) => {
+  res.json({ messages: getOutbox().list() })
+})
+
+router.delete('/outbox', async (req, res) => {
+  try {
+    await getOutbox().clear()
+    res.json({ ok: true })
+  } catch (err) {
+    console.error('dev:outbox-clear fatal', err)
+    res.status(500).json({ error: 'Something went wrong.' })
+  }
+})
+
+module.exports = router
@@ -0,0 +1,16 @@
+const express = require('express')
+const { requireAuth } = require('../lib/auth')
+const { getIceServers } = require('../lib/ice')
+
+const router = express.Router()
+
+router.use(requireAuth)
+
+// Fetched before each call. Credentials are minted per request, so the
+// response must not be cached.
+router.get('/ice-servers', (req, res) => {
+  res.set('Cache-Control', 'no-store')
+  res.json(getIceServers(req.user.email))
+})
+
+module.exports = router
@@ -7,18 +7,45 @@ const { Server } = require('socket.io')
 const { v4: uuidv4 } = require('uuid')
 
 const authRouter = require('./routes/auth')
-const { verifyToken } = require('./lib/auth')
+const blocksRouter = require('./routes/blocks')
+const appealsRouter = require('./routes/appeals')
+const devRouter = require('./routes/dev')
+const rtcRouter = require('./routes/rtc')
+const { createAdminRouter } = require('./routes/admin')
+const { verifyAccessToken } = require('./lib/auth')
+const { isTurnConfigured } = require('./lib/ice')
+const { isDevOutboxEnabled } = require('./lib/email')
 const {
   getReputation,
   applyReaction,
   upsertUser,
   flagUserAuto,
   hardBanUser,
+  getReputationPolicy,
 } = require('./lib/reputation')
 const { moderateText } = require('./lib/moderation')
+const { createFloodGuard, floodWarning } = require('./lib/floodGuard')
+const { getStore, createSocketAdapter, withLock } = require('./lib/store')
+const { createState } = require('./lib/state')
 const { logSessionStart, logSessionEnd } = require('./lib/sessions')
+const { blockUser, getBlockedEmails } = require('./lib/blocks')
+const {
+  findMatch,
+  recordSkip,
+  getSkipCooldowns,
+  RELAX_STEP_MS,
+} = require('./lib/matchmaking')
+const { registerHandler } = require('./lib/socketContract')
 
 const PORT = process.env.PORT || 4000
+// How long a dropped participant's session is held open for them to reconnect.
+const RECONNECT_GRACE_MS = 20 * 1000
+const QUEUE_MODES = ['text', 'video']
+// Text sessions are nothing but chat; video sessions carry it as a side-channel.
+const TEXT_CHAT_MODES = ['text', 'video']
+const REPORT_NOTE_MAX_LENGTH = 500
+// Only one node pairs a queue at a time; the lock expires if that node dies.
+const PAIR_LOCK_MS = 5 * 1000
 const CLIENT_ORIGINS = process.env.CLIENT_ORIGIN?.split(',').map((o) =>
   o.trim(),
 ) ?? ['http://localhost:5173']
@@ -28,10 +55,20 @@ app.use(cors({ origin: CLIENT_ORIGINS }))
 app.use(express.json())
 
 app.use('/auth', authRouter)
-
-const waitingQueues = { text: [], video: [] }
-const sessions = new Map()
-const emailToSockets = new Map()
+app.use('/blocks', blocksRouter)
+app.use('/appeals', appealsRouter)
+app.use('/rtc', rtcRouter)
+app.use('/admin', createAdminRouter({ onBan: kickBannedUser }))
+if (isDevOutboxEnabled()) app.use('/dev', devRouter)
+
+// Queues, sessions, and the socket registry live in the shared store (see
+// lib/state.js), so several backend nodes can serve the same users.
+const store = getStore()
+const state = createState(store)
+const floodGuard = createFloodGuard(store)
+// Reconnect-grace timers for dropped participants. Local to the node that saw
+// the drop; the timer re-checks the shared session before ending anything.
+const awayTimers = new Map()
 
 const sanitizeProfile = (profile = {}) => ({
   name: profile.name || 'Unknown Badger',
@@ -39,43 +76,34 @@ const sanitizeProfile = (profile = {}) => ({
   interests: profile.interests || [],
 })
 
-const registerSocketForEmail = (socketId, email) => {
-  if (!email) return
-  const normalized = email.toLowerCase()
-  if (!emailToSockets.has(normalized)) emailToSockets.set(normalized, new Set())
-  emailToSockets.get(normalized).add(socketId)
-}
+const removeFromQueues = (socketId) => state.dequeue(socketId, QUEUE_MODES)
 
-const unregisterSocket = (socketId) => {
-  for (const [email, sockets] of emailToSockets.entries()) {
-    sockets.delete(socketId)
-    if (sockets.size === 0) emailToSockets.delete(email)
-  }
+// The partner's email as recorded when the session was paired; works no matter
+// which node the partner's socket lives on.
+const partnerEmailOf = (session, socketId) => {
+  const partnerId = session.participants.find((id) => id !== socketId)
+  return partnerId ? session.emails?.[partnerId] : undefined
 }
 
-const removeFromQueues = (socketId) => {
-  Object.keys(waitingQueues).forEach((mode) => {
-    waitingQueues[mode] = waitingQueues[mode].filter(
-      (entry) => entry.socketId !== socketId,
-    )
-  })
-}
-
-const findSessionBySocket = (socketId) => {
-  for (const [sessionId, session] of sessions.entries()) {
-    if (session.participants.includes(socketId)) return { sessionId, session }
+app.get('/health', async (req, res) => {
+  try {
+    const lengths = await Promise.all(QUEUE_MODES.map((mode) => state.queueLength(mode)))
+    res.json({
+      status: 'ok',
+      store: store.name,
+      turn: isTurnConfigured(),
+      waiting: Object.fromEntries(QUEUE_MODES.map((mode, index) => [mode, lengths[index]])),
+      sessions: await state.countSessions(),
+    })
+  } catch (err) {
+    console.error('health: store error', err)
+    res.status(503).json({ status: 'degraded', store: store.name })
   }
-  return null
-}
+})
 
-app.get('/health', (req, res) => {
-  res.json({
-    status: 'ok',
-    waiting: Object.fromEntries(
-      Object.entries(waitingQueues).map(([mode, list]) => [mode, list.length]),
-    ),
-    sessions: sessions.size,
-  })
+// Ban policy for the client, so FeedbackContext never hard-codes thresholds.
+app.get('/config/reputation', (req, res) => {
+  res.json(getReputationPolicy())
 })
 
 app.get('/reputation/:email', async (req, res) => {
@@ -87,32 +115,38 @@ const httpServer = http.createServer(app)
 const io = new Server(httpServer, {
   cors: { origin: CLIENT_ORIGINS, methods: ['GET', 'POST'] },
 })
+// With Redis, emits to a socket id reach it whichever node it's connected to.
+const socketAdapter = createSocketAdapter(store)
+if (socketAdapter) io.adapter(socketAdapter)
 
 // Require a valid JWT on every socket connection. Reject otherwise.
-io.use((socket, next) => {
+// Revoked sessions (sign out everywhere, bans) are refused here straight away;
+// the client refreshes its access token and retries on an auth error.
+io.use(async (socket, next) => {
   const token = socket.handshake.auth?.token
   if (!token) return next(new Error('Missing auth token'))
   try {
-    const decoded = verifyToken(token)
+    const decoded = await verifyAccessToken(token)
     socket.data.user = { email: decoded.email, name: decoded.name }
-    next()
   } catch (err) {
-    next(new Error('Invalid or expired auth token'))
+    return next(new Error('Invalid or expired auth token'))
   }
+  next()
 })
 
 io.on('connection', (socket) => {
   const authedUser = socket.data.user
   socket.data.profile = null
   socket.data.mode = null
+  const handle = (event, handler) => registerHandler(socket, event, handler)
 
-  socket.on('profile:update', async (profile = {}) => {
+  handle('profile:update', async (profile) => {
     // Email in the JWT is the source of truth. Ignore whatever the client sent.
     const email = authedUser.email
     const name = (profile.name || authedUser.name || '').trim() || 'Badger'
     const interests = Array.isArray(profile.interests) ? profile.interests : []
     socket.data.profile = { name, email, interests }
-    registerSocketForEmail(socket.id, email)
+    await state.registerSocket(socket.id, email)
 
     try {
       await upsertUser({ email, name, interests })
@@ -122,43 +156,61 @@ io.on('connection', (socket) => {
 
     const rep = await getReputation(email)
     if (rep.banned) socket.emit('system:banned', rep)
-    socket.emit('profile:reputation', rep)
+    socket.emit('profile:reputation', { email, ...rep })
   })
 
-  socket.on('match:request', async ({ mode }) => {
-    if (!mode || !waitingQueues[mode]) return
-    const profile = socket.data.profile
-    if (!profile) {
-      socket.emit('system:error', 'Profile missing. Please log in again.')
-      return
-    }
-    const rep = await getReputation(profile.email)
-    if (rep.banned) {
-      socket.emit('system:banned', rep)
-      return
+  handle('match:request', async ({ mode }) => {
+    await queueForMatch(socket, mode)
+  })
+
+  // Skip the current partner: end the session, keep them out of each other's
+  // queue for a while, and go straight back into the same mode's queue.
+  handle('match:next', async ({ mode, sessionId }) => {
+    const named = await state.getSession(sessionId)
+    const lookup = named ? { sessionId, session: named } : await state.findSessionBySocket(socket.id)
+    if (lookup && lookup.session.participants.includes(socket.id)) {
+      await recordSkip(authedUser.email, partnerEmailOf(lookup.session, socket.id))
+      await endSession(lookup.sessionId, socket.id)
     }
-    removeFromQueues(socket.id)
-    socket.data.mode = mode
-    waitingQueues[mode].push({ socketId: socket.id })
-    socket.emit('match:queued', {
-      mode,
-      queueLength: waitingQueues[mode].length,
-    })
-    attemptPair(mode)
+    await queueForMatch(socket, mode)
   })
 
-  socket.on('chat:text:message', async ({ sessionId, body }) => {
-    if (!sessionId || !body) return
-    const session = sessions.get(sessionId)
+  handle('chat:text:message', async ({ sessionId, body, clientId }) => {
+    const session = await state.getSession(sessionId)
     if (!session || !session.participants.includes(socket.id)) return
+    if (!TEXT_CHAT_MODES.includes(session.mode)) return
     const targetId = session.participants.find((id) => id !== socket.id)
     if (!targetId) return
     const from = socket.data.profile?.email || socket.data.user.email
 
+    // Rate, size, and duplicate limits come before moderation so floods don't
+    // cost moderation calls. Repeat offenders escalate into a strike.
+    const flood = await floodGuard.check({ socketId: socket.id, email: from, body })
+    if (!flood.ok) {
+      const violation = await floodGuard.recordViolation(from)
+      socket.emit('system:warning', {
+        sessionId,
+        clientId,
+        reason: flood.reason,
+        severity: 'block',
+        message: floodWarning(flood.reason, violation),
+      })
+      if (violation.strike) {
+        const rep = await flagUserAuto(from, `flood:${flood.reason}`)
+        if (rep?.banned) {
+          socket.emit('system:banned', rep)
+          await endSession(sessionId, socket.id, { flaggedReason: 'flood' })
+        }
+      }
+      return
+    }
+
     const verdict = await moderateText(body)
     if (!verdict.allowed) {
+      await state.appendTranscript(sessionId, { from, body, at: Date.now(), blocked: verdict.reason })
       socket.emit('system:warning', {
         sessionId,
+        clientId,
         reason: verdict.reason,
         severity: verdict.severity,
         message:
@@ -168,154 +220,332 @@ io.on('connection', (socket) => {
       })
 
       if (verdict.severity === 'critical') {
-        await hardBanUser(from, verdict.reason)
-        const sockets = emailToSockets.get(from)
-        sockets?.forEach((sid) =>
-          io.to(sid).emit('system:banned', { banned: true, reason: verdict.reason }),
-        )
-        endSession(sessionId, socket.id, { flaggedReason: verdict.reason })
+        const banned = await hardBanUser(from, verdict.reason)
+        const sockets = await state.socketsForEmail(from)
+        sockets.forEach((sid) => io.to(sid).emit('system:banned', banned))
+        await endSession(sessionId, socket.id, { flaggedReason: verdict.reason })
       } else {
         const rep = await flagUserAuto(from, verdict.reason)
         if (rep?.banned) {
           socket.emit('system:banned', rep)
-          endSession(sessionId, socket.id, { flaggedReason: verdict.reason })
+          await endSession(sessionId, socket.id, { flaggedReason: verdict.reason })
         }
       }
       return
     }
 
-    io.to(targetId).emit('chat:text:message', {
+    // Server-assigned id so receipts can refer to the message; the sender's
+    // clientId lets it swap its optimistic bubble for the real one.
+    const message = { id: uuidv4(), sessionId, body, from, timestamp: Date.now() }
+    await state.appendTranscript(sessionId, { id: message.id, from, body, at: message.timestamp })
+    socket.emit('chat:text:sent', {
       sessionId,
-      body,
-      from,
-      timestamp: Date.now(),
+      clientId,
+      id: message.id,
+      timestamp: message.timestamp,
     })
+    io.to(targetId).emit('chat:text:message', message)
+  })
+
+  handle('chat:typing', ({ sessionId, typing }) => {
+    return relayToSessionPeer(sessionId, socket.id, 'chat:typing', { sessionId, typing })
   })
 
-  socket.on('chat:leave', ({ sessionId }) => {
-    if (sessionId && sessions.has(sessionId)) {
-      endSession(sessionId, socket.id)
+  handle('chat:receipt', ({ sessionId, messageIds, status }) => {
+    return relayToSessionPeer(sessionId, socket.id, 'chat:receipt', {
+      sessionId,
+      messageIds,
+      status,
+    })
+  })
+
+  handle('chat:leave', async ({ sessionId }) => {
+    if (await state.getSession(sessionId)) {
+      await endSession(sessionId, socket.id)
     } else {
-      const lookup = findSessionBySocket(socket.id)
-      if (lookup) endSession(lookup.sessionId, socket.id)
+      const lookup = await state.findSessionBySocket(socket.id)
+      if (lookup) await endSession(lookup.sessionId, socket.id)
+    }
+    await removeFromQueues(socket.id)
+  })
+
+  // Re-attach a reconnecting user (new socket id, same JWT email) to the
+  // session that was held open for them.
+  handle('session:resume', async ({ sessionId }) => {
+    const suspended = await state.findAwaySession(authedUser.email)
+    if (!suspended || suspended.sessionId !== sessionId) {
+      socket.emit('session:expired', { sessionId })
+      return
+    }
+    const { awayId } = suspended
+    clearAwayTimer(awayId)
+    const session = await state.resumeParticipant(sessionId, awayId, socket.id)
+    if (!session) {
+      socket.emit('session:expired', { sessionId })
+      return
     }
-    removeFromQueues(socket.id)
+    socket.data.mode = session.mode
+
+    const partnerId = session.participants.find((id) => id !== socket.id)
+    const initiator = session.participants[0] === socket.id
+    const partnerPresent = Boolean(partnerId) && !session.away[partnerId]
+    socket.emit('session:resumed', {
+      sessionId,
+      mode: session.mode,
+      initiator,
+      partnerPresent,
+    })
+    if (partnerPresent) {
+      io.to(partnerId).emit('system:partner-reconnected', {
+        sessionId,
+        initiator: !initiator,
+      })
+    }
+    if (session.mode === 'video') await emitRevealState(session, [socket.id])
   })
 
-  socket.on('profile:reaction', async ({ target, type }) => {
-    if (!target || !type) return
+  // Video goes out masked until both partners press reveal. Each press is
+  // recorded and both sides are sent the new state; clients switch to clear
+  // video only once it says both.
+  handle('video:reveal', async ({ sessionId }) => {
+    const session = await state.getSession(sessionId)
+    if (!session || session.mode !== 'video' || !session.participants.includes(socket.id)) return
+    await state.markRevealed(sessionId, authedUser.email)
+    await emitRevealState(session, session.participants)
+  })
+
+  // The client applies reactions optimistically; `profile:reaction:result`
+  // tells it whether to keep the update or roll it back.
+  handle('profile:reaction', async ({ target, type, category, note }) => {
     const targetEmail = String(target).toLowerCase()
     const reporterEmail = socket.data.user.email
+    const reject = (reason) =>
+      socket.emit('profile:reaction:result', { target: targetEmail, type, ok: false, reason })
 
     // Only allow reacting to a partner you're actually paired with right now.
-    const sessionLookup = findSessionBySocket(socket.id)
-    if (!sessionLookup) return
-    const partnerId = sessionLookup.session.participants.find(
-      (id) => id !== socket.id,
-    )
-    const partnerSocket = partnerId && io.sockets.sockets.get(partnerId)
-    if (!partnerSocket || partnerSocket.data.user?.email !== targetEmail) return
+    const sessionLookup = await state.findSessionBySocket(socket.id)
+    if (!sessionLookup || partnerEmailOf(sessionLookup.session, socket.id) !== targetEmail) {
+      return reject('You can only react to your current match.')
+    }
 
+    // The session id comes from server state, not the payload, so a repeated
+    // emit lands on the same (reporter, session) pair and adds nothing.
     const rep = await applyReaction({
       reporterEmail,
       targetEmail,
       type,
       sessionId: sessionLookup.sessionId,
+      report:
+        type === 'report'
+          ? {
+              category: category || 'other',
+              note: (note || '').trim().slice(0, REPORT_NOTE_MAX_LENGTH) || null,
+              transcript: await state.getTranscript(sessionLookup.sessionId),
+            }
+          : undefined,
     })
-    if (!rep) return
+    if (!rep) return reject('Could not record that reaction. Try again.')
 
+    socket.emit('profile:reaction:result', { target: targetEmail, type, ok: true, reputation: rep })
     io.emit('profile:reputation', { email: targetEmail, ...rep })
     if (rep.banned) {
-      const sockets = emailToSockets.get(targetEmail)
-      sockets?.forEach((socketId) => {
+      const sockets = await state.socketsForEmail(targetEmail)
+      sockets.forEach((socketId) => {
         io.to(socketId).emit('system:banned', rep)
       })
     }
   })
 
-  socket.on('webrtc:offer', ({ sessionId, description }) => {
-    if (!sessionId || !description) return
-    relayToSessionPeer(sessionId, socket.id, 'webrtc:offer', {
+  // Permanent block against the current partner. Ends the session right away;
+  // the matcher never pairs the two again (see queueForMatch).
+  handle('profile:block', async ({ target }) => {
+    const blockedEmail = String(target).toLowerCase()
+    const sessionLookup = await state.findSessionBySocket(socket.id)
+    if (!sessionLookup || partnerEmailOf(sessionLookup.session, socket.id) !== blockedEmail) return
+
+    const ok = await blockUser({
+      blockerEmail: authedUser.email,
+      blockedEmail,
+      sessionId: sessionLookup.sessionId,
+    })
+    await endSession(sessionLookup.sessionId, socket.id)
+    if (ok) socket.emit('profile:blocked', { email: blockedEmail })
+    else socket.emit('system:error', 'Could not save that block. Try again.')
+  })
+
+  handle('webrtc:offer', ({ sessionId, description }) => {
+    return relayToSessionPeer(sessionId, socket.id, 'webrtc:offer', {
       sessionId,
       description,
     })
   })
 
-  socket.on('webrtc:answer', ({ sessionId, description }) => {
-    if (!sessionId || !description) return
-    relayToSessionPeer(sessionId, socket.id, 'webrtc:answer', {
+  handle('webrtc:answer', ({ sessionId, description }) => {
+    return relayToSessionPeer(sessionId, socket.id, 'webrtc:answer', {
       sessionId,
       description,
     })
   })
 
-  socket.on('webrtc:ice-candidate', ({ sessionId, candidate }) => {
-    if (!sessionId || typeof candidate === 'undefined') return
-    relayToSessionPeer(sessionId, socket.id, 'webrtc:ice-candidate', {
+  handle('webrtc:ice-candidate', ({ sessionId, candidate }) => {
+    return relayToSessionPeer(sessionId, socket.id, 'webrtc:ice-candidate', {
       sessionId,
       candidate,
     })
   })
 
-  socket.on('disconnect', () => {
-    removeFromQueues(socket.id)
-    const existing = findSessionBySocket(socket.id)
-    if (existing) endSession(existing.sessionId, socket.id)
-    unregisterSocket(socket.id)
+  socket.on('disconnect', async () => {
+    try {
+      await floodGuard.forgetSocket(socket.id)
+      await removeFromQueues(socket.id)
+      const existing = await state.findSessionBySocket(socket.id)
+      if (existing) await suspendParticipant(existing.sessionId, socket.id)
+      await state.unregisterSocket(socket.id)
+    } catch (err) {
+      console.error('disconnect cleanup error', err)
+    }
   })
 })
 
+async function queueForMatch(socket, mode) {
+  const profile = socket.data.profile
+  if (!profile) {
+    socket.emit('system:error', 'Profile missing. Please log in again.')
+    return
+  }
+  const rep = await getReputation(profile.email)
+  if (rep.banned) {
+    socket.emit('system:banned', rep)
+    return
+  }
+  // Asking for a new match abandons any session still held open for this user.
+  const suspended = await state.findAwaySession(profile.email)
+  if (suspended) await endSession(suspended.sessionId, suspended.awayId)
+
+  const blocked = await getBlockedEmails(profile.email)
+  await removeFromQueues(socket.id)
+  socket.data.mode = mode
+  // Entries are plain JSON so any node can pair them; the profile rides along
+  // because the partner's socket may live elsewhere.
+  await state.enqueue(mode, {
+    socketId: socket.id,
+    email: profile.email,
+    interests: profile.interests,
+    profile: sanitizeProfile(profile),
+    blocked: [...blocked],
+    joinedAt: Date.now(),
+  })
+  socket.emit('match:queued', {
+    mode,
+    queueLength: await state.queueLength(mode),
+  })
+  await attemptPair(mode)
+}
+
 function attemptPair(mode) {
-  const queue = waitingQueues[mode]
-  while (queue.length >= 2) {
-    const first = queue.shift()
-    const second = queue.shift()
-    const firstSocket = io.sockets.sockets.get(first.socketId)
-    const secondSocket = io.sockets.sockets.get(second.socketId)
-    if (!firstSocket || !secondSocket) continue
-
-    const sessionId = uuidv4()
-    const firstEmail = firstSocket.data.profile?.email || firstSocket.data.user?.email
-    const secondEmail = secondSocket.data.profile?.email || secondSocket.data.user?.email
-    sessions.set(sessionId, {
-      id: sessionId,
-      mode,
-      participants: [first.socketId, second.socketId],
-      emails: { [first.socketId]: firstEmail, [second.socketId]: secondEmail },
-      startedAt: Date.now(),
-    })
+  return withLock(store, `lock:pair:${mode}`, PAIR_LOCK_MS, async () => {
+    const entries = await state.queueEntries(mode)
+    if (entries.length < 2) return
+    // Drop anyone whose socket went away before scoring the rest.
+    const online = await Promise.all(entries.map((entry) => state.isSocketRegistered(entry.socketId)))
+    const stale = entries.filter((_, index) => !online[index])
+    await Promise.all(stale.map((entry) => state.dequeue(entry.socketId, [mode])))
+    let queue = entries.filter((_, index) => online[index])
+
+    const cooldowns = new Map(
+      await Promise.all(queue.map(async (entry) => [entry.email, await getSkipCooldowns(entry.email, store)])),
+    )
+    const isEligible = (a, b) =>
+      !a.blocked.includes(b.email) &&
+      !b.blocked.includes(a.email) &&
+      !cooldowns.get(a.email)?.has(b.email?.toLowerCase())
+    let match
+    while ((match = findMatch(queue, { isEligible }))) {
+      const { first, second, shared } = match
+      queue = queue.filter((entry) => entry !== first && entry !== second)
+      await state.dequeue(first.socketId, [mode])
+      await state.dequeue(second.socketId, [mode])
+
+      const sessionId = uuidv4()
+      await state.createSession({
+        id: sessionId,
+        mode,
+        participants: [first.socketId, second.socketId],
+        emails: { [first.socketId]: first.email, [second.socketId]: second.email },
+        startedAt: Date.now(),
+      })
 
-    // Fire-and-forget audit log
-    if (firstEmail && secondEmail) {
+      // Fire-and-forget audit log
       logSessionStart({
         sessionId,
         mode,
-        userA: firstEmail,
-        userB: secondEmail,
+        userA: first.email,
+        userB: second.email,
       }).catch((err) => console.error('logSessionStart', err))
+
+      io.to(first.socketId).emit('match:paired', {
+        sessionId,
+        mode,
+        partnerProfile: second.profile,
+        sharedInterests: shared,
+        initiator: true,
+      })
+      io.to(second.socketId).emit('match:paired', {
+        sessionId,
+        mode,
+        partnerProfile: first.profile,
+        sharedInterests: shared,
+        initiator: false,
+      })
     }
+  })
+}
 
-    const profileA = sanitizeProfile(secondSocket.data.profile)
-    const profileB = sanitizeProfile(firstSocket.data.profile)
-    firstSocket.emit('match:paired', {
-      sessionId,
-      mode,
-      partnerProfile: profileA,
-      initiator: true,
-    })
-    secondSocket.emit('match:paired', {
+// Hold the session open for RECONNECT_GRACE_MS instead of ending it, so a
+// brief network drop doesn't cost the conversation.
+async function suspendParticipant(sessionId, socketId) {
+  const current = await state.getSession(sessionId)
+  if (!current) return
+  const email = current.emails?.[socketId]
+  if (!email) {
+    await endSession(sessionId, socketId)
+    return
+  }
+  const session = await state.markAway(sessionId, socketId, email)
+  if (!session) return
+  awayTimers.set(
+    socketId,
+    setTimeout(() => {
+      expireAway(sessionId, socketId).catch((err) => console.error('expireAway', err))
+    }, RECONNECT_GRACE_MS),
+  )
+  const partnerId = session.participants.find((id) => id !== socketId)
+  if (partnerId && !session.away[partnerId]) {
+    io.to(partnerId).emit('system:partner-reconnecting', {
       sessionId,
-      mode,
-      partnerProfile: profileB,
-      initiator: false,
+      graceMs: RECONNECT_GRACE_MS,
     })
   }
 }
 
-function endSession(sessionId, leaverId, options = {}) {
-  const session = sessions.get(sessionId)
+// The participant may have resumed through another node, so only end the
+// session if their seat is still marked away.
+async function expireAway(sessionId, socketId) {
+  awayTimers.delete(socketId)
+  const session = await state.getSession(sessionId)
+  if (session?.away?.[socketId]) await endSession(sessionId, socketId)
+}
+
+function clearAwayTimer(socketId) {
+  clearTimeout(awayTimers.get(socketId))
+  awayTimers.delete(socketId)
+}
+
+async function endSession(sessionId, leaverId, options = {}) {
+  const session = await state.getSession(sessionId)
   if (!session) return
-  sessions.delete(sessionId)
+  await state.deleteSession(session)
+  Object.keys(session.away || {}).forEach(clearAwayTimer)
 
   const endedByEmail = leaverId ? session.emails?.[leaverId] ?? null : null
   logSessionEnd({
@@ -325,24 +555,59 @@ function endSession(sessionId, leaverId, options = {}) {
   }).catch((err) => console.error('logSessionEnd', err))
 
   session.participants.forEach((participantId) => {
-    const participantSocket = io.sockets.sockets.get(participantId)
-    if (!participantSocket) return
-    if (participantId === leaverId) {
-      participantSocket.emit('system:session-ended', { sessionId })
-    } else {
-      participantSocket.emit('system:partner-left', { sessionId })
-    }
+    io.to(participantId).emit(
+      participantId === leaverId ? 'system:session-ended' : 'system:partner-left',
+      { sessionId },
+    )
   })
 }
 
-function relayToSessionPeer(sessionId, senderId, event, payload) {
-  const session = sessions.get(sessionId)
+// Per-recipient view of who has pressed reveal, sent to `recipients` (socket
+// ids in the session).
+async function emitRevealState(session, recipients) {
+  const revealed = await state.revealedEmails(session.id)
+  recipients.forEach((id) => {
+    const partnerId = session.participants.find((other) => other !== id)
+    io.to(id).emit('video:reveal-state', {
+      sessionId: session.id,
+      you: revealed.includes(session.emails?.[id]),
+      partner: Boolean(partnerId) && revealed.includes(session.emails?.[partnerId]),
+    })
+  })
+}
+
+async function relayToSessionPeer(sessionId, senderId, event, payload) {
+  const session = await state.getSession(sessionId)
   if (!session || !session.participants.includes(senderId)) return
   const targetId = session.participants.find((id) => id !== senderId)
   if (!targetId) return
   io.to(targetId).emit(event, payload)
 }
 
+// A staff ban takes effect immediately: live sockets are told, pulled out of
+// the queues, and any session they're in ends as flagged.
+async function kickBannedUser(email, reason) {
+  try {
+    const sockets = await state.socketsForEmail(email)
+    for (const socketId of sockets) {
+      io.to(socketId).emit('system:banned', { banned: true, permanent: true, reason })
+      await removeFromQueues(socketId)
+      const lookup = await state.findSessionBySocket(socketId)
+      if (lookup) await endSession(lookup.sessionId, socketId, { flaggedReason: reason })
+    }
+  } catch (err) {
+    console.error('kickBannedUser', err)
+  }
+}
+
+// Match requirements relax with wait time, so re-check the queues even when
+// nobody new joins. The pair lock keeps nodes from double-pairing.
+setInterval(() => {
+  QUEUE_MODES.forEach((mode) => {
+    attemptPair(mode).catch((err) => console.error('attemptPair', err))
+  })
+}, RELAX_STEP_MS / 2).unref()
+
 httpServer.listen(PORT, () => {
   console.log(`Badger Connect backend listening on port ${PORT}`)
 })
@@ -29,6 +29,9 @@ create table if not exists public.verification_codes (
 create index if not exists verification_codes_email_idx
   on public.verification_codes (email, created_at desc);
 
+-- 'sign-in' or 'appeal'. Codes only redeem for the purpose they were issued for.
+alter table public.verification_codes add column if not exists purpose text not null default 'sign-in';
+
 create table if not exists public.reputation (
   email text primary key references public.users(email) on delete cascade,
   likes int not null default 0,
@@ -39,6 +42,42 @@ create table if not exists public.reputation (
   updated_at timestamptz not null default now()
 );
 
+-- Reputation decays: likes/dislikes/reports above are a cache of the events
+-- still inside their window (see backend/lib/reputation.js). `banned` is a
+-- permanent ban; `banned_until` is a temporary suspension that lifts itself.
+alter table public.reputation add column if not exists banned_until timestamptz;
+alter table public.reputation add column if not exists suspension_count int not null default 0;
+alter table public.reputation add column if not exists counted_since timestamptz;
+
+create table if not exists public.reputation_events (
+  id uuid primary key default gen_random_uuid(),
+  email text not null references public.users(email) on delete cascade,
+  type text not null check (type in ('like', 'dislike', 'report', 'strike')),
+  actor_email text,
+  session_id text,
+  reason text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.reputation_events add column if not exists weight numeric not null default 1;
+alter table public.reputation_events add column if not exists pattern text;
+
+create index if not exists reputation_events_email_idx
+  on public.reputation_events (email, created_at desc);
+
+-- One event per actor, session, and type, so repeating a reaction can't stack
+-- weight. Strikes have no actor and are never deduplicated. Older duplicates
+-- are dropped first so the index can be built.
+delete from public.reputation_events later
+  using public.reputation_events earlier
+  where later.actor_email = earlier.actor_email
+    and later.session_id = earlier.session_id
+    and later.type = earlier.type
+    and (later.created_at, later.id) > (earlier.created_at, earlier.id);
+
+create unique index if not exists reputation_events_actor_session_type_idx
+  on public.reputation_events (actor_email, session_id, type);
+
 create table if not exists public.reports (
   id uuid primary key default gen_random_uuid(),
   reporter_email text not null references public.users(email) on delete cascade,
@@ -49,6 +88,73 @@ create table if not exists public.reports (
   unique (reporter_email, target_email, session_id)
 );
 
+-- Moderation queue state. Staff dismiss reports they disagree with; banning
+-- the target from the dashboard marks their open reports upheld.
+alter table public.reports add column if not exists status text not null default 'open'
+  check (status in ('open', 'dismissed', 'upheld'));
+alter table public.reports add column if not exists resolved_at timestamptz;
+alter table public.reports add column if not exists resolved_by text;
+
+create index if not exists reports_status_idx
+  on public.reports (status, created_at desc);
+
+-- Reporter trust (backend/lib/trust.js). `weight` is how much the report
+-- counted toward a suspension; `pattern` marks reciprocal/brigading reports
+-- that counted for nothing and wait on staff instead.
+alter table public.reports add column if not exists weight numeric not null default 1;
+alter table public.reports add column if not exists pattern text
+  check (pattern in ('reciprocal', 'brigade'));
+
+-- Report evidence: `reason` holds the category the reporter picked, `note`
+-- their optional comment, and `transcript` the session's recent messages
+-- (text sessions and the video side-chat) as [{ id, from, body, at, blocked }].
+alter table public.reports add column if not exists note text;
+alter table public.reports add column if not exists transcript jsonb;
+
+create index if not exists reports_target_idx
+  on public.reports (target_email, created_at desc);
+
+-- Free-form staff notes about a user, shown in the admin dashboard.
+create table if not exists public.moderation_notes (
+  id uuid primary key default gen_random_uuid(),
+  target_email text not null references public.users(email) on delete cascade,
+  author_email text not null,
+  body text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists moderation_notes_target_idx
+  on public.moderation_notes (target_email, created_at desc);
+
+-- Ban appeals, verified by an 'appeal' OTP. One pending appeal per email.
+create table if not exists public.ban_appeals (
+  id uuid primary key default gen_random_uuid(),
+  email text not null references public.users(email) on delete cascade,
+  message text not null,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'denied')),
+  staff_response text,
+  reviewed_by text,
+  reviewed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists ban_appeals_pending_idx
+  on public.ban_appeals (email) where status = 'pending';
+
+-- Per-user block list. The matcher never pairs a blocker with the blocked email
+-- again, in either direction. Users can review/remove their own blocks.
+create table if not exists public.blocks (
+  id uuid primary key default gen_random_uuid(),
+  blocker_email text not null references public.users(email) on delete cascade,
+  blocked_email text not null references public.users(email) on delete cascade,
+  session_id text,
+  created_at timestamptz not null default now(),
+  unique (blocker_email, blocked_email)
+);
+
+create index if not exists blocks_blocked_idx
+  on public.blocks (blocked_email);
+
 -- Pairing audit log: who matched with whom, when, who ended it.
 create table if not exists public.sessions (
   id uuid primary key,
@@ -66,11 +172,35 @@ create index if not exists sessions_user_a_idx
 create index if not exists sessions_user_b_idx
   on public.sessions (user_b_email, started_at desc);
 
+-- Refresh tokens, stored as SHA-256 hashes. Each sign-in starts a family;
+-- every refresh marks the presented token used and issues the next one in the
+-- same family. Revoking a family signs that device out.
+create table if not exists public.refresh_tokens (
+  id uuid primary key default gen_random_uuid(),
+  email text not null references public.users(email) on delete cascade,
+  family_id uuid not null,
+  token_hash text not null unique,
+  expires_at timestamptz not null,
+  used_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists refresh_tokens_family_idx
+  on public.refresh_tokens (family_id);
+create index if not exists refresh_tokens_email_idx
+  on public.refresh_tokens (email) where revoked_at is null;
+
 -- The backend uses the service_role key, which bypasses RLS.
 -- We still enable RLS so the anon/publishable key cannot read these tables
 -- from the browser by accident.
 alter table public.users enable row level security;
 alter table public.verification_codes enable row level security;
 alter table public.reputation enable row level security;
+alter table public.reputation_events enable row level security;
 alter table public.reports enable row level security;
+alter table public.blocks enable row level security;
 alter table public.sessions enable row level security;
+alter table public.moderation_notes enable row level security;
+alter table public.ban_appeals enable row level security;
+alter table public.refresh_tokens enable row level security;
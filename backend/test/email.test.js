@@ -0,0 +1,44 @@
+process.env.NODE_ENV = 'test'
+delete process.env.EMAIL_TRANSPORT
+delete process.env.RESEND_API_KEY
+delete process.env.SMTP_URL
+
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { createTransport, isDevOutboxEnabled } = require('../lib/email')
+
+describe('createTransport', () => {
+  it('falls back to the outbox on development and test hosts', () => {
+    for (const environment of ['development', 'test']) {
+      assert.equal(createTransport({ transport: '', environment }).name, 'outbox')
+    }
+  })
+
+  it('refuses to start without a provider anywhere else', () => {
+    for (const environment of ['', 'production', 'staging']) {
+      assert.throws(() => createTransport({ transport: '', environment }), /No email provider configured/)
+    }
+  })
+
+  it('refuses an explicit outbox outside development and test', () => {
+    assert.throws(
+      () => createTransport({ transport: 'outbox', environment: 'production' }),
+      /EMAIL_TRANSPORT=outbox needs NODE_ENV=development or test/,
+    )
+  })
+
+  it('prefers a configured provider', () => {
+    const transport = createTransport({ transport: '', resendApiKey: 're_test', environment: 'production' })
+    assert.equal(transport.name, 'resend')
+  })
+})
+
+describe('isDevOutboxEnabled', () => {
+  it('needs an explicit outbox on a development or test host', () => {
+    assert.equal(isDevOutboxEnabled({ transport: 'outbox', environment: 'development' }), true)
+    assert.equal(isDevOutboxEnabled({ transport: ' Outbox ', environment: 'test' }), true)
+    assert.equal(isDevOutboxEnabled({ transport: '', environment: 'development' }), false)
+    assert.equal(isDevOutboxEnabled({ transport: 'outbox', environment: '' }), false)
+    assert.equal(isDevOutboxEnabled({ transport: 'outbox', environment: 'production' }), false)
+  })
+})
@@ -0,0 +1,93 @@
+process.env.DATA_STORE = 'memory'
+process.env.JWT_SECRET ||= 'test-secret'
+
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { createMemoryStore } = require('../lib/store/memory')
+const { createFloodGuard, floodWarning, MAX_BODY_LENGTH } = require('../lib/floodGuard')
+const { flagUserAuto, getReputation } = require('../lib/reputation')
+
+const message = (body, overrides = {}) => ({ socketId: 'socket-1', email: 'a@wisc.edu', body, ...overrides })
+
+describe('floodGuard.check', () => {
+  it('rejects messages over the length limit', async () => {
+    const guard = createFloodGuard(createMemoryStore())
+    const tooLong = message('x'.repeat(MAX_BODY_LENGTH + 1))
+    assert.deepEqual(await guard.check(tooLong), { ok: false, reason: 'too-long' })
+  })
+
+  it('empties the socket bucket after a burst and refills it over time', async (t) => {
+    t.mock.timers.enable({ apis: ['Date'], now: 1_000_000 })
+    const guard = createFloodGuard(createMemoryStore())
+    for (let i = 0; i < 5; i += 1) {
+      assert.deepEqual(await guard.check(message(`hello ${i}`)), { ok: true })
+    }
+    assert.deepEqual(await guard.check(message('one too many')), { ok: false, reason: 'rate-limit' })
+
+    t.mock.timers.tick(1000)
+    assert.deepEqual(await guard.check(message('after a pause')), { ok: true })
+    assert.deepEqual(await guard.check(message('and again')), { ok: false, reason: 'rate-limit' })
+  })
+
+  it('caps an email across sockets', async (t) => {
+    t.mock.timers.enable({ apis: ['Date'], now: 1_000_000 })
+    const guard = createFloodGuard(createMemoryStore())
+    const results = []
+    for (let i = 0; i < 9; i += 1) {
+      results.push((await guard.check(message(`hi ${i}`, { socketId: `socket-${i % 3}` }))).ok)
+    }
+    assert.deepEqual(results, [true, true, true, true, true, true, true, true, false])
+  })
+
+  it('drops the third copy of a message inside the window', async (t) => {
+    t.mock.timers.enable({ apis: ['Date'], now: 1_000_000 })
+    const guard = createFloodGuard(createMemoryStore())
+    assert.deepEqual(await guard.check(message('Buy now')), { ok: true })
+    assert.deepEqual(await guard.check(message('buy   NOW ')), { ok: true })
+    assert.deepEqual(await guard.check(message('buy now')), { ok: false, reason: 'duplicate' })
+    assert.deepEqual(await guard.check(message('something else')), { ok: true })
+
+    t.mock.timers.tick(30 * 1000)
+    assert.deepEqual(await guard.check(message('buy now')), { ok: true })
+  })
+
+  it('forgets a socket bucket when the socket goes away', async () => {
+    const guard = createFloodGuard(createMemoryStore())
+    for (let i = 0; i < 5; i += 1) await guard.check(message(`hello ${i}`))
+    await guard.forgetSocket('socket-1')
+    assert.deepEqual(await guard.check(message('fresh bucket')), { ok: true })
+  })
+})
+
+describe('floodGuard.recordViolation', () => {
+  it('escalates to a strike on every third violation', async () => {
+    const guard = createFloodGuard(createMemoryStore())
+    const violations = []
+    for (let i = 0; i < 4; i += 1) violations.push(await guard.recordViolation('a@wisc.edu'))
+    assert.deepEqual(violations, [
+      { level: 1, strike: false },
+      { level: 2, strike: false },
+      { level: 3, strike: true },
+      { level: 1, strike: false },
+    ])
+    assert.deepEqual(await guard.recordViolation('b@wisc.edu'), { level: 1, strike: false })
+  })
+
+  it('warns before the strike and says when it lands', () => {
+    assert.equal(floodWarning('duplicate', { level: 1, strike: false }).includes('strike'), false)
+    assert.match(floodWarning('rate-limit', { level: 2, strike: false }), /Keep it up/)
+    assert.match(floodWarning('rate-limit', { level: 3, strike: true }), /received a strike/)
+  })
+
+  it("turns the third violation into a strike on the sender's reputation", async (t) => {
+    t.mock.method(console, 'warn', () => {})
+    const guard = createFloodGuard(createMemoryStore())
+    let violation
+    for (let i = 0; i < 3; i += 1) {
+      violation = await guard.recordViolation('flooder@wisc.edu')
+      if (violation.strike) await flagUserAuto('flooder@wisc.edu', 'flood:rate-limit')
+    }
+    assert.equal(violation.strike, true)
+    assert.equal((await getReputation('flooder@wisc.edu')).reports, 1)
+  })
+})
@@ -0,0 +1,106 @@
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { createMemoryStore } = require('../lib/store/memory')
+const {
+  findMatch,
+  sharedInterests,
+  recordSkip,
+  getSkipCooldowns,
+  RELAX_STEP_MS,
+  RANDOM_FALLBACK_MS,
+} = require('../lib/matchmaking')
+
+const NOW = 1_000_000
+const entry = (email, interests, waitedMs = 0) => ({
+  socketId: `socket-${email}`,
+  email,
+  interests,
+  joinedAt: NOW - waitedMs,
+})
+const emailsOf = (match) => match && [match.first.email, match.second.email]
+
+describe('sharedInterests', () => {
+  it('ignores case, whitespace and repeats', () => {
+    assert.deepEqual(
+      sharedInterests(entry('a', ['Chess', ' chess', 'Jazz', 'go']), entry('b', ['jazz ', 'CHESS'])),
+      ['Chess', 'Jazz'],
+    )
+  })
+})
+
+describe('findMatch', () => {
+  it('pairs the candidate with the most shared interests', () => {
+    const queue = [
+      entry('a', ['chess', 'jazz', 'hiking']),
+      entry('b', ['chess', 'jazz']),
+      entry('c', ['chess', 'jazz', 'hiking']),
+    ]
+    const match = findMatch(queue, { now: NOW })
+    assert.deepEqual(emailsOf(match), ['a', 'c'])
+    assert.deepEqual(match.shared, ['chess', 'jazz', 'hiking'])
+  })
+
+  it('lets the longer waiter win a tie', () => {
+    const queue = ['a', 'b', 'c'].map((email) => entry(email, ['chess', 'jazz']))
+    assert.deepEqual(emailsOf(findMatch(queue, { now: NOW })), ['a', 'b'])
+  })
+
+  it('pairs people without interests with anyone', () => {
+    assert.deepEqual(emailsOf(findMatch([entry('a', []), entry('b', [])], { now: NOW })), ['a', 'b'])
+  })
+
+  it('skips pairs the caller rules out', () => {
+    const queue = [entry('a', ['chess']), entry('b', ['chess']), entry('c', ['chess'])]
+    const isEligible = (first, second) => ![first.email, second.email].includes('b')
+    assert.deepEqual(emailsOf(findMatch(queue, { now: NOW, isEligible })), ['a', 'c'])
+  })
+
+  it('asks fresh waiters for two shared interests', () => {
+    const queue = [entry('a', ['chess', 'jazz']), entry('b', ['chess', 'hiking'])]
+    assert.equal(findMatch(queue, { now: NOW }), null)
+  })
+
+  it('relaxes to one shared interest as the wait grows', () => {
+    const queue = [
+      entry('a', ['chess', 'jazz'], RELAX_STEP_MS),
+      entry('b', ['chess', 'hiking'], RELAX_STEP_MS),
+    ]
+    assert.deepEqual(emailsOf(findMatch(queue, { now: NOW })), ['a', 'b'])
+    // The stricter side still decides.
+    queue[1] = entry('b', ['chess', 'hiking'])
+    assert.equal(findMatch(queue, { now: NOW }), null)
+  })
+
+  it('never drops below one shared interest before the fallback', () => {
+    const waited = RANDOM_FALLBACK_MS - 1
+    const queue = [entry('a', ['chess'], waited), entry('b', ['jazz'], waited)]
+    assert.equal(findMatch(queue, { now: NOW }), null)
+  })
+
+  it('falls back to any partner after RANDOM_FALLBACK_MS', () => {
+    const queue = [entry('a', ['chess'], RANDOM_FALLBACK_MS), entry('b', ['jazz'])]
+    assert.deepEqual(emailsOf(findMatch(queue, { now: NOW })), ['a', 'b'])
+  })
+})
+
+describe('skip cooldowns', () => {
+  it('are recorded for both sides, case-insensitively', async () => {
+    const store = createMemoryStore()
+    await recordSkip('A@wisc.edu', 'b@wisc.edu', store)
+    assert.deepEqual([...(await getSkipCooldowns('a@wisc.edu', store))], ['b@wisc.edu'])
+    assert.deepEqual([...(await getSkipCooldowns('B@wisc.edu', store))], ['a@wisc.edu'])
+    assert.equal((await getSkipCooldowns('c@wisc.edu', store)).size, 0)
+  })
+
+  it('keep a skipped pair apart until they expire', async () => {
+    const store = createMemoryStore()
+    await recordSkip('a@wisc.edu', 'b@wisc.edu', store)
+    await store.hset('skips:a@wisc.edu', 'c@wisc.edu', Date.now() - 1)
+
+    const cooldowns = await getSkipCooldowns('a@wisc.edu', store)
+    assert.deepEqual([...cooldowns], ['b@wisc.edu'])
+    const queue = [entry('a@wisc.edu', []), entry('b@wisc.edu', []), entry('c@wisc.edu', [])]
+    const isEligible = (first, second) => first.email !== 'a@wisc.edu' || !cooldowns.has(second.email)
+    assert.deepEqual(emailsOf(findMatch(queue, { now: NOW, isEligible })), ['a@wisc.edu', 'c@wisc.edu'])
+  })
+})
@@ -0,0 +1,127 @@
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { createLocalProvider, createModerator, normalizeText } = require('../lib/moderation')
+
+const local = createLocalProvider({ rulesFile: '' })
+
+const assertAllowed = async (text) => {
+  assert.deepEqual(await local.moderate(text), { allowed: true }, text)
+}
+
+const assertRejected = async (text, severity, reason) => {
+  assert.deepEqual(await local.moderate(text), { allowed: false, severity, reason }, text)
+}
+
+const assertBlocked = (text, reason) => assertRejected(text, 'block', reason)
+
+describe('local moderation provider', () => {
+  it('lets everyday messages through', async () => {
+    for (const text of [
+      'I have the kids pics from halloween',
+      'teen pics from prom',
+      'my kid pics are cute',
+      'figure drawing class has nudes',
+      'I could go die of boredom',
+      'I will kill you at mario kart',
+      "I'll kill you in this round",
+      'i hope you die laughing',
+      'kids sex ed class was awkward',
+    ]) {
+      await assertAllowed(text)
+    }
+  })
+
+  it('blocks threats and self-harm taunts', async () => {
+    for (const text of [
+      'kys',
+      'k y s',
+      'KYS!!',
+      'just go kill yourself',
+      'you should k1ll yourself',
+      "I'm going to kill you",
+      'i will k1ll u',
+      'I will kill you in your sleep',
+      'go die in a hole',
+      'i hope you die',
+    ]) {
+      await assertBlocked(text, 'harassment/threatening')
+    }
+  })
+
+  it('blocks explicit sexual requests', async () => {
+    for (const text of ['send nudes', 'send me your nud3s', 'sext me', '$ext me']) {
+      await assertBlocked(text, 'sexual')
+    }
+  })
+
+  it('reports sexual content involving minors as critical', async () => {
+    for (const text of ['teen porn', 'child p0rn', 'nudes of a minor']) {
+      await assertRejected(text, 'critical', 'sexual/minors')
+    }
+  })
+
+  it('lets the most severe matching rule decide', async () => {
+    await assertRejected('send nudes of a minor', 'critical', 'sexual/minors')
+  })
+
+  it('ignores repeated letters in keywords', async () => {
+    await assertBlocked('kyyysss', 'harassment/threatening')
+  })
+
+  it('picks up extra rules and honours their severity', async () => {
+    const provider = createLocalProvider({
+      rules: [
+        { category: 'hate/threatening', keywords: ['badword'], severity: 'critical' },
+        { category: 'spam', keywords: ['buy followers'] },
+      ],
+      rulesFile: '',
+    })
+    assert.deepEqual(await provider.moderate('what a b4dw0rd'), {
+      allowed: false,
+      severity: 'critical',
+      reason: 'hate/threatening',
+    })
+    assert.deepEqual(await provider.moderate('buy followers here'), {
+      allowed: false,
+      severity: 'block',
+      reason: 'spam',
+    })
+  })
+})
+
+describe('normalizeText', () => {
+  it('only lowercases, strips accents and collapses punctuation', () => {
+    assert.equal(normalizeText('Café, 1ove!!'), 'cafe 1ove')
+    assert.equal(normalizeText('i have a b c'), 'i have a b c')
+  })
+})
+
+describe('createModerator', () => {
+  const provider = (name, verdict) => ({ name, moderate: async () => verdict })
+
+  it('keeps the most severe verdict and names its provider', async () => {
+    const moderate = createModerator([
+      provider('first', { allowed: false, severity: 'block', reason: 'sexual' }),
+      provider('second', { allowed: false, severity: 'critical', reason: 'sexual/minors' }),
+    ])
+    assert.deepEqual(await moderate('hi'), {
+      allowed: false,
+      severity: 'critical',
+      reason: 'sexual/minors',
+      provider: 'second',
+    })
+  })
+
+  it('fails open when every provider skips or throws', async () => {
+    const moderate = createModerator([
+      provider('skipper', { allowed: true, skipped: true }),
+      {
+        name: 'broken',
+        moderate: async () => {
+          throw new Error('down')
+        },
+      },
+    ])
+    assert.deepEqual(await moderate('hi'), { allowed: true, skipped: true })
+  })
+})
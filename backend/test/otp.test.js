@@ -0,0 +1,53 @@
+process.env.DATA_STORE = 'memory'
+process.env.JWT_SECRET ||= 'test-secret'
+
+const { describe, it, mock } = require('node:test')
+const assert = require('node:assert/strict')
+const { signMagicLink } = require('../lib/auth')
+const { issueCode, consumeCode, consumeLink } = require('../lib/otp')
+
+// The in-memory data store announces itself once.
+mock.method(console, 'warn', () => {})
+
+describe('consumeLink', () => {
+  it('signs in once when the same link is opened twice at the same time', async () => {
+    const email = 'link-race@wisc.edu'
+    const { codeId } = await issueCode(email)
+    const token = signMagicLink({ email, codeId, name: 'Racer', interests: [] })
+
+    const results = await Promise.all([consumeLink(token), consumeLink(token)])
+    assert.equal(results.filter((result) => result.ok).length, 1)
+    assert.deepEqual(results.find((result) => !result.ok), {
+      status: 400,
+      error: 'This sign-in link was already used or replaced by a newer email.',
+    })
+    assert.equal((await consumeLink(token)).ok, undefined)
+  })
+
+  it('refuses a link once a newer email replaced it', async () => {
+    const email = 'link-replaced@wisc.edu'
+    const { codeId } = await issueCode(email)
+    await issueCode(email)
+    const token = signMagicLink({ email, codeId, name: 'Late', interests: [] })
+    assert.equal((await consumeLink(token)).status, 400)
+  })
+})
+
+describe('consumeCode', () => {
+  it('accepts a code once when it is submitted twice at the same time', async () => {
+    const email = 'code-race@wisc.edu'
+    const { code } = await issueCode(email)
+
+    const results = await Promise.all([consumeCode(email, code), consumeCode(email, code)])
+    assert.equal(results.filter((result) => result.ok).length, 1)
+    assert.equal(results.find((result) => !result.ok).status, 400)
+  })
+
+  it('consumes the code that signed in', async () => {
+    const email = 'code-once@wisc.edu'
+    const { code } = await issueCode(email)
+    assert.deepEqual(await consumeCode(email, code), { ok: true })
+    const again = await consumeCode(email, code)
+    assert.deepEqual(again, { status: 400, error: 'No active code. Request a new one.' })
+  })
+})
@@ -0,0 +1,167 @@
+const { describe, it, beforeEach } = require('node:test')
+const assert = require('node:assert/strict')
+const { createMemoryRepositories, createSupabaseRepositories } = require('../lib/repositories')
+
+const UNIQUE_VIOLATION = { code: '23505', message: 'duplicate key value violates unique constraint' }
+
+// Stands in for the Supabase client: every query-builder call chains, and
+// awaiting the query resolves `result`.
+const stubSupabase = (result) => {
+  const query = new Proxy(
+    {},
+    {
+      get: (_, property) =>
+        property === 'then'
+          ? (resolve, reject) => Promise.resolve(result).then(resolve, reject)
+          : () => query,
+    },
+  )
+  return { from: () => query }
+}
+
+const methodNames = (repositories) =>
+  Object.fromEntries(
+    Object.entries(repositories)
+      .filter(([, value]) => typeof value === 'object')
+      .map(([name, methods]) => [name, Object.keys(methods).sort()]),
+  )
+
+describe('repository adapters', () => {
+  it('expose the same methods', () => {
+    assert.deepEqual(
+      methodNames(createMemoryRepositories()),
+      methodNames(createSupabaseRepositories(stubSupabase({ data: null, error: null }))),
+    )
+  })
+
+  it('map unique violations to { duplicate: true } in the Supabase adapter', async () => {
+    const repositories = createSupabaseRepositories(stubSupabase({ data: null, error: UNIQUE_VIOLATION }))
+    for (const insert of [
+      () => repositories.reports.insert({ reporter_email: 'a@wisc.edu', target_email: 'b@wisc.edu' }),
+      () => repositories.reputation.addEvent({ email: 'b@wisc.edu', type: 'dislike' }),
+      () => repositories.appeals.insert({ email: 'b@wisc.edu' }),
+    ]) {
+      assert.deepEqual(await insert(), { data: null, error: null, duplicate: true })
+    }
+  })
+
+  it('pass other Supabase errors through', async () => {
+    const failure = { data: null, error: { code: '42P01', message: 'relation does not exist' } }
+    const repositories = createSupabaseRepositories(stubSupabase(failure))
+    assert.deepEqual(await repositories.reports.insert({}), failure)
+  })
+})
+
+describe('memory repositories', () => {
+  let repositories
+
+  beforeEach(() => {
+    repositories = createMemoryRepositories()
+  })
+
+  it('resolve { data, error } and hand out copies', async () => {
+    await repositories.users.upsert({ email: 'a@wisc.edu', name: 'A', interests: ['chess'] })
+    const result = await repositories.users.get('a@wisc.edu')
+    assert.equal(result.error, null)
+    assert.equal(result.data.name, 'A')
+    result.data.interests.push('mutated')
+    assert.deepEqual((await repositories.users.get('a@wisc.edu')).data.interests, ['chess'])
+  })
+
+  it('allow one report per reporter, target and session', async () => {
+    const row = { reporter_email: 'a@wisc.edu', target_email: 'b@wisc.edu', session_id: 's1' }
+    assert.deepEqual(await repositories.reports.insert(row), { data: null, error: null })
+    assert.deepEqual(await repositories.reports.insert(row), { data: null, error: null, duplicate: true })
+    assert.equal((await repositories.reports.insert({ ...row, session_id: 's2' })).duplicate, undefined)
+    // Like Postgres, a null session id never conflicts.
+    assert.equal((await repositories.reports.insert({ ...row, session_id: null })).duplicate, undefined)
+    assert.equal((await repositories.reports.insert({ ...row, session_id: null })).duplicate, undefined)
+    assert.equal((await repositories.reports.listByReporter('a@wisc.edu')).data.length, 4)
+  })
+
+  it('allow one reputation event per actor, session and type', async () => {
+    const event = { email: 'b@wisc.edu', type: 'dislike', actor_email: 'a@wisc.edu', session_id: 's1' }
+    assert.equal((await repositories.reputation.addEvent(event)).duplicate, undefined)
+    assert.equal((await repositories.reputation.addEvent(event)).duplicate, true)
+    assert.equal((await repositories.reputation.addEvent({ ...event, type: 'report' })).duplicate, undefined)
+    // Strikes have no actor and always count.
+    const strike = { email: 'b@wisc.edu', type: 'strike', actor_email: null, session_id: 's1' }
+    assert.equal((await repositories.reputation.addEvent(strike)).duplicate, undefined)
+    assert.equal((await repositories.reputation.addEvent(strike)).duplicate, undefined)
+    const { data } = await repositories.reputation.listEvents('b@wisc.edu', new Date(0).toISOString())
+    assert.equal(data.length, 4)
+  })
+
+  it('allow one pending appeal per email', async () => {
+    const first = await repositories.appeals.insert({ email: 'b@wisc.edu', message: 'please' })
+    assert.equal(first.data.status, 'pending')
+    assert.deepEqual(await repositories.appeals.insert({ email: 'b@wisc.edu' }), {
+      data: null,
+      error: null,
+      duplicate: true,
+    })
+    const decided = await repositories.appeals.decide(first.data.id, { status: 'denied' })
+    assert.equal(decided.data.status, 'denied')
+    assert.equal((await repositories.appeals.decide(first.data.id, { status: 'approved' })).data, null)
+    assert.equal((await repositories.appeals.insert({ email: 'b@wisc.edu' })).duplicate, undefined)
+  })
+
+  it('ignore a repeated block', async () => {
+    const row = { blocker_email: 'a@wisc.edu', blocked_email: 'b@wisc.edu' }
+    await repositories.blocks.insert(row)
+    await repositories.blocks.insert(row)
+    assert.equal((await repositories.blocks.listByBlocker('a@wisc.edu')).data.length, 1)
+    assert.equal((await repositories.blocks.listInvolving('b@wisc.edu')).data.length, 1)
+    await repositories.blocks.remove('a@wisc.edu', 'b@wisc.edu')
+    assert.equal((await repositories.blocks.listByBlocker('a@wisc.edu')).data.length, 0)
+  })
+
+  it('let only the first end of a session through', async () => {
+    await repositories.sessions.insert({ id: 's1', user_a_email: 'a@wisc.edu', user_b_email: 'b@wisc.edu' })
+    const endedAt = new Date().toISOString()
+    await repositories.sessions.end('s1', { ended_at: endedAt, flagged_reason: 'sexual' })
+    await repositories.sessions.end('s1', { ended_at: new Date().toISOString(), flagged_reason: null })
+    const { data } = await repositories.sessions.listFlagged({ limit: 10 })
+    assert.equal(data.length, 1)
+    assert.equal(data[0].ended_at, endedAt)
+    const { data: pairings } = await repositories.sessions.listAmong(['a@wisc.edu', 'b@wisc.edu', 'c@wisc.edu'])
+    assert.deepEqual(pairings, [{ user_a_email: 'a@wisc.edu', user_b_email: 'b@wisc.edu' }])
+  })
+
+  it('consume every active code for an email and purpose', async () => {
+    const { data } = await repositories.codes.insert({ email: 'a@wisc.edu', code_hash: 'x' })
+    assert.equal((await repositories.codes.latestActive('a@wisc.edu', 'sign-in')).data.id, data.id)
+    assert.equal((await repositories.codes.latestActive('a@wisc.edu', 'appeal')).data, null)
+    await repositories.codes.consumeActive('a@wisc.edu', 'sign-in')
+    assert.equal((await repositories.codes.latestActive('a@wisc.edu', 'sign-in')).data, null)
+  })
+
+  it('consume a code only once', async () => {
+    const { data } = await repositories.codes.insert({ email: 'a@wisc.edu', code_hash: 'x' })
+    const results = await Promise.all([repositories.codes.consume(data.id), repositories.codes.consume(data.id)])
+    assert.deepEqual(results.map((result) => result.data), [{ id: data.id }, null])
+  })
+
+  it('list active bans and suspensions only', async () => {
+    const later = new Date(Date.now() + 60_000).toISOString()
+    const earlier = new Date(Date.now() - 60_000).toISOString()
+    await repositories.reputation.upsert({ email: 'banned@wisc.edu', banned: true })
+    await repositories.reputation.upsert({ email: 'suspended@wisc.edu', banned_until: later })
+    await repositories.reputation.upsert({ email: 'served@wisc.edu', banned_until: earlier })
+    const { data } = await repositories.reputation.listBanned({ limit: 10 })
+    assert.deepEqual(data.map((row) => row.email).sort(), ['banned@wisc.edu', 'suspended@wisc.edu'])
+  })
+
+  it('mark a refresh token used once and revoke by family or email', async () => {
+    await repositories.refreshTokens.insert({ email: 'a@wisc.edu', family_id: 'f1', token_hash: 'h1' })
+    await repositories.refreshTokens.insert({ email: 'a@wisc.edu', family_id: 'f2', token_hash: 'h2' })
+    const { data: row } = await repositories.refreshTokens.getByHash('h1')
+    assert.deepEqual((await repositories.refreshTokens.markUsed(row.id)).data, { id: row.id })
+    assert.equal((await repositories.refreshTokens.markUsed(row.id)).data, null)
+
+    await repositories.refreshTokens.revokeFamily('f1')
+    assert.ok((await repositories.refreshTokens.getByHash('h1')).data.revoked_at)
+    const { data: revoked } = await repositories.refreshTokens.revokeForEmail('a@wisc.edu')
+    assert.deepEqual(revoked, [{ family_id: 'f2' }])
+  })
+})
@@ -0,0 +1,77 @@
+process.env.DATA_STORE = 'memory'
+process.env.JWT_SECRET ||= 'test-secret'
+
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { applyReaction, upsertUser } = require('../lib/reputation')
+
+describe('applyReaction', () => {
+  it('counts one report per reporter per session', async () => {
+    await upsertUser({ email: 'reporter1@wisc.edu', name: 'Reporter' })
+    await upsertUser({ email: 'target1@wisc.edu', name: 'Target' })
+    let rep
+    for (let i = 0; i < 15; i += 1) {
+      rep = await applyReaction({
+        reporterEmail: 'reporter1@wisc.edu',
+        targetEmail: 'target1@wisc.edu',
+        type: 'report',
+        sessionId: 'session-1',
+      })
+    }
+    assert.equal(rep.reports, 1)
+    assert.equal(rep.banned, false)
+  })
+
+  it('counts one dislike per reporter per session', async () => {
+    await upsertUser({ email: 'reporter2@wisc.edu', name: 'Reporter' })
+    await upsertUser({ email: 'target2@wisc.edu', name: 'Target' })
+    let rep
+    for (let i = 0; i < 15; i += 1) {
+      rep = await applyReaction({
+        reporterEmail: 'reporter2@wisc.edu',
+        targetEmail: 'target2@wisc.edu',
+        type: 'dislike',
+        sessionId: 'session-2',
+      })
+    }
+    assert.equal(rep.dislikes, 1)
+    assert.equal(rep.banned, false)
+  })
+
+  it('counts the same reporter again in a new session', async () => {
+    await upsertUser({ email: 'reporter3@wisc.edu', name: 'Reporter' })
+    await upsertUser({ email: 'target3@wisc.edu', name: 'Target' })
+    for (const sessionId of ['session-3a', 'session-3b']) {
+      await applyReaction({
+        reporterEmail: 'reporter3@wisc.edu',
+        targetEmail: 'target3@wisc.edu',
+        type: 'dislike',
+        sessionId,
+      })
+    }
+    const rep = await applyReaction({
+      reporterEmail: 'reporter3@wisc.edu',
+      targetEmail: 'target3@wisc.edu',
+      type: 'dislike',
+      sessionId: 'session-3b',
+    })
+    assert.equal(rep.dislikes, 2)
+  })
+
+  it('counts a reporter once toward a suspension across sessions', async () => {
+    // A brand-new account reports at 0.15; twenty sessions would be 3 reports.
+    await upsertUser({ email: 'reporter4@wisc.edu', name: 'Reporter' })
+    await upsertUser({ email: 'target4@wisc.edu', name: 'Target' })
+    let rep
+    for (let i = 0; i < 20; i += 1) {
+      rep = await applyReaction({
+        reporterEmail: 'reporter4@wisc.edu',
+        targetEmail: 'target4@wisc.edu',
+        type: 'report',
+        sessionId: `session-4-${i}`,
+      })
+    }
+    assert.equal(rep.reports, 20)
+    assert.equal(rep.banned, false)
+  })
+})
@@ -0,0 +1,152 @@
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { EventEmitter } = require('node:events')
+const { registerHandler, clientEventSchemas } = require('../lib/socketContract')
+
+const offer = { type: 'offer', sdp: 'v=0' }
+
+// One entry per client event: payloads the server must accept and payloads it
+// must turn away.
+const cases = {
+  'profile:update': {
+    valid: [{}, { name: 'Sam', interests: ['chess'] }, { interests: [] }],
+    invalid: [null, [], 'Sam', { name: 42 }, { interests: 'chess' }, { interests: ['chess', 1] }],
+  },
+  'profile:reaction': {
+    valid: [
+      { target: 'a@wisc.edu', type: 'like' },
+      { target: 'a@wisc.edu', type: 'report', sessionId: 's1', category: 'spam', note: 'ads' },
+    ],
+    invalid: [
+      { type: 'like' },
+      { target: ' ', type: 'like' },
+      { target: 'a@wisc.edu', type: 'love' },
+      { target: 'a@wisc.edu', type: 'report', category: 'rude' },
+      { target: 'a@wisc.edu', type: 'report', note: 5 },
+    ],
+  },
+  'profile:block': {
+    valid: [{ target: 'a@wisc.edu' }, { target: 'a@wisc.edu', sessionId: 's1' }],
+    invalid: [{}, { target: '' }, { target: 'a@wisc.edu', sessionId: 1 }],
+  },
+  'match:request': {
+    valid: [{ mode: 'text' }, { mode: 'video' }],
+    invalid: [{}, { mode: 'audio' }, 'text'],
+  },
+  'match:next': {
+    valid: [{ mode: 'text' }, { mode: 'video', sessionId: 's1' }],
+    invalid: [{ sessionId: 's1' }, { mode: 'text', sessionId: null }],
+  },
+  'chat:text:message': {
+    valid: [{ sessionId: 's1', body: 'hi' }, { sessionId: 's1', body: 'hi', clientId: 'c1' }],
+    invalid: [
+      { sessionId: 's1' },
+      { sessionId: 's1', body: '   ' },
+      { body: 'hi' },
+      { sessionId: 's1', body: 'hi', clientId: 1 },
+    ],
+  },
+  'chat:typing': {
+    valid: [{ sessionId: 's1', typing: true }, { sessionId: 's1', typing: false }],
+    invalid: [{ sessionId: 's1' }, { sessionId: 's1', typing: 'yes' }, { typing: true }],
+  },
+  'chat:receipt': {
+    valid: [{ sessionId: 's1', messageIds: ['m1', 'm2'], status: 'read' }],
+    invalid: [
+      { sessionId: 's1', messageIds: [], status: 'read' },
+      { sessionId: 's1', messageIds: [''], status: 'read' },
+      { sessionId: 's1', messageIds: ['m1'], status: 'seen' },
+    ],
+  },
+  'chat:leave': {
+    valid: [{}, { sessionId: 's1' }],
+    invalid: [undefined, { sessionId: 1 }],
+  },
+  'session:resume': {
+    valid: [{ sessionId: 's1' }],
+    invalid: [{}, { sessionId: '' }],
+  },
+  'video:reveal': {
+    valid: [{ sessionId: 's1' }],
+    invalid: [{}, { sessionId: ' ' }, { sessionId: true }],
+  },
+  'webrtc:offer': {
+    valid: [{ sessionId: 's1', description: offer }, { sessionId: 's1', description: { type: 'rollback' } }],
+    invalid: [
+      { sessionId: 's1' },
+      { sessionId: 's1', description: { type: 'bogus', sdp: 'v=0' } },
+      { sessionId: 's1', description: { type: 'offer', sdp: 0 } },
+    ],
+  },
+  'webrtc:answer': {
+    valid: [{ sessionId: 's1', description: { type: 'answer', sdp: 'v=0' } }],
+    invalid: [{ description: offer }, { sessionId: 's1', description: null }],
+  },
+  'webrtc:ice-candidate': {
+    valid: [
+      { sessionId: 's1', candidate: null },
+      { sessionId: 's1', candidate: { candidate: 'candidate:1 1 udp', sdpMid: '0' } },
+      { sessionId: 's1', candidate: {} },
+    ],
+    invalid: [
+      { sessionId: 's1' },
+      { sessionId: 's1', candidate: 'candidate:1' },
+      { sessionId: 's1', candidate: { candidate: 1 } },
+    ],
+  },
+}
+
+describe('clientEventSchemas', () => {
+  it('has cases for every event', () => {
+    assert.deepEqual(Object.keys(cases).sort(), Object.keys(clientEventSchemas).sort())
+  })
+
+  for (const [event, { valid, invalid }] of Object.entries(cases)) {
+    it(`checks ${event}`, () => {
+      const validate = clientEventSchemas[event]
+      for (const payload of valid) assert.equal(validate(payload), true, JSON.stringify(payload))
+      for (const payload of invalid) assert.equal(validate(payload), false, JSON.stringify(payload))
+    })
+  }
+})
+
+describe('registerHandler', () => {
+  const fakeSocket = () => {
+    const socket = new EventEmitter()
+    socket.id = 'socket-1'
+    socket.emitted = []
+    socket.emit = (event, ...args) => {
+      if (event === 'system:error') socket.emitted.push(args[0])
+      return EventEmitter.prototype.emit.call(socket, event, ...args)
+    }
+    return socket
+  }
+  const flush = () => new Promise((resolve) => setImmediate(resolve))
+
+  it('refuses events without a schema', () => {
+    assert.throws(() => registerHandler(fakeSocket(), 'chat:unknown', () => {}), /No payload schema/)
+  })
+
+  it('only hands valid payloads to the handler', async (t) => {
+    t.mock.method(console, 'warn', () => {})
+    const socket = fakeSocket()
+    const received = []
+    registerHandler(socket, 'match:request', (payload) => received.push(payload))
+    socket.listeners('match:request')[0]({ mode: 'audio' })
+    socket.listeners('match:request')[0]({ mode: 'text' })
+    await flush()
+    assert.deepEqual(received, [{ mode: 'text' }])
+    assert.deepEqual(socket.emitted, ['Invalid payload for match:request.'])
+  })
+
+  it('answers a failing handler with system:error', async (t) => {
+    t.mock.method(console, 'error', () => {})
+    const socket = fakeSocket()
+    registerHandler(socket, 'session:resume', async () => {
+      throw new Error('store down')
+    })
+    socket.listeners('session:resume')[0]({ sessionId: 's1' })
+    await flush()
+    assert.deepEqual(socket.emitted, ['Something went wrong. Try again.'])
+  })
+})
@@ -0,0 +1,73 @@
+const { describe, it, after } = require('node:test')
+const assert = require('node:assert/strict')
+const RedisMock = require('ioredis-mock')
+const { createMemoryStore } = require('../lib/store/memory')
+const { createRedisStore } = require('../lib/store/redis')
+const { createState } = require('../lib/state')
+
+const drivers = {
+  memory: () => createMemoryStore(),
+  'redis (lua)': () => createRedisStore({ client: new RedisMock(), prefix: `state-${Date.now()}:` }),
+}
+
+const pair = (id) => ({
+  id,
+  mode: 'text',
+  participants: ['socket-a', 'socket-b'],
+  emails: { 'socket-a': 'a@wisc.edu', 'socket-b': 'b@wisc.edu' },
+  startedAt: Date.now(),
+})
+
+for (const [name, create] of Object.entries(drivers)) {
+  describe(`session state (${name} store)`, () => {
+    const store = create()
+    const state = createState(store)
+
+    after(async () => {
+      await store.client?.quit?.()
+    })
+
+    it('keeps both seats when both partners drop at once', async () => {
+      await state.createSession(pair('both-drop'))
+      await Promise.all([
+        state.markAway('both-drop', 'socket-a', 'a@wisc.edu'),
+        state.markAway('both-drop', 'socket-b', 'b@wisc.edu'),
+      ])
+      const session = await state.getSession('both-drop')
+      assert.deepEqual(Object.keys(session.away).sort(), ['socket-a', 'socket-b'])
+      assert.equal((await state.findAwaySession('b@wisc.edu')).awayId, 'socket-b')
+    })
+
+    it('keeps a resume and a drop that land together', async () => {
+      await state.createSession(pair('resume-and-drop'))
+      await state.markAway('resume-and-drop', 'socket-a', 'a@wisc.edu')
+      await Promise.all([
+        state.resumeParticipant('resume-and-drop', 'socket-a', 'socket-a2'),
+        state.markAway('resume-and-drop', 'socket-b', 'b@wisc.edu'),
+      ])
+      const session = await state.getSession('resume-and-drop')
+      assert.deepEqual(session.participants, ['socket-a2', 'socket-b'])
+      assert.deepEqual(Object.keys(session.away), ['socket-b'])
+      assert.equal(session.emails['socket-a2'], 'a@wisc.edu')
+      assert.equal((await state.findSessionBySocket('socket-a2')).sessionId, 'resume-and-drop')
+    })
+
+    it('lets only one socket claim an away seat', async () => {
+      await state.createSession(pair('double-resume'))
+      await state.markAway('double-resume', 'socket-a', 'a@wisc.edu')
+      const results = await Promise.all([
+        state.resumeParticipant('double-resume', 'socket-a', 'tab-1'),
+        state.resumeParticipant('double-resume', 'socket-a', 'tab-2'),
+      ])
+      assert.equal(results.filter(Boolean).length, 1)
+      const session = await state.getSession('double-resume')
+      assert.equal(session.participants.filter((id) => id.startsWith('tab-')).length, 1)
+      assert.equal(await state.findAwaySession('a@wisc.edu'), null)
+    })
+
+    it('does nothing for a session that has ended', async () => {
+      assert.equal(await state.markAway('missing', 'socket-a', 'a@wisc.edu'), null)
+      assert.equal(await state.resumeParticipant('missing', 'socket-a', 'socket-a2'), null)
+    })
+  })
+}
@@ -0,0 +1,115 @@
+const { describe, it, after } = require('node:test')
+const assert = require('node:assert/strict')
+const RedisMock = require('ioredis-mock')
+const { createMemoryStore } = require('../lib/store/memory')
+const { createRedisStore } = require('../lib/store/redis')
+const { withLock } = require('../lib/store')
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Every driver has to behave the same. `redis (lua)` runs the real Lua scripts
+// from lib/store/redis.js through ioredis-mock. Its TIME rounds the seconds and
+// takes microseconds from an unrelated clock, so it can jump a second either
+// way: the Lua bucket is only checked for draining, which a step back must not
+// break, not for refilling.
+const drivers = {
+  memory: { create: () => createMemoryStore(), steadyClock: true },
+  'redis (lua)': {
+    create: () => createRedisStore({ client: new RedisMock(), prefix: `test-${Date.now()}:` }),
+    steadyClock: false,
+  },
+}
+
+for (const [name, { create, steadyClock }] of Object.entries(drivers)) {
+  describe(`${name} store`, () => {
+    const store = create()
+
+    after(async () => {
+      await store.client?.quit?.()
+    })
+
+    it('round-trips JSON values and expires them', async () => {
+      await store.set('value', { a: [1, 2] })
+      assert.deepEqual(await store.get('value'), { a: [1, 2] })
+      await store.set('short', 'x', 20)
+      await sleep(40)
+      assert.equal(await store.get('short'), null)
+      await store.del('value')
+      assert.equal(await store.get('value'), null)
+    })
+
+    it('keeps hashes and sets', async () => {
+      await store.hset('hash', 'a', { n: 1 })
+      await store.hset('hash', 'b', 2)
+      assert.deepEqual(await store.hget('hash', 'a'), { n: 1 })
+      assert.equal(await store.hlen('hash'), 2)
+      await store.hdel('hash', 'a')
+      assert.deepEqual(await store.hgetall('hash'), { b: 2 })
+
+      await store.sadd('set', 'x')
+      await store.sadd('set', 'x')
+      await store.sadd('set', 'y')
+      await store.srem('set', 'y')
+      assert.deepEqual(await store.smembers('set'), ['x'])
+    })
+
+    it('caps pushed lists at the newest entries', async () => {
+      for (let i = 0; i < 5; i += 1) await store.pushCapped('list', { i }, 3)
+      assert.deepEqual(await store.range('list'), [{ i: 2 }, { i: 3 }, { i: 4 }])
+    })
+
+    it('takes tokens until the bucket is empty', async () => {
+      assert.equal(await store.takeToken('drain', 2, 0.01), true)
+      assert.equal(await store.takeToken('drain', 2, 0.01), true)
+      assert.equal(await store.takeToken('drain', 2, 0.01), false)
+      assert.equal(await store.takeToken('other-drain', 2, 0.01), true)
+    })
+
+    it('refills the bucket over time', { skip: !steadyClock && 'mock TIME is too coarse' }, async () => {
+      assert.equal(await store.takeToken('refill', 1, 20), true)
+      assert.equal(await store.takeToken('refill', 1, 20), false)
+      await sleep(80)
+      assert.equal(await store.takeToken('refill', 1, 20), true)
+    })
+
+    it('counts within a fixed window and starts over after it', async () => {
+      assert.equal(await store.countInWindow('window', 40), 1)
+      assert.equal(await store.countInWindow('window', 40), 2)
+      await sleep(60)
+      assert.equal(await store.countInWindow('window', 40), 1)
+    })
+
+    it('hands a lock to one holder and only that holder can release it', async () => {
+      const token = await store.acquireLock('lock', 1000)
+      assert.ok(token)
+      assert.equal(await store.acquireLock('lock', 1000), null)
+      await store.releaseLock('lock', 'someone-else')
+      assert.equal(await store.acquireLock('lock', 1000), null)
+      await store.releaseLock('lock', token)
+      assert.ok(await store.acquireLock('lock', 1000))
+    })
+
+    it('frees a lock whose holder never released it', async () => {
+      assert.ok(await store.acquireLock('stale-lock', 20))
+      await sleep(40)
+      assert.ok(await store.acquireLock('stale-lock', 20))
+    })
+
+    it('runs withLock for one caller at a time', async () => {
+      let running = 0
+      let overlapped = false
+      const task = () =>
+        withLock(store, 'pair', 1000, async () => {
+          running += 1
+          if (running > 1) overlapped = true
+          await sleep(20)
+          running -= 1
+          return 'done'
+        })
+      const results = await Promise.all([task(), task(), task()])
+      assert.equal(overlapped, false)
+      assert.deepEqual(results.filter(Boolean), ['done'])
+      assert.equal(await task(), 'done')
+    })
+  })
+}
@@ -0,0 +1,151 @@
+process.env.DATA_STORE = 'memory'
+
+const { describe, it, mock } = require('node:test')
+const assert = require('node:assert/strict')
+const { getRepositories } = require('../lib/repositories')
+const { getReporterTrust, weighReaction } = require('../lib/trust')
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const daysAgo = (days) => new Date(Date.now() - days * DAY_MS).toISOString()
+
+const createUser = (email, ageDays = 0) =>
+  getRepositories().users.upsert({ email, name: 'Badger', created_at: daysAgo(ageDays) })
+
+const addSessions = async (email, count) => {
+  for (let i = 0; i < count; i += 1) {
+    await getRepositories().sessions.insert({
+      id: `${email}-${i}`,
+      user_a_email: email,
+      user_b_email: `peer${i}@wisc.edu`,
+    })
+  }
+}
+
+const addReports = async (reporterEmail, statuses) => {
+  for (const [i, status] of statuses.entries()) {
+    await getRepositories().reports.insert({
+      reporter_email: reporterEmail,
+      target_email: `past${i}@wisc.edu`,
+      session_id: `${reporterEmail}-report-${i}`,
+      status,
+    })
+  }
+}
+
+// Old enough and busy enough that only the upheld rate moves the weight.
+const createMatureUser = async (email) => {
+  await createUser(email, 30)
+  await addSessions(email, 20)
+}
+
+const report = (reporterEmail, targetEmail) =>
+  getRepositories().reports.insert({
+    reporter_email: reporterEmail,
+    target_email: targetEmail,
+    session_id: null,
+  })
+
+const weigh = (reporterEmail, targetEmail, type = 'report') =>
+  weighReaction({ reporterEmail, targetEmail, type })
+
+// The data-store notice and the [trust] pattern lines aren't under test.
+mock.method(console, 'warn', () => {})
+
+describe('getReporterTrust', () => {
+  it('gives a mature reporter with no report history full weight', async () => {
+    await createMatureUser('mature@wisc.edu')
+    assert.equal((await getReporterTrust('mature@wisc.edu')).weight, 1)
+  })
+
+  it('discounts new accounts and accounts without sessions', async () => {
+    await createUser('fresh@wisc.edu', 0)
+    assert.equal((await getReporterTrust('fresh@wisc.edu')).weight, 0.15)
+
+    await createUser('week-old@wisc.edu', 7)
+    await addSessions('week-old@wisc.edu', 20)
+    assert.equal((await getReporterTrust('week-old@wisc.edu')).weight, 0.65)
+  })
+
+  it('raises the weight with upheld reports and lowers it with dismissed ones', async () => {
+    await createMatureUser('upheld@wisc.edu')
+    await addReports('upheld@wisc.edu', ['upheld', 'upheld', 'upheld', 'upheld'])
+    assert.equal((await getReporterTrust('upheld@wisc.edu')).weight, 1.33)
+
+    await createMatureUser('dismissed@wisc.edu')
+    await addReports('dismissed@wisc.edu', ['dismissed', 'dismissed', 'dismissed', 'dismissed'])
+    assert.equal((await getReporterTrust('dismissed@wisc.edu')).weight, 0.67)
+  })
+
+  it('clamps the weight between 0.1 and 1.5', async () => {
+    await createMatureUser('banned@wisc.edu')
+    await getRepositories().reputation.upsert({ email: 'banned@wisc.edu', banned: true })
+    assert.equal((await getReporterTrust('banned@wisc.edu')).weight, 0.1)
+
+    await createMatureUser('trusted@wisc.edu')
+    await addReports('trusted@wisc.edu', Array(400).fill('upheld'))
+    assert.equal((await getReporterTrust('trusted@wisc.edu')).weight, 1.5)
+  })
+
+  it('halves the weight of a reporter who has been suspended before', async () => {
+    await createMatureUser('suspended-before@wisc.edu')
+    await getRepositories().reputation.upsert({ email: 'suspended-before@wisc.edu', suspension_count: 1 })
+    assert.equal((await getReporterTrust('suspended-before@wisc.edu')).weight, 0.5)
+  })
+})
+
+describe('weighReaction', () => {
+  it('counts likes and reactions without a reporter in full', async () => {
+    const neutral = { weight: 1, pattern: null }
+    assert.deepEqual(await weigh('mature@wisc.edu', 'x@wisc.edu', 'like'), neutral)
+    assert.deepEqual(await weigh(null, 'x@wisc.edu'), neutral)
+  })
+
+  it('uses the reporter trust for an ordinary report', async () => {
+    await createMatureUser('plain-reporter@wisc.edu')
+    assert.deepEqual(await weigh('plain-reporter@wisc.edu', 'plain@wisc.edu'), { weight: 1, pattern: null })
+  })
+
+  it('zeroes a report against someone who just reported the reporter', async () => {
+    await createMatureUser('first@wisc.edu')
+    await createMatureUser('retaliator@wisc.edu')
+    await report('first@wisc.edu', 'retaliator@wisc.edu')
+    assert.deepEqual(await weigh('retaliator@wisc.edu', 'first@wisc.edu'), { weight: 0, pattern: 'reciprocal' })
+    // Dislikes are only weighted, never matched against patterns.
+    const dislike = await weigh('retaliator@wisc.edu', 'first@wisc.edu', 'dislike')
+    assert.equal(dislike.pattern, null)
+  })
+
+  it('zeroes a burst of reports from mostly new accounts', async () => {
+    for (const email of ['new1@wisc.edu', 'new2@wisc.edu', 'new3@wisc.edu']) await createUser(email, 1)
+    await report('new1@wisc.edu', 'swarmed@wisc.edu')
+    await report('new2@wisc.edu', 'swarmed@wisc.edu')
+    assert.deepEqual(await weigh('new3@wisc.edu', 'swarmed@wisc.edu'), { weight: 0, pattern: 'brigade' })
+  })
+
+  it('zeroes a burst of reports from reporters who keep getting matched together', async () => {
+    const friends = ['friend1@wisc.edu', 'friend2@wisc.edu', 'friend3@wisc.edu']
+    for (const email of friends) await createMatureUser(email)
+    const { sessions } = getRepositories()
+    await sessions.insert({ id: 'friends-1', user_a_email: friends[0], user_b_email: friends[1] })
+    await sessions.insert({ id: 'friends-2', user_a_email: friends[1], user_b_email: friends[2] })
+    await report(friends[0], 'ganged-up-on@wisc.edu')
+    await report(friends[1], 'ganged-up-on@wisc.edu')
+    assert.deepEqual(await weigh(friends[2], 'ganged-up-on@wisc.edu'), { weight: 0, pattern: 'brigade' })
+  })
+
+  it('does not treat one past pairing between reporters as a brigade', async () => {
+    const reporters = ['r1@wisc.edu', 'r2@wisc.edu', 'r3@wisc.edu', 'r4@wisc.edu']
+    for (const email of reporters) await createMatureUser(email)
+    const { sessions } = getRepositories()
+    await sessions.insert({ id: 'chance', user_a_email: reporters[0], user_b_email: reporters[1] })
+    for (const email of reporters.slice(0, 3)) await report(email, 'genuinely-bad@wisc.edu')
+    assert.deepEqual(await weigh(reporters[3], 'genuinely-bad@wisc.edu'), { weight: 1, pattern: null })
+  })
+
+  it('needs at least three reporters before calling it a brigade', async () => {
+    await createUser('lone-new@wisc.edu', 0)
+    await report('other-new@wisc.edu', 'quiet@wisc.edu')
+    const { pattern } = await weigh('lone-new@wisc.edu', 'quiet@wisc.edu')
+    assert.equal(pattern, null)
+  })
+})
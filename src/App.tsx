@@ -5,9 +5,13 @@ import type { ChatMode } from './types'
 import { useBannedInterests } from './hooks/useBannedInterests'
 import LoginPage from './pages/LoginPage'
 import VerifyPage from './pages/VerifyPage'
+import MagicLinkPage from './pages/MagicLinkPage'
 import ModeSelectionPage from './pages/ModeSelectionPage'
 import TextChatPage from './pages/TextChatPage'
 import VideoChatPage from './pages/VideoChatPage'
+import AdminPage from './pages/AdminPage'
+import AppealPage from './pages/AppealPage'
+import DevOutboxPage from './pages/DevOutboxPage'
 import BackgroundFX from './components/BackgroundFX'
 import './App.css'
 import { useSocket } from './context/SocketContext'
@@ -15,12 +19,12 @@ import { useAuth } from './context/AuthContext'
 
 function App() {
   const location = useLocation()
-  const { user, logout } = useAuth()
+  const { user, logout, logoutEverywhere } = useAuth()
   const [selectedMode, setSelectedMode] = useState<ChatMode | null>(null)
   const { bannedInterests, loading: bannedLoading } = useBannedInterests()
   const { status: socketStatus, send: sendSocket } = useSocket()
 
-  const isLoginView = location.pathname === '/' || location.pathname === '/verify'
+  const isLoginView = ['/', '/verify', '/verify/link', '/appeal'].includes(location.pathname)
   const isModeView = location.pathname === '/mode'
   const shellClasses = useMemo(() => {
     const classes = ['app-shell']
@@ -34,7 +38,6 @@ function App() {
     if (user && socketStatus === 'connected') {
       sendSocket('profile:update', {
         name: user.name,
-        email: user.email,
         interests: user.interests,
       })
     }
@@ -47,6 +50,11 @@ function App() {
     logout()
   }
 
+  const handleLogoutEverywhere = async () => {
+    await logoutEverywhere()
+    setSelectedMode(null)
+  }
+
   const requireAuth = (component: ReactNode) =>
     user ? component : <Navigate to="/" replace />
 
@@ -73,6 +81,12 @@ function App() {
           path="/verify"
           element={user ? <Navigate to="/mode" replace /> : <VerifyPage />}
         />
+        <Route
+          path="/verify/link"
+          element={user ? <Navigate to="/mode" replace /> : <MagicLinkPage />}
+        />
+        <Route path="/appeal" element={<AppealPage />} />
+        {import.meta.env.DEV && <Route path="/dev/outbox" element={<DevOutboxPage />} />}
         <Route
           path="/mode"
           element={requireAuth(
@@ -80,6 +94,7 @@ function App() {
               user={user!}
               onSelectMode={handleModeSelection}
               onLogout={handleLogout}
+              onLogoutEverywhere={handleLogoutEverywhere}
             />,
           )}
         />
@@ -104,6 +119,7 @@ function App() {
               <VideoChatPage
                 user={user!}
                 onLeaveChat={() => setSelectedMode(null)}
+                onSwitchToText={() => setSelectedMode('text')}
                 onLogout={handleLogout}
               />
             ) : (
@@ -111,6 +127,16 @@ function App() {
             )
           }
         />
+        <Route
+          path="/admin"
+          element={requireAuth(
+            user?.staff ? (
+              <AdminPage user={user} onLogout={handleLogout} />
+            ) : (
+              <Navigate to="/mode" replace />
+            ),
+          )}
+        />
         <Route path="*" element={<Navigate to={user ? '/mode' : '/'} replace />} />
       </Routes>
     </div>
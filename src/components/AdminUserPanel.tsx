@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react'
+import type { FormEvent } from 'react'
+import { useAuth } from '../context/AuthContext'
+import { addStaffNote, banUser, listStaffNotes, unbanUser, type StaffNote } from '../lib/api'
+
+type AdminUserPanelProps = {
+  email: string
+  banned: boolean
+  onChanged: () => void
+  onClose: () => void
+}
+
+const formatWhen = (iso: string) =>
+  new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+
+const AdminUserPanel = ({ email, banned, onChanged, onClose }: AdminUserPanelProps) => {
+  const { token } = useAuth()
+  const [notes, setNotes] = useState<StaffNote[]>([])
+  const [noteDraft, setNoteDraft] = useState('')
+  const [banReason, setBanReason] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (!token) return
+    let cancelled = false
+    listStaffNotes(token, email)
+      .then(({ notes: next }) => {
+        if (!cancelled) setNotes(next)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load notes.')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [email, token])
+
+  const run = async (action: () => Promise<unknown>) => {
+    if (!token || busy) return
+    setBusy(true)
+    setError('')
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleAddNote = (event: FormEvent) => {
+    event.preventDefault()
+    const body = noteDraft.trim()
+    if (!token || !body) return
+    void run(async () => {
+      const { note } = await addStaffNote(token, email, body)
+      setNotes((current) => [note, ...current])
+      setNoteDraft('')
+    })
+  }
+
+  const handleBan = () =>
+    run(async () => {
+      if (!token) return
+      await banUser(token, email, banReason.trim())
+      setBanReason('')
+      onChanged()
+    })
+
+  const handleUnban = () =>
+    run(async () => {
+      if (!token) return
+      await unbanUser(token, email)
+      onChanged()
+    })
+
+  return (
+    <section className="admin-user-panel profile-card">
+      <div className="admin-user-header">
+        <div>
+          <p className="summary-label">Reviewing</p>
+          <p className="summary-value">{email}</p>
+          <p className={`helper ${banned ? 'emphasis danger' : 'muted'}`}>
+            {banned ? 'Currently banned' : 'Not banned'}
+          </p>
+        </div>
+        <button type="button" className="ghost" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      <div className="admin-user-actions">
+        {banned ? (
+          <button type="button" className="secondary" onClick={handleUnban} disabled={busy}>
+            Lift ban
+          </button>
+        ) : (
+          <>
+            <input
+              type="text"
+              placeholder="Ban reason (optional)"
+              value={banReason}
+              onChange={(event) => setBanReason(event.target.value)}
+              disabled={busy}
+            />
+            <button type="button" className="primary" onClick={handleBan} disabled={busy}>
+              Hard ban
+            </button>
+          </>
+        )}
+      </div>
+
+      <form className="admin-note-form" onSubmit={handleAddNote}>
+        <textarea
+          placeholder="Add a staff note"
+          value={noteDraft}
+          onChange={(event) => setNoteDraft(event.target.value)}
+          rows={3}
+          disabled={busy}
+        />
+        <button type="submit" className="secondary" disabled={busy || !noteDraft.trim()}>
+          Save note
+        </button>
+      </form>
+
+      {notes.length ? (
+        <ul className="admin-notes">
+          {notes.map((note) => (
+            <li key={note.id}>
+              <p>{note.body}</p>
+              <p className="helper muted">
+                {note.authorEmail} · {formatWhen(note.createdAt)}
+              </p>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="helper muted">No staff notes yet.</p>
+      )}
+      {error && <p className="helper emphasis danger">{error}</p>}
+    </section>
+  )
+}
+
+export default AdminUserPanel
@@ -0,0 +1,70 @@
+import { useState } from 'react'
+import { useAuth } from '../context/AuthContext'
+import { decideAppeal, type BanAppeal } from '../lib/api'
+
+type AppealReviewCardProps = {
+  appeal: BanAppeal
+  onDecided: (id: string) => void
+  onReview: (email: string) => void
+}
+
+const AppealReviewCard = ({ appeal, onDecided, onReview }: AppealReviewCardProps) => {
+  const { token } = useAuth()
+  const [response, setResponse] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+
+  const decide = async (decision: 'approved' | 'denied') => {
+    if (!token || busy) return
+    setBusy(true)
+    setError('')
+    try {
+      await decideAppeal(token, appeal.id, decision, response.trim())
+      onDecided(appeal.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not record the decision.')
+      setBusy(false)
+    }
+  }
+
+  return (
+    <li className="appeal-card">
+      <div>
+        <p className="summary-value">{appeal.email}</p>
+        <p className="helper muted">
+          Submitted{' '}
+          {new Date(appeal.createdAt).toLocaleString([], {
+            month: 'short',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: '2-digit',
+          })}
+        </p>
+        <p className="appeal-message-body">{appeal.message}</p>
+      </div>
+      <div className="admin-note-form">
+        <textarea
+          placeholder="Response emailed to the user (optional)"
+          value={response}
+          onChange={(event) => setResponse(event.target.value)}
+          rows={2}
+          disabled={busy}
+        />
+        <div className="admin-list-actions">
+          <button type="button" className="ghost" onClick={() => onReview(appeal.email)}>
+            Review
+          </button>
+          <button type="button" className="secondary" onClick={() => decide('denied')} disabled={busy}>
+            Deny
+          </button>
+          <button type="button" className="primary" onClick={() => decide('approved')} disabled={busy}>
+            Approve &amp; unban
+          </button>
+        </div>
+        {error && <p className="helper emphasis danger">{error}</p>}
+      </div>
+    </li>
+  )
+}
+
+export default AppealReviewCard
@@ -0,0 +1,60 @@
+import { Link } from 'react-router-dom'
+import { formatCountdown, useCountdown } from '../hooks/useCountdown'
+
+type BannedNoticeProps = {
+  email: string
+  // Set for temporary suspensions; permanent bans leave it empty.
+  bannedUntil?: string | null
+}
+
+const BannedNotice = ({ email, bannedUntil }: BannedNoticeProps) => {
+  const remaining = useCountdown(bannedUntil)
+  const appealLink = <Link to={`/appeal?email=${encodeURIComponent(email)}`}>Appeal this ban</Link>
+
+  if (bannedUntil && remaining === 0) {
+    return (
+      <div className="banned-notice lifted">
+        <p className="helper emphasis">Your suspension has ended. Welcome back — keep it respectful.</p>
+        <p className="helper">
+          <Link to="/mode">Back to mode select</Link>
+        </p>
+      </div>
+    )
+  }
+
+  if (bannedUntil) {
+    return (
+      <div className="banned-notice">
+        <p className="helper emphasis danger">
+          Your account is temporarily suspended after repeated reports or dislikes.
+        </p>
+        <p className="banned-countdown" aria-live="polite">
+          {formatCountdown(remaining)}
+        </p>
+        <p className="helper muted">
+          You can match again on{' '}
+          {new Date(bannedUntil).toLocaleString([], {
+            weekday: 'short',
+            month: 'short',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: '2-digit',
+          })}
+          . Further violations lead to longer suspensions.
+        </p>
+        <p className="helper">Think this was a mistake? {appealLink}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="banned-notice">
+      <p className="helper emphasis danger">
+        Your account has been banned from Badger Connect for violating the community guidelines.
+      </p>
+      <p className="helper">Think this was a mistake? {appealLink}</p>
+    </div>
+  )
+}
+
+export default BannedNotice
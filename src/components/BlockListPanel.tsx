@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react'
+import { useAuth } from '../context/AuthContext'
+import { listBlocks, removeBlock, type BlockedUser } from '../lib/api'
+
+const formatBlockedAt = (iso: string) =>
+  new Date(iso).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })
+
+const BlockListPanel = () => {
+  const { token } = useAuth()
+  const [blocks, setBlocks] = useState<BlockedUser[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [removing, setRemoving] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!token) return
+    let cancelled = false
+    listBlocks(token)
+      .then(({ blocks: next }) => {
+        if (!cancelled) setBlocks(next)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load your blocks.')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [token])
+
+  const handleUnblock = async (email: string) => {
+    if (!token || removing) return
+    setRemoving(email)
+    setError('')
+    try {
+      await removeBlock(token, email)
+      setBlocks((current) => current.filter((entry) => entry.email !== email))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not remove the block.')
+    } finally {
+      setRemoving(null)
+    }
+  }
+
+  return (
+    <section className="block-list">
+      <p className="summary-label">Blocked Badgers</p>
+      {loading ? (
+        <p className="helper muted">Loading your block list…</p>
+      ) : blocks.length ? (
+        <ul>
+          {blocks.map((entry) => (
+            <li key={entry.email}>
+              <div>
+                <p className="summary-value">{entry.email}</p>
+                <p className="helper muted">Blocked {formatBlockedAt(entry.blockedAt)}</p>
+              </div>
+              <button
+                type="button"
+                className="ghost"
+                onClick={() => handleUnblock(entry.email)}
+                disabled={removing === entry.email}
+              >
+                {removing === entry.email ? 'Removing…' : 'Unblock'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="helper muted">
+          You haven&apos;t blocked anyone. Blocked students are never matched with you again.
+        </p>
+      )}
+      {error && <p className="helper emphasis danger">{error}</p>}
+    </section>
+  )
+}
+
+export default BlockListPanel
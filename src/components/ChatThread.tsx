@@ -0,0 +1,75 @@
+import type { FormEvent } from 'react'
+import { DELIVERY_LABEL, MESSAGE_MAX_LENGTH, type ChatMessage } from '../hooks/useSessionChat'
+
+type ChatThreadProps = {
+  messages: ChatMessage[]
+  partnerTyping: boolean
+  partnerName: string
+  draft: string
+  onDraftChange: (value: string) => void
+  onSend: () => void
+  disabled?: boolean
+  emptyState?: string
+  placeholder?: string
+}
+
+const ChatThread = ({
+  messages,
+  partnerTyping,
+  partnerName,
+  draft,
+  onDraftChange,
+  onSend,
+  disabled = false,
+  emptyState,
+  placeholder = 'Type a message to your match',
+}: ChatThreadProps) => {
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    onSend()
+  }
+
+  return (
+    <>
+      <div className="message-list">
+        {!messages.length && emptyState ? (
+          <div className="system-message">{emptyState}</div>
+        ) : (
+          messages.map((message) => (
+            <div
+              key={message.id}
+              className={`message ${message.author === 'user' ? 'outbound' : 'inbound'}`}
+            >
+              <p>{message.body}</p>
+              <span>
+                {message.timestamp}
+                {message.delivery && ` · ${DELIVERY_LABEL[message.delivery]}`}
+              </span>
+            </div>
+          ))
+        )}
+        {partnerTyping && (
+          <div className="message inbound typing">
+            <p>{partnerName.split(' ')[0]} is typing…</p>
+          </div>
+        )}
+      </div>
+
+      <form className="chat-composer" onSubmit={handleSubmit}>
+        <input
+          type="text"
+          placeholder={placeholder}
+          value={draft}
+          onChange={(event) => onDraftChange(event.target.value)}
+          maxLength={MESSAGE_MAX_LENGTH}
+          disabled={disabled}
+        />
+        <button type="submit" className="primary" disabled={disabled}>
+          Send
+        </button>
+      </form>
+    </>
+  )
+}
+
+export default ChatThread
@@ -0,0 +1,103 @@
+import { useEffect, useRef } from 'react'
+import { useAudioLevel } from '../hooks/useAudioLevel'
+import { useMediaDevices, type MediaDeviceOption } from '../hooks/useMediaDevices'
+import { canSelectSpeaker, type DeviceKind, type DevicePreferences } from '../lib/devices'
+
+type DeviceSettingsPanelProps = {
+  // The local camera/mic stream, for the preview and the level meter.
+  stream: MediaStream | null
+  preferences: DevicePreferences
+  onSelect: (kind: DeviceKind, deviceId: string) => void
+  error?: string
+  onClose?: () => void
+}
+
+type DeviceSelectProps = {
+  label: string
+  options: MediaDeviceOption[]
+  value?: string
+  onChange: (deviceId: string) => void
+}
+
+// An empty value is the browser default, which is also what a remembered
+// device that has gone missing falls back to.
+const DeviceSelect = ({ label, options, value, onChange }: DeviceSelectProps) => (
+  <label>
+    {label}
+    <select
+      value={value && options.some((option) => option.deviceId === value) ? value : ''}
+      onChange={(event) => onChange(event.target.value)}
+    >
+      <option value="">System default</option>
+      {options.map((option) => (
+        <option key={option.deviceId} value={option.deviceId}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  </label>
+)
+
+const DeviceSettingsPanel = ({ stream, preferences, onSelect, error, onClose }: DeviceSettingsPanelProps) => {
+  const previewRef = useRef<HTMLVideoElement | null>(null)
+  const { cameras, microphones, speakers } = useMediaDevices(stream)
+  const level = useAudioLevel(stream)
+  const hasVideo = Boolean(stream?.getVideoTracks().length)
+
+  useEffect(() => {
+    if (!previewRef.current) return
+    previewRef.current.srcObject = stream
+  }, [stream])
+
+  return (
+    <section className="device-settings" aria-label="Camera and microphone settings">
+      <div className="device-preview">
+        <video ref={previewRef} autoPlay muted playsInline className={hasVideo ? 'visible' : ''} />
+        {!hasVideo && <p className="helper muted">Camera preview appears once the camera is on.</p>}
+      </div>
+
+      <div className="device-fields">
+        <DeviceSelect
+          label="Camera"
+          options={cameras}
+          value={preferences.cameraId}
+          onChange={(deviceId) => onSelect('cameraId', deviceId)}
+        />
+        <DeviceSelect
+          label="Microphone"
+          options={microphones}
+          value={preferences.micId}
+          onChange={(deviceId) => onSelect('micId', deviceId)}
+        />
+        <div
+          className="mic-meter"
+          role="meter"
+          aria-label="Microphone level"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(level * 100)}
+        >
+          <span style={{ width: `${Math.round(level * 100)}%` }} />
+        </div>
+        {canSelectSpeaker() ? (
+          <DeviceSelect
+            label="Speaker"
+            options={speakers}
+            value={preferences.speakerId}
+            onChange={(deviceId) => onSelect('speakerId', deviceId)}
+          />
+        ) : (
+          <p className="helper muted">This browser plays call audio through the system speaker.</p>
+        )}
+        {error && <p className="helper emphasis danger">{error}</p>}
+        {onClose && (
+          <button type="button" className="ghost" onClick={onClose}>
+            Done
+          </button>
+        )}
+      </div>
+    </section>
+  )
+}
+
+export default DeviceSettingsPanel
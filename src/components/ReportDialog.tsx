@@ -0,0 +1,79 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { REPORT_CATEGORIES } from '../lib/reportCategories'
+import type { ReportCategory, ReportDetails } from '../types'
+
+const NOTE_MAX_LENGTH = 500
+
+type ReportDialogProps = {
+  partnerName: string
+  // Text sessions (and the video side-chat) send recent messages along.
+  attachesTranscript: boolean
+  onSubmit: (details: ReportDetails) => void
+  onCancel: () => void
+}
+
+const ReportDialog = ({ partnerName, attachesTranscript, onSubmit, onCancel }: ReportDialogProps) => {
+  const [category, setCategory] = useState<ReportCategory | null>(null)
+  const [note, setNote] = useState('')
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    if (!category) return
+    onSubmit({ category, note: note.trim() || undefined })
+  }
+
+  return (
+    <div className="report-dialog-backdrop" role="presentation" onClick={onCancel}>
+      <form
+        className="report-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="report-dialog-title"
+        onSubmit={handleSubmit}
+        onClick={(event) => event.stopPropagation()}
+      >
+        <h3 id="report-dialog-title">Report {partnerName}</h3>
+        <p className="helper muted">Pick what happened. Moderators review every report.</p>
+        <div className="report-categories">
+          {REPORT_CATEGORIES.map((option) => (
+            <label key={option.value} className={category === option.value ? 'selected' : undefined}>
+              <input
+                type="radio"
+                name="report-category"
+                value={option.value}
+                checked={category === option.value}
+                onChange={() => setCategory(option.value)}
+              />
+              <span className="summary-value">{option.label}</span>
+              <span className="helper muted">{option.hint}</span>
+            </label>
+          ))}
+        </div>
+        <label className="report-note">
+          <span className="summary-label">Anything else? (optional)</span>
+          <textarea
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            maxLength={NOTE_MAX_LENGTH}
+            rows={3}
+            placeholder="What should a moderator know?"
+          />
+        </label>
+        {attachesTranscript && (
+          <p className="helper muted">The last messages from this chat are attached to the report.</p>
+        )}
+        <div className="reaction-actions">
+          <button type="button" className="ghost" onClick={onCancel}>
+            Cancel
+          </button>
+          <button type="submit" className="primary" disabled={!category}>
+            Submit report
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+export default ReportDialog
@@ -0,0 +1,87 @@
+import { useState } from 'react'
+import DeviceSettingsPanel from './DeviceSettingsPanel'
+import type { DeviceKind, DevicePreferences } from '../lib/devices'
+
+type VideoLobbyProps = {
+  stream: MediaStream | null
+  preferences: DevicePreferences
+  onSelectDevice: (kind: DeviceKind, deviceId: string) => void
+  deviceError: string
+  cameraError: string
+  onRetryCamera: () => void
+  onJoin: () => void
+  onSwitchToText: () => void
+}
+
+// The green room: nobody is queued for video until their camera works and
+// they've agreed to the video rules again. A camera that can't be used leads
+// to text chat instead.
+const VideoLobby = ({
+  stream,
+  preferences,
+  onSelectDevice,
+  deviceError,
+  cameraError,
+  onRetryCamera,
+  onJoin,
+  onSwitchToText,
+}: VideoLobbyProps) => {
+  const [agreed, setAgreed] = useState(false)
+  const cameraReady = Boolean(stream?.getVideoTracks().some((track) => track.readyState === 'live'))
+
+  return (
+    <section className="video-lobby" aria-labelledby="video-lobby-title">
+      <div>
+        <h2 id="video-lobby-title">Check your camera before you join</h2>
+        <p className="helper muted">You&apos;ll only be matched once you join the queue.</p>
+      </div>
+
+      {cameraError ? (
+        <div className="lobby-blocked" role="alert">
+          <p className="summary-label">Camera unavailable</p>
+          <p className="helper">{cameraError}</p>
+          <p className="helper muted">You can still meet people over text.</p>
+          <div className="chat-actions">
+            <button type="button" className="secondary" onClick={onRetryCamera}>
+              Try again
+            </button>
+            <button type="button" className="primary" onClick={onSwitchToText}>
+              Switch to text chat
+            </button>
+          </div>
+        </div>
+      ) : (
+        <DeviceSettingsPanel
+          stream={stream}
+          preferences={preferences}
+          onSelect={onSelectDevice}
+          error={deviceError}
+        />
+      )}
+
+      <label className={`consent${agreed ? ' checked' : ''}`}>
+        <input type="checkbox" checked={agreed} onChange={(event) => setAgreed(event.target.checked)} />
+        <span className="consent-box" aria-hidden />
+        <span className="consent-text">
+          On camera I&apos;ll keep to the <strong>community guidelines</strong>: no nudity or sexual
+          content, no harassment, and no recording anyone without their consent. Partners can report
+          a call, and violations are auto-banned.
+        </span>
+      </label>
+
+      <div className="chat-actions">
+        <button type="button" className="primary" onClick={onJoin} disabled={!cameraReady || !agreed}>
+          Join the video queue
+        </button>
+        {!cameraError && (
+          <button type="button" className="ghost" onClick={onSwitchToText}>
+            Use text chat instead
+          </button>
+        )}
+      </div>
+      {!cameraReady && !cameraError && <p className="fine-print">Waiting for your camera…</p>}
+    </section>
+  )
+}
+
+export default VideoLobby
@@ -4,9 +4,18 @@ import {
   useContext,
   useEffect,
   useMemo,
+  useRef,
   useState,
 } from 'react'
 import type { UserProfile } from '../types'
+import {
+  ApiError,
+  logoutAllDevices,
+  logoutSession,
+  refreshSession,
+  setAccessTokenRefresher,
+  type SessionTokens,
+} from '../lib/api'
 
 type PendingSignup = {
   name: string
@@ -19,30 +28,68 @@ type AuthContextValue = {
   token: string | null
   pending: PendingSignup | null
   setPending: (payload: PendingSignup | null) => void
-  setSession: (payload: { token: string; user: UserProfile }) => void
+  setSession: (payload: { token: string; refreshToken: string; user: UserProfile }) => void
+  // Resolves a fresh access token, or null once the session is gone. Concurrent
+  // callers share one request.
+  refreshAccessToken: () => Promise<string | null>
   logout: () => void
+  logoutEverywhere: () => Promise<void>
 }
 
 const AuthContext = createContext<AuthContextValue | undefined>(undefined)
 
 const TOKEN_KEY = 'bc.token'
+const REFRESH_KEY = 'bc.refresh'
 const USER_KEY = 'bc.user'
 
+// Renew this long before the access token expires, to absorb clock skew and
+// a slow network.
+const REFRESH_LEAD_MS = 60 * 1000
+// After losing a refresh race to another tab, how long to wait for its new
+// tokens to land in localStorage.
+const RACE_SETTLE_MS = 1000
+
+// Sessions from before refresh tokens have no refresh token and count as
+// signed out.
 const loadStored = (): { token: string | null; user: UserProfile | null } => {
   try {
     const token = localStorage.getItem(TOKEN_KEY)
     const userRaw = localStorage.getItem(USER_KEY)
-    if (!token || !userRaw) return { token: null, user: null }
+    if (!token || !userRaw || !localStorage.getItem(REFRESH_KEY)) return { token: null, user: null }
     return { token, user: JSON.parse(userRaw) as UserProfile }
   } catch {
     return { token: null, user: null }
   }
 }
 
+const storeTokens = ({ token, refreshToken }: Pick<SessionTokens, 'token' | 'refreshToken'>) => {
+  localStorage.setItem(TOKEN_KEY, token)
+  localStorage.setItem(REFRESH_KEY, refreshToken)
+}
+
+const clearStored = () => {
+  localStorage.removeItem(TOKEN_KEY)
+  localStorage.removeItem(REFRESH_KEY)
+  localStorage.removeItem(USER_KEY)
+}
+
+// Milliseconds since epoch from the JWT's `exp` claim. The signature is the
+// server's business; this only schedules the refresh.
+const tokenExpiry = (token: string): number | null => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')
+    const { exp } = JSON.parse(atob(payload)) as { exp?: number }
+    return typeof exp === 'number' ? exp * 1000 : null
+  } catch {
+    return null
+  }
+}
+
 export const AuthProvider: React.FC<React.PropsWithChildren> = ({ children }) => {
   const [token, setToken] = useState<string | null>(null)
   const [user, setUser] = useState<UserProfile | null>(null)
   const [pending, setPending] = useState<PendingSignup | null>(null)
+  const refreshingRef = useRef<Promise<string | null> | null>(null)
 
   useEffect(() => {
     const { token: t, user: u } = loadStored()
@@ -53,8 +100,8 @@ export const AuthProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
   }, [])
 
   const setSession = useCallback(
-    ({ token: t, user: u }: { token: string; user: UserProfile }) => {
-      localStorage.setItem(TOKEN_KEY, t)
+    ({ token: t, refreshToken, user: u }: { token: string; refreshToken: string; user: UserProfile }) => {
+      storeTokens({ token: t, refreshToken })
       localStorage.setItem(USER_KEY, JSON.stringify(u))
       setToken(t)
       setUser(u)
@@ -63,17 +110,102 @@ export const AuthProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
     [],
   )
 
-  const logout = useCallback(() => {
-    localStorage.removeItem(TOKEN_KEY)
-    localStorage.removeItem(USER_KEY)
+  const clearSession = useCallback(() => {
+    clearStored()
     setToken(null)
     setUser(null)
     setPending(null)
   }, [])
 
+  const refreshAccessToken = useCallback(() => {
+    if (refreshingRef.current) return refreshingRef.current
+    const presented = localStorage.getItem(REFRESH_KEY)
+    if (!presented) return Promise.resolve(null)
+
+    const attempt = refreshSession(presented)
+      .then((res) => {
+        storeTokens(res)
+        setToken(res.token)
+        return res.token
+      })
+      .catch(async (err: unknown): Promise<string | null> => {
+        if (err instanceof ApiError && err.status === 409) {
+          // Another tab spent the token first; use the pair it stored.
+          await new Promise((resolve) => window.setTimeout(resolve, RACE_SETTLE_MS))
+          const adopted = localStorage.getItem(REFRESH_KEY) !== presented && localStorage.getItem(TOKEN_KEY)
+          if (adopted) {
+            setToken(adopted)
+            return adopted
+          }
+          return null
+        }
+        // Revoked, expired, or banned. Network errors keep the session for the
+        // next attempt.
+        if (err instanceof ApiError && (err.status === 401 || err.status === 403)) clearSession()
+        return null
+      })
+      .finally(() => {
+        refreshingRef.current = null
+      })
+    refreshingRef.current = attempt
+    return attempt
+  }, [clearSession])
+
+  // Renew shortly before expiry. Rescheduled whenever the token changes,
+  // including tokens adopted from another tab.
+  useEffect(() => {
+    if (!token) return
+    const expiresAt = tokenExpiry(token)
+    if (!expiresAt) return
+    const timer = window.setTimeout(() => {
+      void refreshAccessToken()
+    }, Math.max(0, expiresAt - Date.now() - REFRESH_LEAD_MS))
+    return () => window.clearTimeout(timer)
+  }, [token, refreshAccessToken])
+
+  useEffect(() => {
+    setAccessTokenRefresher(refreshAccessToken)
+    return () => setAccessTokenRefresher(null)
+  }, [refreshAccessToken])
+
+  // Tabs share one session: follow rotations and sign-outs made elsewhere.
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== null && ![TOKEN_KEY, REFRESH_KEY, USER_KEY].includes(event.key)) return
+      const { token: t, user: u } = loadStored()
+      setToken(t)
+      setUser(u)
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [])
+
+  const logout = useCallback(() => {
+    const refreshToken = localStorage.getItem(REFRESH_KEY)
+    clearSession()
+    if (refreshToken) logoutSession(refreshToken).catch(() => {})
+  }, [clearSession])
+
+  // Throws if the server couldn't revoke; the local session is kept so the
+  // user can retry.
+  const logoutEverywhere = useCallback(async () => {
+    if (!token) return
+    await logoutAllDevices(token)
+    clearSession()
+  }, [token, clearSession])
+
   const value = useMemo(
-    () => ({ user, token, pending, setPending, setSession, logout }),
-    [user, token, pending, setSession, logout],
+    () => ({
+      user,
+      token,
+      pending,
+      setPending,
+      setSession,
+      refreshAccessToken,
+      logout,
+      logoutEverywhere,
+    }),
+    [user, token, pending, setSession, refreshAccessToken, logout, logoutEverywhere],
   )
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
@@ -1,21 +1,39 @@
-import { createContext, useCallback, useContext, useMemo, useState } from 'react'
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react'
+import { useSocket } from './SocketContext'
+import { getReputationPolicy, type ReputationPolicy } from '../lib/api'
+import type { ReactionResultPayload, ReactionType, ReportDetails, ReputationPayload } from '../types'
 
-export type ReactionType = 'like' | 'dislike' | 'report'
+export type { ReactionType }
 
-interface ProfileReputation {
-  likes: number
-  dislikes: number
-  reports: number
-  banned: boolean
-}
+// The server owns reputation. This context mirrors what it has broadcast over
+// `profile:reputation`, layers optimistic reactions on top, and rolls them back
+// when the server rejects them (or never answers).
+
+export type ProfileReputation = Omit<ReputationPayload, 'email'>
+
+export type ReactionOutcome = { ok: true; reputation: ProfileReputation } | { ok: false; reason: string }
 
 interface FeedbackContextValue {
-  recordReaction: (email: string, type: ReactionType) => ProfileReputation
+  recordReaction: (
+    email: string,
+    type: ReactionType,
+    sessionId?: string,
+    report?: ReportDetails,
+  ) => Promise<ReactionOutcome>
   getReputationFor: (email: string) => ProfileReputation
-  REPORT_THRESHOLD: number
-  DISLIKE_THRESHOLD: number
+  // Null until /config/reputation has loaded.
+  policy: ReputationPolicy | null
 }
 
+type PendingReaction = {
+  type: ReactionType
+  snapshot: ProfileReputation
+  settle: (outcome: ReactionOutcome) => void
+  timer: number
+}
+
+const REACTION_TIMEOUT_MS = 8000
+
 const defaultReputation: ProfileReputation = {
   likes: 0,
   dislikes: 0,
@@ -23,36 +41,126 @@ const defaultReputation: ProfileReputation = {
   banned: false,
 }
 
-const REPORT_THRESHOLD = 2
-const DISLIKE_THRESHOLD = 6
+const withReaction = (profile: ProfileReputation, type: ReactionType): ProfileReputation => ({
+  ...profile,
+  likes: profile.likes + (type === 'like' ? 1 : 0),
+  dislikes: profile.dislikes + (type === 'dislike' ? 1 : 0),
+  reports: profile.reports + (type === 'report' ? 1 : 0),
+})
 
 const FeedbackContext = createContext<FeedbackContextValue | undefined>(undefined)
 
 export const FeedbackProvider: React.FC<React.PropsWithChildren> = ({ children }) => {
+  const { socket, send } = useSocket()
   const [reputations, setReputations] = useState<Record<string, ProfileReputation>>({})
+  const [policy, setPolicy] = useState<ReputationPolicy | null>(null)
+  const reputationsRef = useRef(reputations)
+  const pendingRef = useRef(new Map<string, PendingReaction>())
 
-  const recordReaction = useCallback((email: string, type: ReactionType) => {
-    let next: ProfileReputation
-    setReputations((current) => {
-      const profile = current[email] ?? { ...defaultReputation }
-      next = { ...profile }
-      if (type === 'like') {
-        next.likes += 1
-      } else if (type === 'dislike') {
-        next.dislikes += 1
-      } else {
-        next.reports += 1
+  useEffect(() => {
+    reputationsRef.current = reputations
+  }, [reputations])
+
+  useEffect(() => {
+    let cancelled = false
+    getReputationPolicy()
+      .then((next) => {
+        if (!cancelled) setPolicy(next)
+      })
+      .catch((err) => console.error('Could not load the reputation policy', err))
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const setReputation = useCallback((email: string, next: ProfileReputation) => {
+    setReputations((current) => ({ ...current, [email]: next }))
+  }, [])
+
+  const settle = useCallback((email: string, outcome: ReactionOutcome) => {
+    const pending = pendingRef.current.get(email)
+    if (!pending) return
+    pendingRef.current.delete(email)
+    window.clearTimeout(pending.timer)
+    if (!outcome.ok) setReputation(email, pending.snapshot)
+    pending.settle(outcome)
+  }, [setReputation])
+
+  useEffect(() => {
+    if (!socket) return
+
+    const handleReputation = ({ email, ...reputation }: ReputationPayload) => {
+      if (!email) return
+      const pending = pendingRef.current.get(email)
+      if (pending) {
+        // Someone else's reaction landed first. Rebase ours onto the new truth.
+        pending.snapshot = reputation
+        setReputation(email, withReaction(reputation, pending.type))
+        return
       }
-      const reachedReportBan = next.reports >= REPORT_THRESHOLD
-      const reachedDislikeBan = next.dislikes >= DISLIKE_THRESHOLD
-      if (reachedReportBan || reachedDislikeBan) {
-        next.banned = true
+      setReputation(email, reputation)
+    }
+
+    const handleReactionResult = (payload: ReactionResultPayload) => {
+      if (payload.ok) {
+        setReputation(payload.target, payload.reputation)
+        settle(payload.target, { ok: true, reputation: payload.reputation })
+      } else {
+        settle(payload.target, { ok: false, reason: payload.reason })
       }
-      return { ...current, [email]: next }
-    })
-    return next!
+    }
+
+    socket.on('profile:reputation', handleReputation)
+    socket.on('profile:reaction:result', handleReactionResult)
+    return () => {
+      socket.off('profile:reputation', handleReputation)
+      socket.off('profile:reaction:result', handleReactionResult)
+    }
+  }, [settle, setReputation, socket])
+
+  useEffect(() => {
+    const pending = pendingRef.current
+    return () => {
+      pending.forEach((entry) => window.clearTimeout(entry.timer))
+      pending.clear()
+    }
   }, [])
 
+  const recordReaction = useCallback(
+    (email: string, type: ReactionType, sessionId?: string, report?: ReportDetails) => {
+      const current = reputationsRef.current[email] ?? defaultReputation
+      const optimistic = withReaction(current, type)
+      setReputation(email, optimistic)
+
+      // Offline demo mode: nobody to confirm with, so the local update stands.
+      if (!socket?.connected) {
+        return Promise.resolve<ReactionOutcome>({ ok: true, reputation: optimistic })
+      }
+
+      // A newer reaction replaces an unanswered one but keeps its snapshot, so
+      // a rollback still lands on the last state the server confirmed.
+      const previous = pendingRef.current.get(email)
+      if (previous) {
+        window.clearTimeout(previous.timer)
+        previous.settle({ ok: true, reputation: optimistic })
+      }
+
+      return new Promise<ReactionOutcome>((resolve) => {
+        pendingRef.current.set(email, {
+          type,
+          snapshot: previous?.snapshot ?? current,
+          settle: resolve,
+          timer: window.setTimeout(
+            () => settle(email, { ok: false, reason: 'The server did not confirm that reaction.' }),
+            REACTION_TIMEOUT_MS,
+          ),
+        })
+        send('profile:reaction', { type, target: email, sessionId, ...report })
+      })
+    },
+    [send, setReputation, settle, socket],
+  )
+
   const getReputationFor = useCallback(
     (email: string) => {
       return reputations[email] ?? defaultReputation
@@ -61,8 +169,8 @@ export const FeedbackProvider: React.FC<React.PropsWithChildren> = ({ children }
   )
 
   const value = useMemo(
-    () => ({ recordReaction, getReputationFor, REPORT_THRESHOLD, DISLIKE_THRESHOLD }),
-    [getReputationFor, recordReaction],
+    () => ({ recordReaction, getReputationFor, policy }),
+    [getReputationFor, policy, recordReaction],
   )
 
   return <FeedbackContext.Provider value={value}>{children}</FeedbackContext.Provider>
@@ -1,15 +1,25 @@
 import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react'
 import { io, type Socket } from 'socket.io-client'
 import { useAuth } from './AuthContext'
+import type { ClientToServerEvents, ServerToClientEvents } from '../types'
 
-export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error'
+// 'reconnecting' means the link dropped after connecting and socket.io is retrying;
+// the server holds any active session open for a short grace period meanwhile.
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error'
+
+export type AppSocket = Socket<ServerToClientEvents, ClientToServerEvents>
+
+type SendEvent = <E extends keyof ClientToServerEvents>(
+  event: E,
+  ...args: Parameters<ClientToServerEvents[E]>
+) => void
 
 type SocketContextValue = {
-  socket: Socket | null
+  socket: AppSocket | null
   status: ConnectionStatus
   error: string | null
   url: string
-  send: <T>(event: string, payload: T) => void
+  send: SendEvent
 }
 
 const SocketContext = createContext<SocketContextValue | undefined>(undefined)
@@ -17,30 +27,39 @@ const SocketContext = createContext<SocketContextValue | undefined>(undefined)
 const SOCKET_URL = import.meta.env.VITE_SOCKET_URL ?? 'http://localhost:4000'
 
 export const SocketProvider: React.FC<React.PropsWithChildren> = ({ children }) => {
-  const { token, logout } = useAuth()
-  const [socket, setSocket] = useState<Socket | null>(null)
+  const { token, logout, refreshAccessToken } = useAuth()
+  const [socket, setSocket] = useState<AppSocket | null>(null)
   const [status, setStatus] = useState<ConnectionStatus>('disconnected')
   const [error, setError] = useState<string | null>(null)
   const logoutRef = useRef(logout)
+  const refreshRef = useRef(refreshAccessToken)
+  const tokenRef = useRef(token)
+  const signedIn = Boolean(token)
 
   useEffect(() => {
     logoutRef.current = logout
-  }, [logout])
+    refreshRef.current = refreshAccessToken
+    tokenRef.current = token
+  }, [logout, refreshAccessToken, token])
 
+  // One socket per sign-in, not per access token: refreshes mustn't drop the
+  // chat. The handshake reads the latest token on every (re)connect.
   useEffect(() => {
-    if (!token) {
+    if (!signedIn) {
       setSocket(null)
       setStatus('disconnected')
       setError(null)
       return
     }
 
-    const instance = io(SOCKET_URL, {
+    const instance: AppSocket = io(SOCKET_URL, {
       autoConnect: false,
       transports: ['websocket'],
       reconnectionAttempts: 5,
-      auth: { token },
+      auth: (cb) => cb({ token: tokenRef.current }),
     })
+    // The handshake gets one retry with a refreshed token per connection.
+    let retriedAuth = false
 
     setSocket(instance)
     setStatus('connecting')
@@ -48,32 +67,52 @@ export const SocketProvider: React.FC<React.PropsWithChildren> = ({ children })
     instance.connect()
 
     instance.on('connect', () => {
+      retriedAuth = false
       setStatus('connected')
       setError(null)
     })
 
     instance.on('disconnect', () => {
-      setStatus('disconnected')
+      setStatus(instance.active ? 'reconnecting' : 'disconnected')
     })
 
     instance.on('connect_error', (err) => {
-      setStatus('error')
       setError(err.message)
       if (/auth|token|jwt|invalid|expired/i.test(err.message)) {
-        logoutRef.current()
+        setStatus('error')
+        if (retriedAuth) {
+          logoutRef.current()
+          return
+        }
+        retriedAuth = true
+        refreshRef.current().then((next) => {
+          if (!next) return logoutRef.current()
+          tokenRef.current = next
+          setStatus('connecting')
+          instance.connect()
+        })
+        return
       }
+      setStatus((current) => (current === 'reconnecting' && instance.active ? 'reconnecting' : 'error'))
     })
 
+    const handleReconnectFailed = () => {
+      setStatus('error')
+      setError('Lost the connection to the server.')
+    }
+    instance.io.on('reconnect_failed', handleReconnectFailed)
+
     return () => {
       instance.removeAllListeners()
+      instance.io.off('reconnect_failed', handleReconnectFailed)
       instance.disconnect()
     }
-  }, [token])
+  }, [signedIn])
 
-  const send = useCallback(
-    <T,>(event: string, payload: T) => {
+  const send = useCallback<SendEvent>(
+    (event, ...args) => {
       if (socket && socket.connected) {
-        socket.emit(event, payload)
+        socket.emit(event, ...args)
       } else {
         console.info('Socket not connected, skipping emit for event:', event)
       }
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react'
+
+// Input level of the stream's first audio track, 0–1, updated every animation
+// frame. Reads 0 while the track is muted or disabled.
+export const useAudioLevel = (stream: MediaStream | null) => {
+  const [level, setLevel] = useState(0)
+  const track = stream?.getAudioTracks()[0] ?? null
+
+  useEffect(() => {
+    if (!track || typeof AudioContext === 'undefined') return
+    const context = new AudioContext()
+    // A stream of just this track, so swapping the camera doesn't rebuild the graph.
+    const source = context.createMediaStreamSource(new MediaStream([track]))
+    const analyser = context.createAnalyser()
+    analyser.fftSize = 512
+    source.connect(analyser)
+    const samples = new Float32Array(analyser.fftSize)
+    let frame = 0
+
+    const tick = () => {
+      analyser.getFloatTimeDomainData(samples)
+      let sum = 0
+      for (const sample of samples) sum += sample * sample
+      // RMS of speech sits well below 1; scale so talking fills most of the bar.
+      setLevel(track.enabled ? Math.min(1, Math.sqrt(sum / samples.length) * 4) : 0)
+      frame = window.requestAnimationFrame(tick)
+    }
+    frame = window.requestAnimationFrame(tick)
+
+    return () => {
+      window.cancelAnimationFrame(frame)
+      source.disconnect()
+      void context.close()
+    }
+  }, [track])
+
+  return track ? level : 0
+}
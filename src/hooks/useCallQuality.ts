@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react'
+import {
+  applySenderProfile,
+  SENDER_PROFILE_ORDER,
+  summarizeStats,
+  type CallStats,
+  type SenderProfile,
+  type StatsCounters,
+} from '../lib/rtc'
+
+const POLL_MS = 2000
+const LOW_BANDWIDTH_KEY = 'bc.lowBandwidth'
+
+// Loss the partner reports on our video. Stepping down is quick and stepping
+// back up is slow, so a noisy link doesn't flap between profiles.
+const STEP_DOWN_LOSS_PERCENT = 8
+const STEP_UP_LOSS_PERCENT = 2
+const STEP_DOWN_AFTER_SAMPLES = 2
+const STEP_UP_AFTER_SAMPLES = 5
+
+const stepProfile = (profile: SenderProfile, direction: 1 | -1): SenderProfile => {
+  const index = SENDER_PROFILE_ORDER.indexOf(profile) + direction
+  return SENDER_PROFILE_ORDER[Math.min(Math.max(index, 0), SENDER_PROFILE_ORDER.length - 1)]
+}
+
+const videoSender = (pc: RTCPeerConnection | null) =>
+  pc?.getSenders().find((sender) => sender.track?.kind === 'video') ?? null
+
+// Polls getStats() while a call is up and caps the outgoing video to match.
+// Low bandwidth mode pins the lowest profile and is remembered per browser.
+export const useCallQuality = ({
+  peerConnectionRef,
+  active,
+}: {
+  peerConnectionRef: RefObject<RTCPeerConnection | null>
+  active: boolean
+}) => {
+  const [stats, setStats] = useState<CallStats | null>(null)
+  const [autoProfile, setAutoProfile] = useState<SenderProfile>('full')
+  const [lowBandwidth, setLowBandwidth] = useState(() => localStorage.getItem(LOW_BANDWIDTH_KEY) === '1')
+  const profile: SenderProfile = lowBandwidth ? 'low' : autoProfile
+  const profileRef = useRef(profile)
+  // Senders are replaced with the peer connection, so this tracks what each
+  // one was last given.
+  const appliedRef = useRef(new WeakMap<RTCRtpSender, SenderProfile>())
+  // The adaptive profile carries over an ICE restart but not into a new call.
+  const measuredPcRef = useRef<RTCPeerConnection | null>(null)
+
+  const syncSender = useCallback(() => {
+    const sender = videoSender(peerConnectionRef.current)
+    if (!sender || appliedRef.current.get(sender) === profileRef.current) return
+    const target = profileRef.current
+    appliedRef.current.set(sender, target)
+    applySenderProfile(sender, target).catch((error) => {
+      appliedRef.current.delete(sender)
+      console.error('Failed to apply sender parameters', error)
+    })
+  }, [peerConnectionRef])
+
+  useEffect(() => {
+    profileRef.current = profile
+    syncSender()
+  }, [profile, syncSender])
+
+  useEffect(() => {
+    if (!active) return
+    let previous: StatsCounters | null = null
+    let lossySamples = 0
+    let cleanSamples = 0
+
+    const poll = async () => {
+      const current = peerConnectionRef.current
+      if (!current) return
+      if (current !== measuredPcRef.current) {
+        measuredPcRef.current = current
+        previous = null
+        lossySamples = 0
+        cleanSamples = 0
+        setAutoProfile('full')
+      }
+      syncSender()
+
+      let report: RTCStatsReport
+      try {
+        report = await current.getStats()
+      } catch {
+        return
+      }
+      if (current !== peerConnectionRef.current) return
+      const { stats: next, counters } = summarizeStats(report, previous)
+      previous = counters
+      setStats(next)
+
+      const loss = next.sendLossPercent
+      if (loss === null) return
+      if (loss >= STEP_DOWN_LOSS_PERCENT) {
+        lossySamples += 1
+        cleanSamples = 0
+      } else if (loss <= STEP_UP_LOSS_PERCENT) {
+        cleanSamples += 1
+        lossySamples = 0
+      } else {
+        lossySamples = 0
+        cleanSamples = 0
+      }
+      if (lossySamples >= STEP_DOWN_AFTER_SAMPLES) {
+        lossySamples = 0
+        setAutoProfile((value) => stepProfile(value, 1))
+      } else if (cleanSamples >= STEP_UP_AFTER_SAMPLES) {
+        cleanSamples = 0
+        setAutoProfile((value) => stepProfile(value, -1))
+      }
+    }
+
+    const interval = window.setInterval(() => {
+      void poll()
+    }, POLL_MS)
+    return () => window.clearInterval(interval)
+  }, [active, peerConnectionRef, syncSender])
+
+  const toggleLowBandwidth = useCallback(() => {
+    const next = !lowBandwidth
+    localStorage.setItem(LOW_BANDWIDTH_KEY, next ? '1' : '0')
+    setLowBandwidth(next)
+  }, [lowBandwidth])
+
+  return { stats: active ? stats : null, profile, lowBandwidth, toggleLowBandwidth }
+}
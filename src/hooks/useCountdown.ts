@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react'
+
+// Milliseconds left until `until` (an ISO timestamp), ticking once a second.
+// Returns 0 once the moment has passed or when there's nothing to count down to.
+export const useCountdown = (until: string | null | undefined) => {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (!until) return
+    const timer = window.setInterval(() => setNow(Date.now()), 1000)
+    return () => window.clearInterval(timer)
+  }, [until])
+
+  if (!until) return 0
+  return Math.max(new Date(until).getTime() - now, 0)
+}
+
+export const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000)
+  const days = Math.floor(totalSeconds / 86400)
+  const hours = Math.floor((totalSeconds % 86400) / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  const clock = [hours, minutes, seconds].map((part) => String(part).padStart(2, '0')).join(':')
+  return days ? `${days}d ${clock}` : clock
+}
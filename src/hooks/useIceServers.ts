@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useAuth } from '../context/AuthContext'
+import { getIceServers } from '../lib/api'
+import { DEFAULT_RTC_CONFIGURATION } from '../lib/rtc'
+
+// Refetch well before the TURN credentials lapse, so an ICE restart late in a
+// long call still gets working ones.
+const REFRESH_FRACTION = 0.8
+
+// The backend's ICE server list, with short-lived TURN credentials.
+// `getConfiguration` always returns the newest list; `relayConfigured` is null
+// until the first response.
+export const useIceServers = () => {
+  const { token } = useAuth()
+  const configurationRef = useRef<RTCConfiguration>(DEFAULT_RTC_CONFIGURATION)
+  const [relayConfigured, setRelayConfigured] = useState<boolean | null>(null)
+  const signedIn = Boolean(token)
+  const tokenRef = useRef(token)
+
+  useEffect(() => {
+    tokenRef.current = token
+  }, [token])
+
+  useEffect(() => {
+    if (!signedIn) return
+    let cancelled = false
+    let timer: number | undefined
+
+    const load = async () => {
+      if (!tokenRef.current) return
+      try {
+        const { iceServers, relay, ttlSec } = await getIceServers(tokenRef.current)
+        if (cancelled) return
+        configurationRef.current = { iceServers }
+        setRelayConfigured(relay)
+        timer = window.setTimeout(load, ttlSec * 1000 * REFRESH_FRACTION)
+      } catch (error) {
+        console.error('Could not load ICE servers; using public STUN only', error)
+      }
+    }
+
+    void load()
+
+    return () => {
+      cancelled = true
+      window.clearTimeout(timer)
+    }
+  }, [signedIn])
+
+  const getConfiguration = useCallback(() => configurationRef.current, [])
+
+  return { getConfiguration, relayConfigured }
+}
@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react'
+
+export type MediaDeviceOption = { deviceId: string; label: string }
+
+type DeviceLists = {
+  cameras: MediaDeviceOption[]
+  microphones: MediaDeviceOption[]
+  speakers: MediaDeviceOption[]
+}
+
+const EMPTY: DeviceLists = { cameras: [], microphones: [], speakers: [] }
+
+// Labels stay blank until the page has had camera or mic permission, so
+// fall back to a numbered name.
+const toOptions = (devices: MediaDeviceInfo[], kind: MediaDeviceKind, fallback: string) =>
+  devices
+    .filter((device) => device.kind === kind && device.deviceId)
+    .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `${fallback} ${index + 1}` }))
+
+// Lists the machine's cameras, microphones, and speakers, and keeps the lists
+// current as devices are plugged in or removed. Pass `refreshKey` (e.g. the
+// active stream) to re-list once permission has been granted.
+export const useMediaDevices = (refreshKey?: unknown) => {
+  const [devices, setDevices] = useState<DeviceLists>(EMPTY)
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices
+    if (!mediaDevices?.enumerateDevices) return
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        const all = await mediaDevices.enumerateDevices()
+        if (cancelled) return
+        setDevices({
+          cameras: toOptions(all, 'videoinput', 'Camera'),
+          microphones: toOptions(all, 'audioinput', 'Microphone'),
+          speakers: toOptions(all, 'audiooutput', 'Speaker'),
+        })
+      } catch (error) {
+        console.error('Could not list media devices', error)
+      }
+    }
+
+    void load()
+    mediaDevices.addEventListener('devicechange', load)
+    return () => {
+      cancelled = true
+      mediaDevices.removeEventListener('devicechange', load)
+    }
+  }, [refreshKey])
+
+  return devices
+}
@@ -0,0 +1,291 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { RefObject } from 'react'
+import { useSocket } from '../context/SocketContext'
+import type {
+  ReceiptPayload,
+  ReceiptStatus,
+  SystemWarningPayload,
+  TextMessagePayload,
+  TextMessageSentPayload,
+  TypingPayload,
+} from '../types'
+
+export type DeliveryStatus = 'sending' | 'sent' | 'failed' | ReceiptStatus
+
+export type ChatMessage = {
+  id: string
+  author: 'user' | 'partner'
+  body: string
+  timestamp: string
+  delivery?: DeliveryStatus
+}
+
+// Mirrors MAX_BODY_LENGTH in backend/lib/floodGuard.js.
+export const MESSAGE_MAX_LENGTH = 1000
+
+// Stop advertising "typing" after this long without a keystroke.
+const TYPING_IDLE_MS = 3000
+// Hide the partner's typing indicator if their "stop" never arrives.
+const TYPING_STALE_MS = 6000
+
+// 'failed' messages never got a server id, so no receipt can refer to them.
+const DELIVERY_RANK: Record<DeliveryStatus, number> = {
+  failed: -1,
+  sending: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+}
+
+export const DELIVERY_LABEL: Record<DeliveryStatus, string> = {
+  sending: 'Sending…',
+  sent: 'Sent',
+  failed: 'Not delivered',
+  delivered: 'Delivered',
+  read: 'Read',
+}
+
+// Local ids cover system notes and optimistic sends; real chat messages carry
+// the server-assigned id so receipts can refer to them.
+let localMessageCount = 0
+const nextLocalId = () => `local-${++localMessageCount}`
+
+export const createMessage = (
+  author: ChatMessage['author'],
+  body: string,
+  timeSource?: number,
+  id: string = nextLocalId(),
+): ChatMessage => ({
+  id,
+  author,
+  body,
+  timestamp: new Date(timeSource ?? Date.now()).toLocaleTimeString([], {
+    hour: 'numeric',
+    minute: '2-digit',
+  }),
+})
+
+type UseSessionChatOptions = {
+  // The page's live session id. Events for any other session are ignored.
+  sessionRef: RefObject<string>
+  userEmail: string
+  // False while the thread is off screen (e.g. a collapsed panel), so incoming
+  // messages are acknowledged as delivered rather than read.
+  visible?: boolean
+}
+
+// The `chat:text:message` pipeline shared by the text lounge and the video
+// lounge's side-channel: optimistic sends re-keyed by `chat:text:sent`,
+// delivery/read receipts, typing indicators and moderation warnings.
+export const useSessionChat = ({ sessionRef, userEmail, visible = true }: UseSessionChatOptions) => {
+  const { socket, status: socketStatus, send: sendSocket } = useSocket()
+  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [draft, setDraft] = useState('')
+  const [partnerTyping, setPartnerTyping] = useState(false)
+  const typingRef = useRef(false)
+  const typingTimerRef = useRef<number | null>(null)
+  const partnerTypingTimerRef = useRef<number | null>(null)
+  const unreadIdsRef = useRef<string[]>([])
+  const visibleRef = useRef(visible)
+  const realtimeReady = socketStatus === 'connected' && !!socket
+
+  const clearTypingTimers = useCallback(() => {
+    if (typingTimerRef.current) {
+      clearTimeout(typingTimerRef.current)
+      typingTimerRef.current = null
+    }
+    if (partnerTypingTimerRef.current) {
+      clearTimeout(partnerTypingTimerRef.current)
+      partnerTypingTimerRef.current = null
+    }
+  }, [])
+
+  useEffect(() => clearTypingTimers, [clearTypingTimers])
+
+  const flushReadReceipts = useCallback(() => {
+    if (!visibleRef.current || document.visibilityState !== 'visible') return
+    if (!unreadIdsRef.current.length) return
+    if (sessionRef.current) {
+      sendSocket('chat:receipt', {
+        sessionId: sessionRef.current,
+        messageIds: unreadIdsRef.current,
+        status: 'read',
+      })
+    }
+    unreadIdsRef.current = []
+  }, [sendSocket, sessionRef])
+
+  useEffect(() => {
+    visibleRef.current = visible
+    flushReadReceipts()
+  }, [flushReadReceipts, visible])
+
+  useEffect(() => {
+    document.addEventListener('visibilitychange', flushReadReceipts)
+    return () => document.removeEventListener('visibilitychange', flushReadReceipts)
+  }, [flushReadReceipts])
+
+  const stopTyping = useCallback(() => {
+    if (typingTimerRef.current) {
+      clearTimeout(typingTimerRef.current)
+      typingTimerRef.current = null
+    }
+    if (!typingRef.current) return
+    typingRef.current = false
+    if (sessionRef.current) {
+      sendSocket('chat:typing', { sessionId: sessionRef.current, typing: false })
+    }
+  }, [sendSocket, sessionRef])
+
+  const updateDraft = useCallback(
+    (value: string) => {
+      setDraft(value)
+      if (!realtimeReady || !sessionRef.current) return
+      if (!value.trim()) {
+        stopTyping()
+        return
+      }
+      if (!typingRef.current) {
+        typingRef.current = true
+        sendSocket('chat:typing', { sessionId: sessionRef.current, typing: true })
+      }
+      if (typingTimerRef.current) clearTimeout(typingTimerRef.current)
+      typingTimerRef.current = window.setTimeout(stopTyping, TYPING_IDLE_MS)
+    },
+    [realtimeReady, sendSocket, sessionRef, stopTyping],
+  )
+
+  // Returns the trimmed draft and clears the composer.
+  const takeDraft = useCallback(() => {
+    const body = draft.trim()
+    setDraft('')
+    stopTyping()
+    return body
+  }, [draft, stopTyping])
+
+  const sendMessage = useCallback(
+    (body: string) => {
+      if (!sessionRef.current) return
+      const optimistic: ChatMessage = { ...createMessage('user', body), delivery: 'sending' }
+      setMessages((current) => [...current, optimistic])
+      sendSocket('chat:text:message', {
+        sessionId: sessionRef.current,
+        body,
+        clientId: optimistic.id,
+      })
+    },
+    [sendSocket, sessionRef],
+  )
+
+  const addNote = useCallback((body: string) => {
+    setMessages((current) => [...current, createMessage('partner', body)])
+  }, [])
+
+  const resetChat = useCallback(
+    (initial: ChatMessage[] = []) => {
+      clearTypingTimers()
+      typingRef.current = false
+      unreadIdsRef.current = []
+      setPartnerTyping(false)
+      setMessages(initial)
+    },
+    [clearTypingTimers],
+  )
+
+  useEffect(() => {
+    if (!socket) return
+
+    const handleIncomingMessage = ({
+      id,
+      sessionId: incomingSession,
+      body,
+      from,
+      timestamp,
+    }: TextMessagePayload) => {
+      if (incomingSession !== sessionRef.current) return
+      const author: ChatMessage['author'] = from === userEmail ? 'user' : 'partner'
+      setPartnerTyping(false)
+      setMessages((current) => [...current, createMessage(author, body, timestamp, id)])
+
+      const read = visibleRef.current && document.visibilityState === 'visible'
+      if (!read) unreadIdsRef.current.push(id)
+      sendSocket('chat:receipt', {
+        sessionId: incomingSession,
+        messageIds: [id],
+        status: read ? 'read' : 'delivered',
+      })
+    }
+
+    // Swap the optimistic bubble's local id for the server-assigned one.
+    const handleSent = ({ sessionId: incomingSession, clientId, id }: TextMessageSentPayload) => {
+      if (incomingSession !== sessionRef.current || !clientId) return
+      setMessages((current) =>
+        current.map((message) =>
+          message.id === clientId ? { ...message, id, delivery: 'sent' } : message,
+        ),
+      )
+    }
+
+    const handleReceipt = ({ sessionId: incomingSession, messageIds, status }: ReceiptPayload) => {
+      if (incomingSession !== sessionRef.current) return
+      const ids = new Set(messageIds)
+      setMessages((current) =>
+        current.map((message) =>
+          message.author === 'user' &&
+          ids.has(message.id) &&
+          DELIVERY_RANK[status] > DELIVERY_RANK[message.delivery ?? 'sending']
+            ? { ...message, delivery: status }
+            : message,
+        ),
+      )
+    }
+
+    const handleTyping = ({ sessionId: incomingSession, typing }: TypingPayload) => {
+      if (incomingSession !== sessionRef.current) return
+      if (partnerTypingTimerRef.current) {
+        clearTimeout(partnerTypingTimerRef.current)
+        partnerTypingTimerRef.current = null
+      }
+      setPartnerTyping(typing)
+      if (typing) {
+        partnerTypingTimerRef.current = window.setTimeout(() => setPartnerTyping(false), TYPING_STALE_MS)
+      }
+    }
+
+    const handleWarning = (payload: SystemWarningPayload) => {
+      if (!payload?.message || payload.sessionId !== sessionRef.current) return
+      setMessages((current) => [
+        ...current.map((message) =>
+          payload.clientId && message.id === payload.clientId ? { ...message, delivery: 'failed' as const } : message,
+        ),
+        createMessage('partner', `⚠️ ${payload.message}`),
+      ])
+    }
+
+    socket.on('chat:text:message', handleIncomingMessage)
+    socket.on('chat:text:sent', handleSent)
+    socket.on('chat:receipt', handleReceipt)
+    socket.on('chat:typing', handleTyping)
+    socket.on('system:warning', handleWarning)
+
+    return () => {
+      socket.off('chat:text:message', handleIncomingMessage)
+      socket.off('chat:text:sent', handleSent)
+      socket.off('chat:receipt', handleReceipt)
+      socket.off('chat:typing', handleTyping)
+      socket.off('system:warning', handleWarning)
+    }
+  }, [sendSocket, sessionRef, socket, userEmail])
+
+  return {
+    messages,
+    setMessages,
+    partnerTyping,
+    draft,
+    updateDraft,
+    takeDraft,
+    sendMessage,
+    addNote,
+    resetChat,
+  }
+}
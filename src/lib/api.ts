@@ -1,28 +1,164 @@
+import type { ReportCategory } from '../types'
+
 const API_URL = import.meta.env.VITE_API_URL ?? 'http://localhost:4000'
 
 type Json = Record<string, unknown>
 
-const post = async <T>(path: string, body: Json): Promise<T> => {
-  const res = await fetch(`${API_URL}${path}`, {
+// Carries the HTTP status so callers can branch on e.g. 403 (banned).
+export class ApiError extends Error {
+  status: number
+  // The full error body, for endpoints that send more than `error`.
+  data: Json
+
+  constructor(message: string, status: number, data: Json = {}) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+    this.data = data
+  }
+}
+
+const request = async <T>(path: string, init: RequestInit): Promise<T> => {
+  const res = await fetch(`${API_URL}${path}`, init)
+  const data = (await res.json().catch(() => ({}))) as T & { error?: string }
+  if (!res.ok) {
+    throw new ApiError(data.error || 'Request failed. Try again.', res.status, data)
+  }
+  return data
+}
+
+const post = <T>(path: string, body: Json): Promise<T> =>
+  request<T>(path, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(body),
   })
-  const data = (await res.json().catch(() => ({}))) as T & { error?: string }
-  if (!res.ok) {
-    throw new Error(data.error || 'Request failed. Try again.')
+
+// Registered by AuthContext. Resolves a fresh access token, or null once the
+// session is gone.
+type AccessTokenRefresher = () => Promise<string | null>
+let refreshAccessToken: AccessTokenRefresher | null = null
+
+export const setAccessTokenRefresher = (refresher: AccessTokenRefresher | null) => {
+  refreshAccessToken = refresher
+}
+
+// Same as request(), with the session JWT attached for the protected routes.
+// A 401 gets one retry with a refreshed token, for an access token that
+// expired mid-flight or while the tab slept.
+const authed = async <T>(token: string, path: string, init: RequestInit = {}): Promise<T> => {
+  const send = (accessToken: string) =>
+    request<T>(path, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Bearer ${accessToken}` },
+    })
+  try {
+    return await send(token)
+  } catch (err) {
+    if (!(err instanceof ApiError) || err.status !== 401 || !refreshAccessToken) throw err
+    const next = await refreshAccessToken()
+    if (!next) throw err
+    return send(next)
   }
-  return data
 }
 
 export type RequestCodeResponse = { ok: true; expiresInSec: number }
-export type VerifyCodeResponse = {
+// `token` is the short-lived access JWT; `expiresIn` is its lifetime in seconds.
+export type SessionTokens = { token: string; refreshToken: string; expiresIn: number }
+export type VerifyCodeResponse = SessionTokens & {
   ok: true
-  token: string
-  user: { email: string; name: string; interests: string[] }
+  user: { email: string; name: string; interests: string[]; staff?: boolean }
+}
+
+export type BlockedUser = { email: string; blockedAt: string }
+export type BlockListResponse = { blocks: BlockedUser[] }
+
+export type ReportTranscriptEntry = {
+  id?: string
+  from: string
+  body: string
+  at: number
+  // Moderation reason when the filter kept the message from being delivered.
+  blocked?: string
+}
+export type AdminReport = {
+  id: string
+  reporterEmail: string
+  targetEmail: string
+  sessionId: string | null
+  category: ReportCategory | null
+  note: string | null
+  transcript: ReportTranscriptEntry[]
+  // How much the report counted toward a suspension (reporter trust).
+  weight: number
+  pattern: 'reciprocal' | 'brigade' | null
+  createdAt: string
+}
+export type FlaggedSession = {
+  id: string
+  mode: 'text' | 'video'
+  userA: string
+  userB: string
+  startedAt: string
+  endedAt: string | null
+  endedBy: string | null
+  flaggedReason: string
+}
+export type BannedUser = {
+  email: string
+  likes: number
+  dislikes: number
+  reports: number
+  bannedAt: string | null
+  bannedUntil: string | null
+}
+export type AppealStatus = 'pending' | 'approved' | 'denied'
+export type BanAppeal = {
+  id: string
+  email: string
+  message: string
+  status: AppealStatus
+  staffResponse: string | null
+  reviewedBy: string | null
+  reviewedAt: string | null
+  createdAt: string
+}
+export type AdminOverviewResponse = {
+  reports: AdminReport[]
+  flaggedSessions: FlaggedSession[]
+  bannedUsers: BannedUser[]
+  appeals: BanAppeal[]
+}
+export type StaffNote = { id: string; authorEmail: string; body: string; createdAt: string }
+
+// Mirrors getReputationPolicy() in backend/lib/reputation.js.
+export type ReputationPolicy = {
+  reportThreshold: number
+  dislikeThreshold: number
+  decayWindowsDays: Record<string, number>
+  suspensionStepsHours: number[]
+}
+
+export const getReputationPolicy = () =>
+  request<ReputationPolicy>('/config/reputation', { method: 'GET' })
+
+// An email the backend kept instead of sending (EMAIL_TRANSPORT=outbox).
+export type OutboxEmail = {
+  id: string
+  from: string
+  to: string
+  subject: string
+  html: string
+  text: string
+  sentAt: string
 }
 
-export const requestCode = (payload: { name: string; email: string }) =>
+export const getDevOutbox = () => request<{ messages: OutboxEmail[] }>('/dev/outbox', { method: 'GET' })
+
+export const clearDevOutbox = () => request<{ ok: true }>('/dev/outbox', { method: 'DELETE' })
+
+// `interests` ride along in the email's sign-in link.
+export const requestCode = (payload: { name: string; email: string; interests?: string[] }) =>
   post<RequestCodeResponse>('/auth/request-code', payload)
 
 export const verifyCode = (payload: {
@@ -31,3 +167,71 @@ export const verifyCode = (payload: {
   code: string
   interests: string[]
 }) => post<VerifyCodeResponse>('/auth/verify-code', payload)
+
+export const verifyLink = (payload: { token: string }) =>
+  post<VerifyCodeResponse>('/auth/verify-link', payload)
+
+// Refresh tokens are single-use: the response carries the next one.
+export const refreshSession = (refreshToken: string) =>
+  post<SessionTokens & { ok: true }>('/auth/refresh', { refreshToken })
+
+export const logoutSession = (refreshToken: string) => post<{ ok: true }>('/auth/logout', { refreshToken })
+
+export const requestAppealCode = (payload: { email: string }) =>
+  post<RequestCodeResponse>('/appeals/request-code', payload)
+
+export const submitAppeal = (payload: { email: string; code: string; message: string }) =>
+  post<{ ok: true }>('/appeals', payload)
+
+export const listBlocks = (token: string) => authed<BlockListResponse>(token, '/blocks')
+
+export const removeBlock = (token: string, email: string) =>
+  authed<{ ok: true }>(token, `/blocks/${encodeURIComponent(email)}`, { method: 'DELETE' })
+
+const adminUserPath = (email: string, action: string) =>
+  `/admin/users/${encodeURIComponent(email)}/${action}`
+
+const authedPost = <T>(token: string, path: string, body: Json = {}) =>
+  authed<T>(token, path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+
+// `relay` is false when the server has no TURN configured; `ttlSec` is how
+// long the TURN credentials in `iceServers` stay valid.
+export type IceServersResponse = { iceServers: RTCIceServer[]; relay: boolean; ttlSec: number }
+
+export const getIceServers = (token: string) => authed<IceServersResponse>(token, '/rtc/ice-servers')
+
+export const logoutAllDevices = (token: string) => authedPost<{ ok: true }>(token, '/auth/logout-all')
+
+export const getAdminOverview = (token: string) =>
+  authed<AdminOverviewResponse>(token, '/admin/overview')
+
+export const dismissReport = (token: string, id: string) =>
+  authedPost<{ ok: true }>(token, `/admin/reports/${encodeURIComponent(id)}/dismiss`)
+
+export const banUser = (token: string, email: string, reason: string) =>
+  authedPost<{ ok: true }>(token, adminUserPath(email, 'ban'), { reason })
+
+export const unbanUser = (token: string, email: string) =>
+  authedPost<{ ok: true }>(token, adminUserPath(email, 'unban'))
+
+export const listStaffNotes = (token: string, email: string) =>
+  authed<{ notes: StaffNote[] }>(token, adminUserPath(email, 'notes'))
+
+export const decideAppeal = (
+  token: string,
+  id: string,
+  decision: Exclude<AppealStatus, 'pending'>,
+  response: string,
+) =>
+  authedPost<{ ok: true; appeal: BanAppeal; emailed: boolean }>(
+    token,
+    `/admin/appeals/${encodeURIComponent(id)}/decide`,
+    { decision, response },
+  )
+
+export const addStaffNote = (token: string, email: string, body: string) =>
+  authedPost<{ note: StaffNote }>(token, adminUserPath(email, 'notes'), { body })
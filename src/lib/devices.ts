@@ -0,0 +1,55 @@
+// Camera, microphone, and speaker choices, remembered per browser. Unset
+// means the browser default.
+export type DevicePreferences = {
+  cameraId?: string
+  micId?: string
+  speakerId?: string
+}
+
+export type DeviceKind = keyof DevicePreferences
+
+const DEVICES_KEY = 'bc.devices'
+
+export const loadDevicePreferences = (): DevicePreferences => {
+  try {
+    const raw = localStorage.getItem(DEVICES_KEY)
+    return raw ? (JSON.parse(raw) as DevicePreferences) : {}
+  } catch {
+    return {}
+  }
+}
+
+export const saveDevicePreferences = (preferences: DevicePreferences) => {
+  localStorage.setItem(DEVICES_KEY, JSON.stringify(preferences))
+}
+
+// `ideal` rather than `exact`: a remembered device that has been unplugged
+// falls back to the default instead of failing getUserMedia.
+const deviceConstraint = (deviceId?: string): MediaTrackConstraints | true =>
+  deviceId ? { deviceId: { ideal: deviceId } } : true
+
+export const videoConstraints = (preferences: DevicePreferences) => deviceConstraint(preferences.cameraId)
+
+export const audioConstraints = (preferences: DevicePreferences) => deviceConstraint(preferences.micId)
+
+// Chrome and Edge can route a media element to a chosen output; Firefox only
+// behind a flag, Safari not at all.
+export const canSelectSpeaker = () =>
+  typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype
+
+// getUserMedia failures in words the user can act on.
+export const describeMediaError = (error: unknown) => {
+  switch (error instanceof DOMException ? error.name : '') {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return 'Camera access is blocked. Allow the camera for this site from the icon in your address bar, then try again.'
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return 'No camera was found. Plug one in and try again.'
+    case 'NotReadableError':
+    case 'AbortError':
+      return 'Your camera is in use by another app. Close it and try again.'
+    default:
+      return 'Unable to access your camera. Please allow permissions and try again.'
+  }
+}
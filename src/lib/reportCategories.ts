@@ -0,0 +1,13 @@
+import type { ReportCategory } from '../types'
+
+export const REPORT_CATEGORIES: { value: ReportCategory; label: string; hint: string }[] = [
+  { value: 'harassment', label: 'Harassment', hint: 'Insults, threats, or targeting someone.' },
+  { value: 'sexual', label: 'Sexual content', hint: 'Nudity, explicit messages, or unwanted advances.' },
+  { value: 'hate', label: 'Hate speech', hint: 'Attacks on identity, race, religion, or orientation.' },
+  { value: 'spam', label: 'Spam or scams', hint: 'Ads, links, or asking for money or accounts.' },
+  { value: 'underage', label: 'Underage user', hint: 'They appear to be under 18.' },
+  { value: 'other', label: 'Something else', hint: 'Explain in the note below.' },
+]
+
+export const reportCategoryLabel = (value: ReportCategory | null | undefined) =>
+  REPORT_CATEGORIES.find((category) => category.value === value)?.label ?? 'Uncategorized'
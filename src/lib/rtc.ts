@@ -0,0 +1,144 @@
+// Used until GET /rtc/ice-servers answers, and if it can't be reached.
+export const DEFAULT_RTC_CONFIGURATION: RTCConfiguration = {
+  iceServers: [{ urls: 'stun:stun.l.google.com:19302' }],
+}
+
+export type IceCandidateType = 'host' | 'srflx' | 'prflx' | 'relay'
+
+// Candidate type from the SDP line ("… typ relay …"). Signaled candidates
+// arrive as plain init objects, so the `type` field isn't available on both
+// sides.
+export const candidateType = (candidate: RTCIceCandidateInit | null): IceCandidateType | null => {
+  const match = candidate?.candidate?.match(/ typ (host|srflx|prflx|relay)/)
+  return match ? (match[1] as IceCandidateType) : null
+}
+
+// Explains why ICE gave up, from the candidate types each side gathered.
+// `relayConfigured` is null while the server's ICE list is still unknown.
+export const diagnoseIceFailure = ({
+  relayConfigured,
+  local,
+  remote,
+}: {
+  relayConfigured: boolean | null
+  local: ReadonlySet<IceCandidateType>
+  remote: ReadonlySet<IceCandidateType>
+}): string => {
+  if (!local.size) {
+    return 'Your browser did not offer any network routes. A VPN, firewall, or privacy setting may be blocking WebRTC.'
+  }
+  if (!relayConfigured) {
+    return 'A direct connection could not be made, and this server has no relay (TURN) configured. One of you is likely behind a strict firewall or NAT, which is common on campus Wi-Fi and VPNs. Try another network, or use text chat.'
+  }
+  if (!local.has('relay')) {
+    return 'Your network could not reach the video relay. Try turning off your VPN or switching networks.'
+  }
+  if (!remote.has('relay')) {
+    return "Your partner's network could not reach the video relay, so there is no path between you. They may need to switch networks."
+  }
+  return 'You both reached the relay, but video still could not get through. Try again, or find a new match.'
+}
+
+// One getStats() reading, reduced to what the call overlay shows. Rates and
+// inbound loss are measured against the previous reading.
+export type CallStats = {
+  rttMs: number | null
+  // Loss on what we receive, and on what we send as the partner reports it.
+  receiveLossPercent: number | null
+  sendLossPercent: number | null
+  receiveKbps: number | null
+  sendKbps: number | null
+  // Incoming video, e.g. "640×360".
+  resolution: string | null
+}
+
+export type StatsCounters = {
+  at: number
+  bytesReceived: number
+  bytesSent: number
+  packetsReceived: number
+  packetsLost: number
+}
+
+// Not in lib.dom yet.
+type RemoteInboundRtpStats = RTCStats & { kind?: string; fractionLost?: number }
+
+const kbps = (bytes: number, ms: number) => (ms > 0 ? Math.round((bytes * 8) / ms) : null)
+
+export const summarizeStats = (
+  report: RTCStatsReport,
+  previous: StatsCounters | null,
+): { stats: CallStats; counters: StatsCounters } => {
+  const counters: StatsCounters = { at: 0, bytesReceived: 0, bytesSent: 0, packetsReceived: 0, packetsLost: 0 }
+  let rttMs: number | null = null
+  let sendLossPercent: number | null = null
+  let resolution: string | null = null
+
+  report.forEach((entry: RTCStats) => {
+    counters.at = Math.max(counters.at, entry.timestamp)
+    if (entry.type === 'inbound-rtp') {
+      const inbound = entry as RTCInboundRtpStreamStats
+      counters.bytesReceived += inbound.bytesReceived ?? 0
+      counters.packetsReceived += inbound.packetsReceived ?? 0
+      counters.packetsLost += inbound.packetsLost ?? 0
+      if (inbound.kind === 'video' && inbound.frameWidth && inbound.frameHeight) {
+        resolution = `${inbound.frameWidth}×${inbound.frameHeight}`
+      }
+    } else if (entry.type === 'outbound-rtp') {
+      counters.bytesSent += (entry as RTCOutboundRtpStreamStats).bytesSent ?? 0
+    } else if (entry.type === 'remote-inbound-rtp') {
+      const remote = entry as RemoteInboundRtpStats
+      if (remote.kind === 'video' && typeof remote.fractionLost === 'number') {
+        sendLossPercent = Math.round(remote.fractionLost * 1000) / 10
+      }
+    } else if (entry.type === 'candidate-pair') {
+      const pair = entry as RTCIceCandidatePairStats
+      if (pair.nominated && pair.state === 'succeeded' && typeof pair.currentRoundTripTime === 'number') {
+        rttMs = Math.round(pair.currentRoundTripTime * 1000)
+      }
+    }
+  })
+
+  let receiveLossPercent: number | null = null
+  let receiveKbps: number | null = null
+  let sendKbps: number | null = null
+  if (previous) {
+    const elapsed = counters.at - previous.at
+    receiveKbps = kbps(counters.bytesReceived - previous.bytesReceived, elapsed)
+    sendKbps = kbps(counters.bytesSent - previous.bytesSent, elapsed)
+    const received = counters.packetsReceived - previous.packetsReceived
+    const lost = counters.packetsLost - previous.packetsLost
+    if (received + lost > 0) receiveLossPercent = Math.round((Math.max(lost, 0) / (received + lost)) * 1000) / 10
+  }
+
+  return {
+    stats: { rttMs, receiveLossPercent, sendLossPercent, receiveKbps, sendKbps, resolution },
+    counters,
+  }
+}
+
+// Caps for the outgoing video, best first. The adaptive loop steps down this
+// list under loss; low bandwidth mode pins the last entry.
+export type SenderProfile = 'full' | 'reduced' | 'low'
+
+type SenderCaps = Pick<RTCRtpEncodingParameters, 'maxBitrate' | 'scaleResolutionDownBy' | 'maxFramerate'>
+
+export const SENDER_PROFILES: Record<SenderProfile, SenderCaps> = {
+  full: { scaleResolutionDownBy: 1 },
+  reduced: { maxBitrate: 500_000, scaleResolutionDownBy: 2 },
+  low: { maxBitrate: 150_000, scaleResolutionDownBy: 4, maxFramerate: 15 },
+}
+
+export const SENDER_PROFILE_ORDER: SenderProfile[] = ['full', 'reduced', 'low']
+
+// Rewrites the first encoding in place. Fields a profile leaves out are
+// cleared, so stepping back up removes the caps.
+export const applySenderProfile = async (sender: RTCRtpSender, profile: SenderProfile) => {
+  const parameters = sender.getParameters()
+  if (!parameters.encodings?.length) parameters.encodings = [{}]
+  const encoding = parameters.encodings[0]
+  delete encoding.maxBitrate
+  delete encoding.maxFramerate
+  Object.assign(encoding, SENDER_PROFILES[profile])
+  await sender.setParameters(parameters)
+}
@@ -0,0 +1,69 @@
+// Outgoing video is pixelated until both partners choose to reveal. The mask
+// is drawn on our side, so clear frames never leave the browser before then.
+export type MaskedTrack = {
+  source: MediaStreamTrack
+  track: MediaStreamTrack
+  stop: () => void
+}
+
+const MASK_FPS = 15
+const OUTPUT_WIDTH = 320
+// Blocks across the frame: enough to show someone is there, not who.
+const PIXELS_ACROSS = 20
+
+// Redraws `source` through a canvas: shrunk to a handful of pixels, then
+// scaled back up without smoothing. Where canvas capture isn't supported the
+// partner gets black frames from a disabled clone instead.
+export const createMaskedTrack = (source: MediaStreamTrack): MaskedTrack => {
+  const canvas = document.createElement('canvas')
+  const small = document.createElement('canvas')
+  const context = canvas.getContext('2d')
+  const smallContext = small.getContext('2d')
+  if (!context || !smallContext || typeof canvas.captureStream !== 'function') {
+    const blank = source.clone()
+    blank.enabled = false
+    return { source, track: blank, stop: () => blank.stop() }
+  }
+
+  const video = document.createElement('video')
+  video.muted = true
+  video.playsInline = true
+  video.srcObject = new MediaStream([source])
+  void video.play().catch(() => {
+    /* frames stay black until it plays */
+  })
+
+  const draw = () => {
+    const width = video.videoWidth || 640
+    const height = video.videoHeight || 480
+    const outputHeight = Math.round((OUTPUT_WIDTH * height) / width)
+    if (canvas.width !== OUTPUT_WIDTH || canvas.height !== outputHeight) {
+      canvas.width = OUTPUT_WIDTH
+      canvas.height = outputHeight
+      small.width = PIXELS_ACROSS
+      small.height = Math.max(1, Math.round((PIXELS_ACROSS * height) / width))
+    }
+    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !source.enabled) {
+      context.fillStyle = '#000'
+      context.fillRect(0, 0, canvas.width, canvas.height)
+      return
+    }
+    smallContext.drawImage(video, 0, 0, small.width, small.height)
+    context.imageSmoothingEnabled = false
+    context.drawImage(small, 0, 0, canvas.width, canvas.height)
+  }
+
+  draw()
+  const interval = window.setInterval(draw, 1000 / MASK_FPS)
+  const [track] = canvas.captureStream(MASK_FPS).getVideoTracks()
+
+  return {
+    source,
+    track,
+    stop: () => {
+      window.clearInterval(interval)
+      track.stop()
+      video.srcObject = null
+    },
+  }
+}
@@ -0,0 +1,263 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import AdminUserPanel from '../components/AdminUserPanel'
+import AppealReviewCard from '../components/AppealReviewCard'
+import { useAuth } from '../context/AuthContext'
+import { dismissReport, getAdminOverview, type AdminOverviewResponse } from '../lib/api'
+import { reportCategoryLabel } from '../lib/reportCategories'
+import type { UserProfile } from '../types'
+
+type AdminPageProps = {
+  user: UserProfile
+  onLogout: () => void
+}
+
+const emptyOverview: AdminOverviewResponse = {
+  reports: [],
+  flaggedSessions: [],
+  bannedUsers: [],
+  appeals: [],
+}
+
+const formatWhen = (iso: string | null) =>
+  iso
+    ? new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+    : '—'
+
+const AdminPage = ({ user, onLogout }: AdminPageProps) => {
+  const navigate = useNavigate()
+  const { token } = useAuth()
+  const [overview, setOverview] = useState<AdminOverviewResponse>(emptyOverview)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [reloadKey, setReloadKey] = useState(0)
+  const [selectedEmail, setSelectedEmail] = useState<string | null>(null)
+  const [dismissing, setDismissing] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!token) return
+    let cancelled = false
+    getAdminOverview(token)
+      .then((next) => {
+        if (!cancelled) {
+          setOverview(next)
+          setError('')
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load the dashboard.')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [reloadKey, token])
+
+  const refresh = () => {
+    setLoading(true)
+    setReloadKey((key) => key + 1)
+  }
+
+  const handleDismiss = async (id: string) => {
+    if (!token || dismissing) return
+    setDismissing(id)
+    setError('')
+    try {
+      await dismissReport(token, id)
+      setOverview((current) => ({
+        ...current,
+        reports: current.reports.filter((report) => report.id !== id),
+      }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not dismiss the report.')
+    } finally {
+      setDismissing(null)
+    }
+  }
+
+  // Approvals lift the ban server-side, so reload rather than patching lists.
+  const handleAppealDecided = (id: string) => {
+    setOverview((current) => ({
+      ...current,
+      appeals: current.appeals.filter((appeal) => appeal.id !== id),
+    }))
+    refresh()
+  }
+
+  const bannedEmails = new Set(overview.bannedUsers.map((entry) => entry.email))
+
+  const reviewButton = (email: string) => (
+    <button type="button" className="ghost" onClick={() => setSelectedEmail(email)}>
+      Review
+    </button>
+  )
+
+  return (
+    <div className="page admin-page">
+      <div className="page-card admin-card">
+        <div className="chat-header">
+          <div>
+            <p className="eyebrow">Staff · {user.email}</p>
+            <h1>Moderation dashboard</h1>
+            <p className="subtitle">
+              {loading
+                ? 'Loading the moderation queue…'
+                : `${overview.reports.length} open report(s) · ${overview.appeals.length} pending appeal(s) · ${overview.flaggedSessions.length} flagged session(s) · ${overview.bannedUsers.length} banned`}
+            </p>
+          </div>
+          <div className="chat-actions">
+            <button type="button" className="ghost" onClick={onLogout}>
+              Sign out
+            </button>
+            <button type="button" className="ghost" onClick={refresh} disabled={loading}>
+              Refresh
+            </button>
+            <button type="button" className="secondary" onClick={() => navigate('/mode')}>
+              Back to mode select
+            </button>
+          </div>
+        </div>
+
+        {error && <p className="helper emphasis danger">{error}</p>}
+
+        {selectedEmail && (
+          <AdminUserPanel
+            key={selectedEmail}
+            email={selectedEmail}
+            banned={bannedEmails.has(selectedEmail)}
+            onChanged={refresh}
+            onClose={() => setSelectedEmail(null)}
+          />
+        )}
+
+        <section className="admin-section">
+          <h3>Open reports</h3>
+          {overview.reports.length ? (
+            <ul className="admin-list">
+              {overview.reports.map((report) => (
+                <li key={report.id}>
+                  <div>
+                    <p className="summary-value">
+                      <span className="pill">{reportCategoryLabel(report.category)}</span>
+                      {report.pattern && <span className="pill">{report.pattern}</span>} {report.targetEmail}
+                    </p>
+                    <p className="helper muted">
+                      Reported by {report.reporterEmail} · {formatWhen(report.createdAt)} · weight{' '}
+                      {report.weight.toFixed(2)}
+                      {report.sessionId && ` · session ${report.sessionId}`}
+                    </p>
+                    {report.note && <p className="helper">“{report.note}”</p>}
+                    {report.transcript.length > 0 && (
+                      <details className="report-transcript">
+                        <summary>Transcript ({report.transcript.length} messages)</summary>
+                        <ol>
+                          {report.transcript.map((entry, index) => (
+                            <li key={entry.id ?? index} className={entry.blocked ? 'blocked' : undefined}>
+                              <span className="summary-label">
+                                {entry.from === report.targetEmail ? 'Reported user' : entry.from} ·{' '}
+                                {new Date(entry.at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                                {entry.blocked && ` · blocked (${entry.blocked})`}
+                              </span>
+                              <p>{entry.body}</p>
+                            </li>
+                          ))}
+                        </ol>
+                      </details>
+                    )}
+                  </div>
+                  <div className="admin-list-actions">
+                    {reviewButton(report.targetEmail)}
+                    <button
+                      type="button"
+                      className="secondary"
+                      onClick={() => handleDismiss(report.id)}
+                      disabled={dismissing === report.id}
+                    >
+                      {dismissing === report.id ? 'Dismissing…' : 'Dismiss'}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="helper muted">{loading ? 'Loading…' : 'No open reports.'}</p>
+          )}
+        </section>
+
+        <section className="admin-section">
+          <h3>Ban appeals</h3>
+          {overview.appeals.length ? (
+            <ul className="admin-list">
+              {overview.appeals.map((appeal) => (
+                <AppealReviewCard
+                  key={appeal.id}
+                  appeal={appeal}
+                  onDecided={handleAppealDecided}
+                  onReview={setSelectedEmail}
+                />
+              ))}
+            </ul>
+          ) : (
+            <p className="helper muted">{loading ? 'Loading…' : 'No pending appeals.'}</p>
+          )}
+        </section>
+
+        <section className="admin-section">
+          <h3>Flagged sessions</h3>
+          {overview.flaggedSessions.length ? (
+            <ul className="admin-list">
+              {overview.flaggedSessions.map((session) => (
+                <li key={session.id}>
+                  <div>
+                    <p className="summary-value">
+                      <span className="pill">{session.flaggedReason}</span> {session.mode} ·{' '}
+                      {formatWhen(session.startedAt)}
+                    </p>
+                    <p className="helper muted">
+                      {session.userA} ↔ {session.userB}
+                      {session.endedBy && ` · ended by ${session.endedBy}`}
+                    </p>
+                  </div>
+                  <div className="admin-list-actions">
+                    {reviewButton(session.userA)}
+                    {reviewButton(session.userB)}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="helper muted">{loading ? 'Loading…' : 'No flagged sessions.'}</p>
+          )}
+        </section>
+
+        <section className="admin-section">
+          <h3>Banned users</h3>
+          {overview.bannedUsers.length ? (
+            <ul className="admin-list">
+              {overview.bannedUsers.map((entry) => (
+                <li key={entry.email}>
+                  <div>
+                    <p className="summary-value">{entry.email}</p>
+                    <p className="helper muted">
+                      {entry.bannedUntil
+                        ? `Suspended until ${formatWhen(entry.bannedUntil)}`
+                        : `Banned ${formatWhen(entry.bannedAt)}`}{' '}
+                      · {entry.reports} recent report(s) · {entry.dislikes} recent dislike(s)
+                    </p>
+                  </div>
+                  <div className="admin-list-actions">{reviewButton(entry.email)}</div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="helper muted">{loading ? 'Loading…' : 'Nobody is banned.'}</p>
+          )}
+        </section>
+      </div>
+    </div>
+  )
+}
+
+export default AdminPage
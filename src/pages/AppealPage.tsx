@@ -0,0 +1,142 @@
+import { useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import type { FormEvent } from 'react'
+import { requestAppealCode, submitAppeal } from '../lib/api'
+
+const APPEAL_MAX_LENGTH = 2000
+
+type AppealStep = 'details' | 'code' | 'done'
+
+const AppealPage = () => {
+  const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const [step, setStep] = useState<AppealStep>('details')
+  const [email, setEmail] = useState(() => searchParams.get('email') ?? '')
+  const [message, setMessage] = useState('')
+  const [code, setCode] = useState('')
+  const [error, setError] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const trimmedEmail = email.trim().toLowerCase()
+
+  const handleRequestCode = async (event: FormEvent) => {
+    event.preventDefault()
+    setError('')
+    if (!/^([a-z0-9_.+-]+)@wisc\.edu$/i.test(trimmedEmail)) {
+      setError('Enter the @wisc.edu email that was banned.')
+      return
+    }
+    if (!message.trim()) {
+      setError('Tell us why the ban should be lifted.')
+      return
+    }
+    setSubmitting(true)
+    try {
+      await requestAppealCode({ email: trimmedEmail })
+      setStep('code')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not send the code. Try again.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleSubmitAppeal = async (event: FormEvent) => {
+    event.preventDefault()
+    setError('')
+    setSubmitting(true)
+    try {
+      await submitAppeal({ email: trimmedEmail, code: code.trim(), message: message.trim() })
+      setStep('done')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not submit the appeal. Try again.')
+      setCode('')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="page page-login">
+      <div className="page-card login-card">
+        <header className="page-header">
+          <p className="eyebrow">Ban appeal</p>
+          <h1>{step === 'done' ? 'Appeal received' : 'Appeal your ban'}</h1>
+          <p className="subtitle">
+            {step === 'details'
+              ? 'Explain what happened. A moderator reviews every appeal and emails you the decision.'
+              : step === 'code'
+                ? `We sent a 6-digit code to ${trimmedEmail} to confirm the appeal is yours.`
+                : `Thanks. We'll email ${trimmedEmail} once a moderator has reviewed your appeal.`}
+          </p>
+        </header>
+
+        {step === 'details' && (
+          <form className="login-form" onSubmit={handleRequestCode}>
+            <label>
+              UW–Madison email
+              <input
+                type="email"
+                value={email}
+                onChange={(event) => setEmail(event.target.value)}
+                placeholder="netid@wisc.edu"
+                inputMode="email"
+                autoComplete="email"
+                required
+              />
+            </label>
+            <label>
+              Your explanation
+              <textarea
+                className="appeal-message"
+                value={message}
+                onChange={(event) => setMessage(event.target.value)}
+                maxLength={APPEAL_MAX_LENGTH}
+                rows={6}
+                placeholder="What happened, and why should the ban be lifted?"
+                required
+              />
+            </label>
+            <p className="helper muted">
+              {message.length}/{APPEAL_MAX_LENGTH}
+            </p>
+            {error && <p className="form-error">{error}</p>}
+            <button type="submit" className="primary" disabled={submitting}>
+              {submitting ? 'Sending code…' : 'Send verification code'}
+            </button>
+          </form>
+        )}
+
+        {step === 'code' && (
+          <form className="login-form" onSubmit={handleSubmitAppeal}>
+            <label>
+              Verification code
+              <input
+                type="text"
+                value={code}
+                onChange={(event) => setCode(event.target.value.replace(/\D/g, '').slice(0, 6))}
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                required
+              />
+            </label>
+            {error && <p className="form-error">{error}</p>}
+            <button type="submit" className="primary" disabled={submitting || code.length !== 6}>
+              {submitting ? 'Submitting…' : 'Submit appeal'}
+            </button>
+            <button type="button" className="ghost" onClick={() => setStep('details')} disabled={submitting}>
+              Edit appeal
+            </button>
+          </form>
+        )}
+
+        <button type="button" className="ghost" onClick={() => navigate('/', { replace: true })}>
+          Back to sign in
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default AppealPage
@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { clearDevOutbox, getDevOutbox, type OutboxEmail } from '../lib/api'
+
+// Polled rather than pushed: it's a dev tool, and the backend keeps no
+// listeners for it.
+const POLL_MS = 3000
+
+const DevOutboxPage = () => {
+  const navigate = useNavigate()
+  const [messages, setMessages] = useState<OutboxEmail[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [clearing, setClearing] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    const load = () => {
+      getDevOutbox()
+        .then(({ messages: next }) => {
+          if (cancelled) return
+          setMessages(next)
+          setError('')
+        })
+        .catch((err) => {
+          if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load the outbox.')
+        })
+        .finally(() => {
+          if (!cancelled) setLoading(false)
+        })
+    }
+    load()
+    const interval = window.setInterval(load, POLL_MS)
+    return () => {
+      cancelled = true
+      window.clearInterval(interval)
+    }
+  }, [])
+
+  const handleClear = async () => {
+    setClearing(true)
+    try {
+      await clearDevOutbox()
+      setMessages([])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not clear the outbox.')
+    } finally {
+      setClearing(false)
+    }
+  }
+
+  return (
+    <div className="page admin-page">
+      <div className="page-card admin-card">
+        <div className="chat-header">
+          <div>
+            <p className="eyebrow">Development only</p>
+            <h1>Email outbox</h1>
+            <p className="subtitle">
+              Emails the backend would have sent. Sign-in codes show up here a moment after you request them. Needs{' '}
+              <code>NODE_ENV=development</code> and <code>EMAIL_TRANSPORT=outbox</code> in <code>backend/.env</code>.
+            </p>
+          </div>
+          <div className="chat-actions">
+            <button type="button" className="ghost" onClick={handleClear} disabled={clearing || !messages.length}>
+              {clearing ? 'Clearing…' : 'Clear'}
+            </button>
+            <button type="button" className="secondary" onClick={() => navigate('/')}>
+              Back to sign in
+            </button>
+          </div>
+        </div>
+
+        {error && <p className="helper emphasis danger">{error}</p>}
+
+        <section className="admin-section">
+          <h3>{messages.length} email(s)</h3>
+          {messages.length ? (
+            <ul className="admin-list outbox-list">
+              {messages.map((email) => (
+                <li key={email.id}>
+                  <div>
+                    <p className="summary-value">{email.subject}</p>
+                    <p className="helper muted">
+                      To {email.to} ·{' '}
+                      {new Date(email.sentAt).toLocaleTimeString([], {
+                        hour: 'numeric',
+                        minute: '2-digit',
+                        second: '2-digit',
+                      })}
+                    </p>
+                    <pre className="outbox-text">{email.text}</pre>
+                    <details className="outbox-preview">
+                      <summary>HTML preview</summary>
+                      <iframe title={email.subject} srcDoc={email.html} sandbox="" />
+                    </details>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="helper muted">{loading ? 'Loading…' : 'Nothing sent yet.'}</p>
+          )}
+        </section>
+      </div>
+    </div>
+  )
+}
+
+export default DevOutboxPage
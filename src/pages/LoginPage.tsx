@@ -2,7 +2,8 @@ import { useMemo, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import type { FormEvent } from 'react'
 import { useAuth } from '../context/AuthContext'
-import { requestCode } from '../lib/api'
+import { ApiError, requestCode } from '../lib/api'
+import BannedNotice from '../components/BannedNotice'
 import BrandMark from '../components/BrandMark'
 
 const suggestedInterests = [
@@ -41,6 +42,7 @@ const LoginPage = ({ bannedInterests, loadingBannedList }: LoginPageProps) => {
   const [error, setError] = useState('')
   const [submitting, setSubmitting] = useState(false)
   const [agreed, setAgreed] = useState(false)
+  const [banned, setBanned] = useState<{ email: string; bannedUntil: string | null } | null>(null)
 
   const availableInterests = useMemo(() => suggestedInterests, [])
 
@@ -73,6 +75,7 @@ const LoginPage = ({ bannedInterests, loadingBannedList }: LoginPageProps) => {
   const handleSubmit = async (event: FormEvent) => {
     event.preventDefault()
     setError('')
+    setBanned(null)
 
     const trimmedName = name.trim()
     const trimmedEmail = email.trim().toLowerCase()
@@ -94,11 +97,16 @@ const LoginPage = ({ bannedInterests, loadingBannedList }: LoginPageProps) => {
 
     setSubmitting(true)
     try {
-      await requestCode({ name: trimmedName, email: trimmedEmail })
+      await requestCode({ name: trimmedName, email: trimmedEmail, interests: selectedInterests })
       setPending({ name: trimmedName, email: trimmedEmail, interests: selectedInterests })
       navigate('/verify')
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Could not send the code. Try again.')
+      if (err instanceof ApiError && err.status === 403) {
+        const bannedUntil = typeof err.data.banned_until === 'string' ? err.data.banned_until : null
+        setBanned({ email: trimmedEmail, bannedUntil })
+      } else {
+        setError(err instanceof Error ? err.message : 'Could not send the code. Try again.')
+      }
     } finally {
       setSubmitting(false)
     }
@@ -217,6 +225,7 @@ const LoginPage = ({ bannedInterests, loadingBannedList }: LoginPageProps) => {
           </label>
 
           {error && <p className="form-error">{error}</p>}
+          {banned && <BannedNotice email={banned.email} bannedUntil={banned.bannedUntil} />}
 
           <button type="submit" className="primary" disabled={submitting || !agreed}>
             {submitting ? 'Sending code…' : 'Send verification code'}
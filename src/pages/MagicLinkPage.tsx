@@ -0,0 +1,54 @@
+import { useEffect, useRef, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { useAuth } from '../context/AuthContext'
+import { verifyLink } from '../lib/api'
+
+// Landing page for the sign-in link in the OTP email. The link is single-use,
+// so it's exchanged exactly once even when StrictMode runs effects twice.
+const MagicLinkPage = () => {
+  const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const { setSession } = useAuth()
+  const [error, setError] = useState('')
+  const exchangedRef = useRef(false)
+
+  const token = searchParams.get('token') ?? ''
+  const message = token
+    ? error
+    : 'This sign-in link is incomplete. Open it straight from the email, or request a new code.'
+
+  useEffect(() => {
+    if (!token || exchangedRef.current) return
+    exchangedRef.current = true
+    verifyLink({ token })
+      .then((res) => {
+        setSession({ token: res.token, refreshToken: res.refreshToken, user: res.user })
+        navigate('/mode', { replace: true })
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'Could not sign you in with this link.')
+      })
+  }, [token, setSession, navigate])
+
+  return (
+    <div className="page page-login">
+      <div className="page-card verify-card">
+        <header className="page-header">
+          <p className="eyebrow">Sign-in link</p>
+          <h1>{message ? 'Link not accepted' : 'Signing you in…'}</h1>
+          <p className="subtitle">{message || 'Hang tight while we check your link.'}</p>
+        </header>
+
+        {message && (
+          <div className="verify-actions">
+            <button type="button" className="primary" onClick={() => navigate('/', { replace: true })}>
+              Back to sign in
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default MagicLinkPage
@@ -1,11 +1,14 @@
-import type { PointerEvent as ReactPointerEvent } from 'react'
+import { useState, type PointerEvent as ReactPointerEvent } from 'react'
 import { useNavigate } from 'react-router-dom'
 import type { ChatMode, UserProfile } from '../types'
+import BlockListPanel from '../components/BlockListPanel'
 
 type ModeSelectionPageProps = {
   user: UserProfile
   onSelectMode: (mode: ChatMode) => void
   onLogout: () => void
+  // Revokes every signed-in device, this one included. Rejects on failure.
+  onLogoutEverywhere: () => Promise<void>
 }
 
 const modeOptions: Array<{
@@ -31,8 +34,21 @@ const modeOptions: Array<{
   },
 ]
 
-const ModeSelectionPage = ({ user, onSelectMode, onLogout }: ModeSelectionPageProps) => {
+const ModeSelectionPage = ({ user, onSelectMode, onLogout, onLogoutEverywhere }: ModeSelectionPageProps) => {
   const navigate = useNavigate()
+  const [signingOutEverywhere, setSigningOutEverywhere] = useState(false)
+  const [signOutError, setSignOutError] = useState('')
+
+  const handleLogoutEverywhere = async () => {
+    setSigningOutEverywhere(true)
+    setSignOutError('')
+    try {
+      await onLogoutEverywhere()
+    } catch (err) {
+      setSignOutError(err instanceof Error ? err.message : 'Could not sign out your other devices.')
+      setSigningOutEverywhere(false)
+    }
+  }
 
   const handleSelect = (mode: ChatMode) => {
     onSelectMode(mode)
@@ -76,9 +92,26 @@ const ModeSelectionPage = ({ user, onSelectMode, onLogout }: ModeSelectionPagePr
               <p className="helper muted">No interests selected — we&apos;ll match you with other open chats.</p>
             )}
           </div>
-          <button type="button" className="ghost" onClick={onLogout}>
-            Sign out
-          </button>
+          <div className="user-summary-actions">
+            {user.staff && (
+              <button type="button" className="secondary" onClick={() => navigate('/admin')}>
+                Moderation dashboard
+              </button>
+            )}
+            <button type="button" className="ghost" onClick={onLogout}>
+              Sign out
+            </button>
+            <button
+              type="button"
+              className="ghost"
+              onClick={handleLogoutEverywhere}
+              disabled={signingOutEverywhere}
+              title="Signs out every browser and device using this account"
+            >
+              {signingOutEverywhere ? 'Signing out…' : 'Sign out everywhere'}
+            </button>
+          </div>
+          {signOutError && <p className="helper emphasis danger">{signOutError}</p>}
         </div>
 
         <section className="mode-grid">
@@ -98,6 +131,8 @@ const ModeSelectionPage = ({ user, onSelectMode, onLogout }: ModeSelectionPagePr
             </button>
           ))}
         </section>
+
+        <BlockListPanel />
       </div>
     </div>
   )
@@ -1,16 +1,22 @@
 import { useCallback, useEffect, useRef, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
+import BannedNotice from '../components/BannedNotice'
+import ChatThread from '../components/ChatThread'
+import ReportDialog from '../components/ReportDialog'
 import { useFeedback, type ReactionType } from '../context/FeedbackContext'
 import { useSocket } from '../context/SocketContext'
-import type { UserProfile } from '../types'
-import type { FormEvent } from 'react'
-
-export type ChatMessage = {
-  id: number
-  author: 'user' | 'partner'
-  body: string
-  timestamp: string
-}
+import { createMessage, useSessionChat } from '../hooks/useSessionChat'
+import type {
+  BannedPayload,
+  BlockedPayload,
+  MatchPairedPayload,
+  MatchQueuedPayload,
+  PartnerReconnectingPayload,
+  ReportDetails,
+  SessionResumedPayload,
+  SimpleSessionPayload,
+  UserProfile,
+} from '../types'
 
 type PartnerProfile = {
   name: string
@@ -26,33 +32,6 @@ type TextChatPageProps = {
   onLogout: () => void
 }
 
-type MatchPairedPayload = {
-  mode: 'text' | 'video'
-  sessionId: string
-  partnerProfile?: {
-    name?: string
-    email?: string
-    interests?: string[]
-    bio?: string
-  }
-}
-
-type TextMessagePayload = {
-  sessionId: string
-  body: string
-  from: string
-  timestamp: number
-}
-
-type SimpleSessionPayload = {
-  sessionId: string
-}
-
-type MatchQueuedPayload = {
-  mode: 'text' | 'video'
-  queueLength: number
-}
-
 const fallbackPartners: PartnerProfile[] = [
   {
     name: 'Maya · Computer Science',
@@ -85,32 +64,36 @@ const fallbackPartners: PartnerProfile[] = [
 ]
 
 const DEFAULT_REMOTE_MESSAGE = 'You are now connected to a fellow Badger! Say hi.'
-
-const createMessage = (author: ChatMessage['author'], body: string, timeSource?: number): ChatMessage => ({
-  id: Date.now() + Math.floor(Math.random() * 1000),
-  author,
-  body,
-  timestamp: new Date(timeSource ?? Date.now()).toLocaleTimeString([], {
-    hour: 'numeric',
-    minute: '2-digit',
-  }),
-})
-
 const TextChatPage = ({ user, onLeaveChat, onLogout }: TextChatPageProps) => {
   const navigate = useNavigate()
   const timerRef = useRef<number | null>(null)
   const sessionRef = useRef('')
+  const resumeSessionRef = useRef('')
   const [partner, setPartner] = useState<PartnerProfile | null>(null)
-  const [messages, setMessages] = useState<ChatMessage[]>([])
   const [sessionId, setSessionId] = useState('')
   const [status, setStatus] = useState<'matching' | 'connected'>('matching')
-  const [messageInput, setMessageInput] = useState('')
+  const [sharedInterests, setSharedInterests] = useState<string[]>([])
+  const [partnerReconnecting, setPartnerReconnecting] = useState(false)
+  const [banned, setBanned] = useState<BannedPayload | null>(null)
   const hasInterests = user.interests.length > 0
-  const { recordReaction, getReputationFor, REPORT_THRESHOLD, DISLIKE_THRESHOLD } = useFeedback()
+  const { recordReaction, getReputationFor, policy } = useFeedback()
   const [reaction, setReaction] = useState<ReactionType | null>(null)
+  const [reportOpen, setReportOpen] = useState(false)
   const [feedbackNote, setFeedbackNote] = useState('')
   const { socket, status: socketStatus, error: socketError, send: sendSocket } = useSocket()
   const realtimeReady = socketStatus === 'connected' && !!socket
+  const reconnecting = socketStatus === 'reconnecting'
+  const {
+    messages,
+    setMessages,
+    partnerTyping,
+    draft,
+    updateDraft,
+    takeDraft,
+    sendMessage: sendChatMessage,
+    addNote,
+    resetChat,
+  } = useSessionChat({ sessionRef, userEmail: user.email })
 
   const reputation = getReputationFor(partner?.email ?? '')
 
@@ -132,7 +115,8 @@ const TextChatPage = ({ user, onLeaveChat, onLogout }: TextChatPageProps) => {
     }
     const nextPartner = fallbackPartners[Math.floor(Math.random() * fallbackPartners.length)]
     setPartner(nextPartner)
-    setMessages([])
+    resetChat()
+    setSharedInterests([])
     setStatus('matching')
     const nextSession = `LOCAL-${Math.floor(Math.random() * 99999)
       .toString()
@@ -142,14 +126,15 @@ const TextChatPage = ({ user, onLeaveChat, onLogout }: TextChatPageProps) => {
       setStatus('connected')
       setMessages([createMessage('partner', nextPartner.opener ?? DEFAULT_REMOTE_MESSAGE)])
     }, 1100)
-  }, [])
+  }, [resetChat, setMessages])
 
   const requestRealtimeMatch = useCallback(() => {
     setPartner(null)
-    setMessages([])
+    resetChat()
+    setSharedInterests([])
     setStatus('matching')
     sendSocket('match:request', { mode: 'text' })
-  }, [sendSocket])
+  }, [resetChat, sendSocket])
 
   const startMatch = useCallback(() => {
     setReaction(null)
@@ -162,45 +147,108 @@ const TextChatPage = ({ user, onLeaveChat, onLogout }: TextChatPageProps) => {
   }, [realtimeReady, requestLocalMatch, requestRealtimeMatch])
 
   useEffect(() => {
+    if (reconnecting) {
+      // The server holds our session open for a few seconds; don't fall back
+      // to a simulated partner while socket.io retries.
+      if (sessionRef.current) resumeSessionRef.current = sessionRef.current
+      return
+    }
+    if (realtimeReady && resumeSessionRef.current) {
+      sendSocket('session:resume', { sessionId: resumeSessionRef.current })
+      resumeSessionRef.current = ''
+      return
+    }
+    resumeSessionRef.current = ''
     startMatch()
-  }, [startMatch])
+  }, [realtimeReady, reconnecting, sendSocket, startMatch])
+
+  // Skip straight to the next partner without going back to the lobby.
+  const skipPartner = () => {
+    if (!realtimeReady) {
+      startMatch()
+      return
+    }
+    const previousSession = sessionRef.current
+    sessionRef.current = ''
+    setSessionId('')
+    setReaction(null)
+    setFeedbackNote('')
+    setPartner(null)
+    resetChat()
+    setSharedInterests([])
+    setStatus('matching')
+    sendSocket('match:next', { mode: 'text', sessionId: previousSession || undefined })
+  }
 
   useEffect(() => {
     if (!socket) return
 
-    const handlePaired = ({ mode, sessionId: incomingSession, partnerProfile }: MatchPairedPayload) => {
+    const handlePaired = ({
+      mode,
+      sessionId: incomingSession,
+      partnerProfile,
+      sharedInterests: shared = [],
+    }: MatchPairedPayload) => {
       if (mode !== 'text') return
       const partnerName = partnerProfile?.name ?? 'Badger'
       setPartner({
         name: partnerName,
         email: partnerProfile?.email ?? 'unknown@wisc.edu',
-        interest: partnerProfile?.interests?.[0],
+        interest: shared[0] ?? partnerProfile?.interests?.[0],
         bio: partnerProfile?.bio ?? 'Verified UW–Madison student.',
       })
-      setMessages([
-        createMessage('partner', `Connected with ${partnerName.split(' ')[0]}! Say hi.`),
+      setSharedInterests(shared)
+      setPartnerReconnecting(false)
+      setReportOpen(false)
+      resetChat([
+        createMessage(
+          'partner',
+          shared.length
+            ? `Connected with ${partnerName.split(' ')[0]}! You both like ${shared.join(', ')}.`
+            : `Connected with ${partnerName.split(' ')[0]}! Say hi.`,
+        ),
       ])
       setStatus('connected')
       setSessionId(incomingSession)
     }
 
-    const handleIncomingMessage = ({
-      sessionId: incomingSession,
-      body,
-      from,
-      timestamp,
-    }: TextMessagePayload) => {
+    const handlePartnerLeft = ({ sessionId: closingSession }: SimpleSessionPayload) => {
+      if (closingSession !== sessionRef.current) return
+      setPartnerReconnecting(false)
+      setStatus('matching')
+      setPartner(null)
+      addNote('Your match left the chat.')
+    }
+
+    const handlePartnerReconnecting = ({ sessionId: incomingSession }: PartnerReconnectingPayload) => {
+      if (incomingSession !== sessionRef.current) return
+      setPartnerReconnecting(true)
+      addNote('Your match lost their connection. Holding the chat for them…')
+    }
+
+    const handlePartnerReconnected = ({ sessionId: incomingSession }: SimpleSessionPayload) => {
       if (incomingSession !== sessionRef.current) return
-      const author: ChatMessage['author'] = from === user.email ? 'user' : 'partner'
+      setPartnerReconnecting(false)
+      addNote('Your match is back.')
+    }
+
+    const handleResumed = ({ sessionId: incomingSession, mode, partnerPresent }: SessionResumedPayload) => {
+      if (mode !== 'text' || incomingSession !== sessionRef.current) return
       setStatus('connected')
-      setMessages((current) => [...current, createMessage(author, body, timestamp)])
+      setPartnerReconnecting(!partnerPresent)
+      addNote('Reconnected. You are back in the chat.')
     }
 
-    const handlePartnerLeft = ({ sessionId: closingSession }: SimpleSessionPayload) => {
-      if (closingSession !== sessionRef.current) return
-      setStatus('matching')
+    const handleExpired = ({ sessionId: expiredSession }: SimpleSessionPayload) => {
+      if (expiredSession !== sessionRef.current) return
+      sessionRef.current = ''
+      setSessionId('')
       setPartner(null)
-      setMessages((current) => [...current, createMessage('partner', 'Your match left the chat.')])
+      setSharedInterests([])
+      setPartnerReconnecting(false)
+      setStatus('matching')
+      addNote('That chat ended while you were offline. Finding you a new match…')
+      sendSocket('match:request', { mode: 'text' })
     }
 
     const handleQueued = ({ mode }: MatchQueuedPayload) => {
@@ -209,121 +257,136 @@ const TextChatPage = ({ user, onLeaveChat, onLogout }: TextChatPageProps) => {
       }
     }
 
-    const handleWarning = (payload: { message?: string; severity?: string }) => {
-      if (!payload?.message) return
-      setMessages((current) => [
-        ...current,
-        createMessage('partner', `⚠️ ${payload.message}`),
-      ])
+    const handleBanned = (payload: BannedPayload) => {
+      addNote(
+        payload.banned_until
+          ? '⛔ Your account is temporarily suspended for repeated reports or dislikes.'
+          : '⛔ Your account has been banned from Badger Connect for violating the community guidelines.',
+      )
+      setStatus('matching')
+      setBanned(payload)
     }
 
-    const handleBanned = () => {
-      setMessages((current) => [
-        ...current,
-        createMessage(
-          'partner',
-          '⛔ Your account has been banned from Badger Connect for violating the community guidelines.',
-        ),
-      ])
-      setStatus('matching')
+    const handleBlocked = ({ email }: BlockedPayload) => {
+      setFeedbackNote(`Blocked ${email}. You can undo this from the mode select page.`)
     }
 
     socket.on('match:paired', handlePaired)
-    socket.on('chat:text:message', handleIncomingMessage)
+    socket.on('profile:blocked', handleBlocked)
     socket.on('system:partner-left', handlePartnerLeft)
     socket.on('system:session-ended', handlePartnerLeft)
+    socket.on('system:partner-reconnecting', handlePartnerReconnecting)
+    socket.on('system:partner-reconnected', handlePartnerReconnected)
+    socket.on('session:resumed', handleResumed)
+    socket.on('session:expired', handleExpired)
     socket.on('match:queued', handleQueued)
-    socket.on('system:warning', handleWarning)
     socket.on('system:banned', handleBanned)
 
     return () => {
       socket.off('match:paired', handlePaired)
-      socket.off('chat:text:message', handleIncomingMessage)
+      socket.off('profile:blocked', handleBlocked)
       socket.off('system:partner-left', handlePartnerLeft)
       socket.off('system:session-ended', handlePartnerLeft)
+      socket.off('system:partner-reconnecting', handlePartnerReconnecting)
+      socket.off('system:partner-reconnected', handlePartnerReconnected)
+      socket.off('session:resumed', handleResumed)
+      socket.off('session:expired', handleExpired)
       socket.off('match:queued', handleQueued)
-      socket.off('system:warning', handleWarning)
       socket.off('system:banned', handleBanned)
     }
-  }, [socket, user.email])
+  }, [addNote, resetChat, sendSocket, socket])
 
   const sendMessage = () => {
-    const trimmed = messageInput.trim()
+    const trimmed = takeDraft()
     if (!trimmed) return
 
-    setMessages((current) => [...current, createMessage('user', trimmed)])
-    setMessageInput('')
     setStatus('connected')
 
     if (realtimeReady && sessionRef.current) {
-      sendSocket('chat:text:message', {
-        sessionId: sessionRef.current,
-        body: trimmed,
-        from: user.email,
-        to: partner?.email,
-        timestamp: Date.now(),
-      })
+      sendChatMessage(trimmed)
     } else {
+      setMessages((current) => [...current, createMessage('user', trimmed)])
       timerRef.current = window.setTimeout(() => {
-        setMessages((current) => [
-          ...current,
-          createMessage('partner', 'Love that! Want to grab coffee at the Union later?'),
-        ])
+        addNote('Love that! Want to grab coffee at the Union later?')
       }, 900)
     }
   }
 
-  const handleSubmit = (event: FormEvent) => {
-    event.preventDefault()
-    sendMessage()
-  }
-
   const leaveChat = () => {
     if (realtimeReady && sessionRef.current) {
-      sendSocket('chat:leave', { sessionId: sessionRef.current, user: user.email })
+      sendSocket('chat:leave', { sessionId: sessionRef.current })
     }
     onLeaveChat()
     navigate('/mode')
   }
 
-  const handleReaction = (type: ReactionType) => {
+  const handleReaction = async (type: ReactionType, report?: ReportDetails) => {
     if (!partner?.email || reaction === type) {
       return
     }
-    const result = recordReaction(partner.email, type)
+    const previousReaction = reaction
+    const reactedInSession = sessionRef.current
     setReaction(type)
-    if (realtimeReady) {
-      sendSocket('profile:reaction', {
-        type,
-        target: partner.email,
-        sessionId: sessionRef.current,
-      })
+    const outcome = await recordReaction(partner.email, type, reactedInSession, report)
+    if (sessionRef.current !== reactedInSession) return
+
+    if (!outcome.ok) {
+      setReaction(previousReaction)
+      setFeedbackNote(outcome.reason)
+      return
     }
 
+    const result = outcome.reputation
     if (result.banned) {
-      setFeedbackNote('This profile has been banned for repeated reports/dislikes.')
+      setFeedbackNote('This profile has been suspended for repeated reports/dislikes.')
       return
     }
 
     if (type === 'report') {
       setFeedbackNote(
-        `Report submitted. ${Math.max(
-          REPORT_THRESHOLD - result.reports,
-          0,
-        )} report(s) away from a campus-wide ban.`,
+        policy
+          ? `Report submitted. ${Math.max(
+              policy.reportThreshold - result.reports,
+              0,
+            )} report(s) away from a suspension.`
+          : 'Report submitted.',
       )
     } else if (type === 'dislike') {
       setFeedbackNote(
-        `Dislike recorded. ${Math.max(
-          DISLIKE_THRESHOLD - result.dislikes,
-          0,
-        )} more dislikes before a ban.`,
+        policy
+          ? `Dislike recorded. ${Math.max(
+              policy.dislikeThreshold - result.dislikes,
+              0,
+            )} more dislikes before a suspension.`
+          : 'Dislike recorded.',
       )
     } else {
       setFeedbackNote('Thanks for the positive vibes! Badgers appreciate the love.')
     }
   }
 
+  // Blocking ends the chat immediately and keeps this pair from ever matching again.
+  const handleBlock = () => {
+    if (!partner?.email) return
+    const blockedName = partner.name.split(' ')[0]
+    if (!realtimeReady) {
+      startMatch()
+      setFeedbackNote(`Blocked ${blockedName}. You won't be matched with them again.`)
+      return
+    }
+    sendSocket('profile:block', { target: partner.email, sessionId: sessionRef.current })
+    sessionRef.current = ''
+    setSessionId('')
+    setReaction(null)
+    setPartner(null)
+    setSharedInterests([])
+    setStatus('matching')
+    resetChat([
+      createMessage('partner', `You blocked ${blockedName}. Hit "Find another Badger" to keep chatting.`),
+    ])
+  }
+
+  const linkPaused = status === 'connected' && (reconnecting || partnerReconnecting)
   const partnerName = partner?.name ?? 'Your match'
   const partnerInterest = partner?.interest ?? 'any topic'
   const partnerBio = partner?.bio ?? 'We are still finding a partner for you.'
@@ -340,7 +403,11 @@ const TextChatPage = ({ user, onLeaveChat, onLogout }: TextChatPageProps) => {
                 ? hasInterests
                   ? 'Finding a fellow Badger who shares your interests…'
                   : 'Finding another Badger who is open to any topic…'
-                : `You are now chatting with ${partnerName}`}
+                : reconnecting
+                  ? 'Reconnecting… your chat is being held open.'
+                  : partnerReconnecting
+                    ? `Waiting for ${partnerName} to reconnect…`
+                    : `You are now chatting with ${partnerName}`}
             </p>
           </div>
           <div className="chat-actions">
@@ -359,12 +426,41 @@ const TextChatPage = ({ user, onLeaveChat, onLogout }: TextChatPageProps) => {
           {socketError && <p className="helper emphasis danger">Socket error: {socketError}</p>}
         </div>
 
+        {banned && <BannedNotice email={user.email} bannedUntil={banned.banned_until} />}
+
+        {reportOpen && partner && (
+          <ReportDialog
+            partnerName={partnerName}
+            attachesTranscript={realtimeReady}
+            onCancel={() => setReportOpen(false)}
+            onSubmit={(details) => {
+              setReportOpen(false)
+              handleReaction('report', details)
+            }}
+          />
+        )}
+
         <div className="chat-layout">
           <aside className="chat-sidebar">
             <h3>Matching details</h3>
-            {hasInterests ? (
+            {sharedInterests.length ? (
               <>
                 <p className="helper">You both enjoy:</p>
+                <div className="selected-chips">
+                  {sharedInterests.map((interest) => (
+                    <span key={interest} className="pill">
+                      {interest}
+                    </span>
+                  ))}
+                </div>
+              </>
+            ) : hasInterests ? (
+              <>
+                <p className="helper">
+                  {status === 'matching'
+                    ? 'Looking for someone who also likes:'
+                    : 'No overlap this time. Your interests:'}
+                </p>
                 <div className="selected-chips">
                   {user.interests.slice(0, 3).map((interest) => (
                     <span key={interest} className="pill">
@@ -388,7 +484,9 @@ const TextChatPage = ({ user, onLeaveChat, onLogout }: TextChatPageProps) => {
 
             <div className="status-card">
               <p className="status-label">Status</p>
-              <p className={`status-value ${status}`}>{status === 'matching' ? 'Matching' : 'Connected'}</p>
+              <p className={`status-value ${linkPaused ? 'matching' : status}`}>
+                {status === 'matching' ? 'Matching' : linkPaused ? 'Reconnecting…' : 'Connected'}
+              </p>
               <p className="status-note">
                 {hasInterests
                   ? `Partner prefers ${partnerInterest.toLowerCase()} chats.`
@@ -396,14 +494,16 @@ const TextChatPage = ({ user, onLeaveChat, onLogout }: TextChatPageProps) => {
               </p>
             </div>
 
-            <button type="button" className="secondary" onClick={startMatch}>
+            <button type="button" className="secondary" onClick={skipPartner}>
               Find another Badger
             </button>
 
             <div className="reaction-panel">
               <p className="summary-label">Keep our space safe</p>
               <p className="helper">
-                3 reports or 10 dislikes on a verified wisc.edu email automatically bans that account.
+                {policy
+                  ? `${policy.reportThreshold} recent reports or ${policy.dislikeThreshold} recent dislikes on a verified wisc.edu email suspend that account.`
+                  : 'Repeated reports or dislikes on a verified wisc.edu email suspend that account.'}
               </p>
               <div className="reaction-stats">
                 <span>Reports: {reputation.reports}</span>
@@ -430,11 +530,14 @@ const TextChatPage = ({ user, onLeaveChat, onLogout }: TextChatPageProps) => {
                 <button
                   type="button"
                   className={reaction === 'report' ? 'primary' : 'ghost'}
-                  onClick={() => handleReaction('report')}
-                  disabled={!partner?.email}
+                  onClick={() => setReportOpen(true)}
+                  disabled={!partner?.email || reaction === 'report'}
                 >
                   🚩 Report
                 </button>
+                <button type="button" className="ghost" onClick={handleBlock} disabled={!partner?.email}>
+                  ⛔ Block
+                </button>
               </div>
               {feedbackNote && <p className="helper emphasis">{feedbackNote}</p>}
               {reputation.banned && (
@@ -444,34 +547,16 @@ const TextChatPage = ({ user, onLeaveChat, onLogout }: TextChatPageProps) => {
           </aside>
 
           <section className="chat-window">
-            <div className="message-list">
-              {status === 'matching' && !messages.length ? (
-                <div className="system-message">Matching… sit tight.</div>
-              ) : (
-                messages.map((message) => (
-                  <div
-                    key={message.id}
-                    className={`message ${message.author === 'user' ? 'outbound' : 'inbound'}`}
-                  >
-                    <p>{message.body}</p>
-                    <span>{message.timestamp}</span>
-                  </div>
-                ))
-              )}
-            </div>
-
-            <form className="chat-composer" onSubmit={handleSubmit}>
-              <input
-                type="text"
-                placeholder="Type a message to your match"
-                value={messageInput}
-                onChange={(event) => setMessageInput(event.target.value)}
-                disabled={status === 'matching'}
-              />
-              <button type="submit" className="primary" disabled={status === 'matching'}>
-                Send
-              </button>
-            </form>
+            <ChatThread
+              messages={messages}
+              partnerTyping={partnerTyping && status === 'connected'}
+              partnerName={partnerName}
+              draft={draft}
+              onDraftChange={updateDraft}
+              onSend={sendMessage}
+              disabled={status === 'matching' || linkPaused}
+              emptyState={status === 'matching' ? 'Matching… sit tight.' : undefined}
+            />
           </section>
         </div>
       </div>
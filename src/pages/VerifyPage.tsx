@@ -43,7 +43,7 @@ const VerifyPage = () => {
         code: finalCode,
         interests: pending.interests,
       })
-      setSession({ token: res.token, user: res.user })
+      setSession({ token: res.token, refreshToken: res.refreshToken, user: res.user })
       navigate('/mode', { replace: true })
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Verification failed.')
@@ -117,7 +117,7 @@ const VerifyPage = () => {
     setResending(true)
     setError('')
     try {
-      await requestCode({ name: pending.name, email: pending.email })
+      await requestCode({ name: pending.name, email: pending.email, interests: pending.interests })
       setResendCooldown(30)
       setDigits(Array(CODE_LENGTH).fill(''))
       inputsRef.current[0]?.focus()
@@ -137,7 +137,8 @@ const VerifyPage = () => {
           <p className="eyebrow">Check your inbox</p>
           <h1>Enter your code</h1>
           <p className="subtitle">
-            We sent a 6-digit code to <strong>{pending.email}</strong>. It expires in 10 minutes.
+            We sent a 6-digit code and a sign-in link to <strong>{pending.email}</strong>. Use either one; both
+            expire in 10 minutes.
           </p>
         </header>
 
@@ -198,6 +199,15 @@ const VerifyPage = () => {
         <p className="fine-print">
           Tip: on iOS and most Android keyboards, tap the 6-digit code that appears above the keyboard to autofill.
         </p>
+        {import.meta.env.DEV && (
+          <p className="fine-print">
+            Running locally without email? With <code>EMAIL_TRANSPORT=outbox</code> the code is in the{' '}
+            <a href="/dev/outbox" target="_blank" rel="noreferrer">
+              dev outbox
+            </a>
+            .
+          </p>
+        )}
       </div>
     </div>
   )
@@ -1,12 +1,45 @@
 import { useCallback, useEffect, useRef, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
-import type { UserProfile } from '../types'
+import type {
+  BannedPayload,
+  BlockedPayload,
+  MatchPairedPayload,
+  PartnerReconnectedPayload,
+  PartnerReconnectingPayload,
+  ReportDetails,
+  RevealStatePayload,
+  SessionResumedPayload,
+  SimpleSessionPayload,
+  UserProfile,
+  WebRtcCandidatePayload,
+  WebRtcDescriptionPayload,
+} from '../types'
+import BannedNotice from '../components/BannedNotice'
+import ChatThread from '../components/ChatThread'
+import DeviceSettingsPanel from '../components/DeviceSettingsPanel'
+import VideoLobby from '../components/VideoLobby'
+import ReportDialog from '../components/ReportDialog'
 import { useFeedback, type ReactionType } from '../context/FeedbackContext'
 import { useSocket } from '../context/SocketContext'
+import { useCallQuality } from '../hooks/useCallQuality'
+import { useIceServers } from '../hooks/useIceServers'
+import { useSessionChat } from '../hooks/useSessionChat'
+import {
+  audioConstraints,
+  canSelectSpeaker,
+  describeMediaError,
+  loadDevicePreferences,
+  saveDevicePreferences,
+  videoConstraints,
+  type DeviceKind,
+} from '../lib/devices'
+import { candidateType, diagnoseIceFailure, type IceCandidateType } from '../lib/rtc'
+import { createMaskedTrack, type MaskedTrack } from '../lib/videoMask'
 
 type VideoChatPageProps = {
   user: UserProfile
   onLeaveChat: () => void
+  onSwitchToText: () => void
   onLogout: () => void
 }
 
@@ -17,32 +50,6 @@ type VideoPartner = {
   tagline: string
 }
 
-type MatchPairedPayload = {
-  mode: 'text' | 'video'
-  sessionId: string
-  initiator?: boolean
-  partnerProfile?: {
-    name?: string
-    email?: string
-    interests?: string[]
-    bio?: string
-  }
-}
-
-type SimpleSessionPayload = {
-  sessionId: string
-}
-
-type WebRtcDescriptionPayload = {
-  sessionId: string
-  description: RTCSessionDescriptionInit
-}
-
-type WebRtcCandidatePayload = {
-  sessionId: string
-  candidate: RTCIceCandidateInit | null
-}
-
 const partnerProfiles: VideoPartner[] = [
   {
     name: 'Eli · Journalism',
@@ -71,11 +78,20 @@ const partnerProfiles: VideoPartner[] = [
 ]
 
 const createVideoSessionId = () => `VC-${Math.floor(Math.random() * 9999).toString().padStart(4, '0')}`
-const RTC_CONFIGURATION: RTCConfiguration = {
-  iceServers: [{ urls: 'stun:stun.l.google.com:19302' }],
-}
+// 'disconnected' often recovers on its own (a Wi-Fi blip), so give it a moment
+// before restarting ICE. 'failed' restarts straight away.
+const ICE_DISCONNECT_GRACE_MS = 3000
+// A restart that hasn't connected by then counts as another failure.
+const ICE_RESTART_TIMEOUT_MS = 10000
+const MAX_ICE_RESTARTS = 2
 
-const VideoChatPage = ({ user, onLeaveChat, onLogout }: VideoChatPageProps) => {
+const SENDER_PROFILE_LABELS = { full: 'Full quality', reduced: 'Reduced', low: 'Low bandwidth' } as const
+
+const HIDDEN_REVEAL = { you: false, partner: false }
+
+const formatStat = (value: number | null, unit: string) => (value === null ? '—' : `${value}${unit}`)
+
+const VideoChatPage = ({ user, onLeaveChat, onSwitchToText, onLogout }: VideoChatPageProps) => {
   const navigate = useNavigate()
   const [sessionId, setSessionId] = useState(createVideoSessionId)
   const [partner, setPartner] = useState<VideoPartner | null>(partnerProfiles[0])
@@ -84,22 +100,72 @@ const VideoChatPage = ({ user, onLeaveChat, onLogout }: VideoChatPageProps) => {
   const [cameraEnabled, setCameraEnabled] = useState(true)
   const [screenEnabled, setScreenEnabled] = useState(false)
   const [cameraError, setCameraError] = useState('')
+  // Nothing is queued until the green room (VideoLobby) is done.
+  const [lobbyDone, setLobbyDone] = useState(false)
+  const [devicePrefs, setDevicePrefs] = useState(loadDevicePreferences)
+  const [devicesOpen, setDevicesOpen] = useState(false)
+  const [deviceError, setDeviceError] = useState('')
+  // Mirrors streamRef for rendering: the device panel previews and meters it.
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null)
+  const devicePrefsRef = useRef(devicePrefs)
   const localVideoRef = useRef<HTMLVideoElement | null>(null)
   const remoteVideoRef = useRef<HTMLVideoElement | null>(null)
   const streamRef = useRef<MediaStream | null>(null)
   const screenStreamRef = useRef<MediaStream | null>(null)
   const peerConnectionRef = useRef<RTCPeerConnection | null>(null)
   const sessionIdRef = useRef(sessionId)
+  const resumeSessionRef = useRef('')
   const cameraEnabledRef = useRef(cameraEnabled)
-  const { recordReaction, getReputationFor, REPORT_THRESHOLD, DISLIKE_THRESHOLD } = useFeedback()
+  // Only the session's initiator sends offers, ICE restarts included, so the
+  // two sides never offer at once.
+  const initiatorRef = useRef(false)
+  const iceRestartsRef = useRef(0)
+  const iceTimerRef = useRef<number | undefined>(undefined)
+  const restartIceRef = useRef<(pc: RTCPeerConnection) => void>(() => {})
+  const candidateTypesRef = useRef({ local: new Set<IceCandidateType>(), remote: new Set<IceCandidateType>() })
+  const { getConfiguration, relayConfigured } = useIceServers()
+  const relayConfiguredRef = useRef(relayConfigured)
+  // Each side sends a pixelated copy of its video until both have pressed
+  // reveal; the server relays who has.
+  const [reveal, setReveal] = useState(HIDDEN_REVEAL)
+  const revealed = reveal.you && reveal.partner
+  const revealedRef = useRef(false)
+  const maskRef = useRef<MaskedTrack | null>(null)
+  const { recordReaction, getReputationFor, policy } = useFeedback()
   const [reaction, setReaction] = useState<ReactionType | null>(null)
+  const [reportOpen, setReportOpen] = useState(false)
   const [feedbackNote, setFeedbackNote] = useState('')
   const [shouldInitiateCall, setShouldInitiateCall] = useState(false)
-  const [webrtcStatus, setWebrtcStatus] = useState<'idle' | 'connecting' | 'connected' | 'error'>('idle')
+  const [webrtcStatus, setWebrtcStatus] = useState<'idle' | 'connecting' | 'connected' | 'restarting' | 'error'>(
+    'idle',
+  )
+  const [iceDiagnosis, setIceDiagnosis] = useState('')
+  const [statsVisible, setStatsVisible] = useState(false)
+  const {
+    stats: callStats,
+    profile: senderProfile,
+    lowBandwidth,
+    toggleLowBandwidth,
+  } = useCallQuality({ peerConnectionRef, active: webrtcStatus === 'connected' })
   const [remoteVideoActive, setRemoteVideoActive] = useState(false)
+  const [sharedInterests, setSharedInterests] = useState<string[]>([])
+  const [partnerReconnecting, setPartnerReconnecting] = useState(false)
+  const [banned, setBanned] = useState<BannedPayload | null>(null)
   const reputation = getReputationFor(partner?.email ?? '')
   const { socket, status: socketStatus, error: socketError, send: sendSocket } = useSocket()
   const realtimeReady = socketStatus === 'connected' && !!socket
+  const reconnecting = socketStatus === 'reconnecting'
+  const [chatOpen, setChatOpen] = useState(false)
+  const [seenChatCount, setSeenChatCount] = useState(0)
+  const {
+    messages: chatMessages,
+    partnerTyping,
+    draft: chatDraft,
+    updateDraft: updateChatDraft,
+    takeDraft: takeChatDraft,
+    sendMessage: sendChatMessage,
+    resetChat,
+  } = useSessionChat({ sessionRef: sessionIdRef, userEmail: user.email, visible: chatOpen })
 
   useEffect(() => {
     sessionIdRef.current = sessionId
@@ -109,6 +175,26 @@ const VideoChatPage = ({ user, onLeaveChat, onLogout }: VideoChatPageProps) => {
     cameraEnabledRef.current = cameraEnabled
   }, [cameraEnabled])
 
+  useEffect(() => {
+    relayConfiguredRef.current = relayConfigured
+  }, [relayConfigured])
+
+  useEffect(() => {
+    devicePrefsRef.current = devicePrefs
+  }, [devicePrefs])
+
+  // Route the partner's audio to the chosen speaker where the browser allows it.
+  // The call's <video> elements only mount once the lobby is done, hence
+  // `lobbyDone` here and in the preview effect below.
+  useEffect(() => {
+    const element = remoteVideoRef.current
+    if (!element || !canSelectSpeaker()) return
+    element.setSinkId(devicePrefs.speakerId ?? '').catch((error) => {
+      console.error('Could not switch speakers', error)
+      setDeviceError('Could not switch to that speaker.')
+    })
+  }, [devicePrefs.speakerId, lobbyDone])
+
   const stopStreamTracks = (stream: MediaStream | null) => {
     stream?.getTracks().forEach((track) => track.stop())
   }
@@ -123,6 +209,21 @@ const VideoChatPage = ({ user, onLeaveChat, onLogout }: VideoChatPageProps) => {
     }
   }, [])
 
+  // What actually goes out for `track`: itself once revealed, otherwise the
+  // masked copy, rebuilt whenever the camera or screen track changes.
+  const outgoingVideoTrack = useCallback((track: MediaStreamTrack) => {
+    if (revealedRef.current) {
+      maskRef.current?.stop()
+      maskRef.current = null
+      return track
+    }
+    if (maskRef.current?.source !== track) {
+      maskRef.current?.stop()
+      maskRef.current = createMaskedTrack(track)
+    }
+    return maskRef.current.track
+  }, [])
+
   const attachTracksToPeerConnection = useCallback(() => {
     const pc = peerConnectionRef.current
     if (!pc) return
@@ -141,17 +242,26 @@ const VideoChatPage = ({ user, onLeaveChat, onLogout }: VideoChatPageProps) => {
     const activeVideoStream = screenStreamRef.current ?? streamRef.current
     const videoTrack = activeVideoStream?.getVideoTracks()[0]
     if (videoTrack && activeVideoStream) {
+      const outgoing = outgoingVideoTrack(videoTrack)
       const existingVideo = senders.find((sender) => sender.track?.kind === 'video')
       if (existingVideo) {
-        void existingVideo.replaceTrack(videoTrack)
+        if (existingVideo.track !== outgoing) void existingVideo.replaceTrack(outgoing)
       } else {
-        pc.addTrack(videoTrack, activeVideoStream)
+        pc.addTrack(outgoing, activeVideoStream)
       }
     }
-  }, [])
+  }, [outgoingVideoTrack])
+
+  // Swaps the mask for the real track (replaceTrack, no renegotiation) once
+  // both sides have revealed.
+  useEffect(() => {
+    revealedRef.current = revealed
+    attachTracksToPeerConnection()
+  }, [attachTracksToPeerConnection, revealed])
 
   const cleanupPeerConnection = useCallback(
     (options: { resetState?: boolean } = { resetState: true }) => {
+      window.clearTimeout(iceTimerRef.current)
       if (peerConnectionRef.current) {
         peerConnectionRef.current.onicecandidate = null
         peerConnectionRef.current.ontrack = null
@@ -162,26 +272,82 @@ const VideoChatPage = ({ user, onLeaveChat, onLogout }: VideoChatPageProps) => {
       if (remoteVideoRef.current) {
         remoteVideoRef.current.srcObject = null
       }
+      maskRef.current?.stop()
+      maskRef.current = null
       if (options.resetState) {
+        // Cleared here as well as in state: the next call's peer connection
+        // may be built before the reveal effect runs.
+        revealedRef.current = false
+        setReveal(HIDDEN_REVEAL)
         setRemoteVideoActive(false)
         setWebrtcStatus('idle')
         setShouldInitiateCall(false)
+        setIceDiagnosis('')
       }
     },
     [],
   )
 
+  // Restarts ICE with the newest server list (fresh TURN credentials too) and
+  // arms a watchdog. Once MAX_ICE_RESTARTS have gone nowhere, gives up and
+  // explains why.
+  const restartIce = useCallback(
+    (pc: RTCPeerConnection) => {
+      window.clearTimeout(iceTimerRef.current)
+      const activeSession = sessionIdRef.current
+      if (!activeSession || pc !== peerConnectionRef.current) return
+      if (iceRestartsRef.current >= MAX_ICE_RESTARTS) {
+        setWebrtcStatus('error')
+        setIceDiagnosis(
+          diagnoseIceFailure({ relayConfigured: relayConfiguredRef.current, ...candidateTypesRef.current }),
+        )
+        return
+      }
+      iceRestartsRef.current += 1
+      setWebrtcStatus('restarting')
+      setIceDiagnosis('')
+      try {
+        pc.setConfiguration({ ...pc.getConfiguration(), ...getConfiguration() })
+      } catch (error) {
+        console.error('Failed to update ICE servers', error)
+      }
+      iceTimerRef.current = window.setTimeout(() => {
+        if (pc.connectionState !== 'connected') restartIceRef.current(pc)
+      }, ICE_RESTART_TIMEOUT_MS)
+      if (!initiatorRef.current) return
+      const sendRestartOffer = async () => {
+        try {
+          const offer = await pc.createOffer({ iceRestart: true })
+          await pc.setLocalDescription(offer)
+          sendSocket('webrtc:offer', { sessionId: activeSession, description: offer })
+        } catch (error) {
+          console.error('Failed to restart ICE', error)
+        }
+      }
+      void sendRestartOffer()
+    },
+    [getConfiguration, sendSocket],
+  )
+
+  useEffect(() => {
+    restartIceRef.current = restartIce
+  }, [restartIce])
+
   const ensurePeerConnection = useCallback(() => {
     if (!sessionIdRef.current || !socket) return null
     if (peerConnectionRef.current) return peerConnectionRef.current
-    const pc = new RTCPeerConnection(RTC_CONFIGURATION)
+    const pc = new RTCPeerConnection(getConfiguration())
     peerConnectionRef.current = pc
+    iceRestartsRef.current = 0
+    candidateTypesRef.current = { local: new Set(), remote: new Set() }
     setWebrtcStatus('connecting')
     attachTracksToPeerConnection()
 
     pc.onicecandidate = (event) => {
       const activeSession = sessionIdRef.current
       if (!activeSession) return
+      const type = candidateType(event.candidate)
+      if (type) candidateTypesRef.current.local.add(type)
       sendSocket('webrtc:ice-candidate', {
         sessionId: activeSession,
         candidate: event.candidate ?? null,
@@ -201,14 +367,23 @@ const VideoChatPage = ({ user, onLeaveChat, onLogout }: VideoChatPageProps) => {
     }
 
     pc.onconnectionstatechange = () => {
-      if (!peerConnectionRef.current) return
-      switch (peerConnectionRef.current.connectionState) {
+      if (peerConnectionRef.current !== pc) return
+      switch (pc.connectionState) {
         case 'connected':
+          window.clearTimeout(iceTimerRef.current)
+          iceRestartsRef.current = 0
           setWebrtcStatus('connected')
+          setIceDiagnosis('')
           break
-        case 'failed':
         case 'disconnected':
-          setWebrtcStatus('error')
+          setWebrtcStatus('restarting')
+          window.clearTimeout(iceTimerRef.current)
+          iceTimerRef.current = window.setTimeout(() => {
+            if (pc.connectionState === 'disconnected') restartIce(pc)
+          }, ICE_DISCONNECT_GRACE_MS)
+          break
+        case 'failed':
+          restartIce(pc)
           break
         case 'closed':
           setWebrtcStatus('idle')
@@ -220,7 +395,25 @@ const VideoChatPage = ({ user, onLeaveChat, onLogout }: VideoChatPageProps) => {
     }
 
     return pc
-  }, [attachTracksToPeerConnection, sendSocket, socket])
+  }, [attachTracksToPeerConnection, getConfiguration, restartIce, sendSocket, socket])
+
+  // After a socket reconnect the peer connection may be stale, so the
+  // session's initiator restarts ICE and the other side answers as usual.
+  const renegotiate = useCallback(
+    async (activeSession: string) => {
+      const pc = ensurePeerConnection()
+      if (!pc) return
+      try {
+        const offer = await pc.createOffer({ iceRestart: true })
+        await pc.setLocalDescription(offer)
+        sendSocket('webrtc:offer', { sessionId: activeSession, description: offer })
+      } catch (error) {
+        console.error('Failed to renegotiate', error)
+        setWebrtcStatus('error')
+      }
+    },
+    [ensurePeerConnection, sendSocket],
+  )
 
   const stopScreenShare = useCallback(() => {
     if (!screenStreamRef.current) return
@@ -239,11 +432,13 @@ const VideoChatPage = ({ user, onLeaveChat, onLogout }: VideoChatPageProps) => {
       stopStreamTracks(streamRef.current)
       streamRef.current = null
     }
+    setLocalStream(null)
     setLocalPreviewStream(null)
   }, [setLocalPreviewStream])
 
   useEffect(() => {
-    if (!realtimeReady) {
+    if (!lobbyDone) return
+    if (!realtimeReady && !reconnecting) {
       const timer = window.setTimeout(() => {
         const nextPartner = partnerProfiles[Math.floor(Math.random() * partnerProfiles.length)]
         setPartner(nextPartner)
@@ -251,27 +446,51 @@ const VideoChatPage = ({ user, onLeaveChat, onLogout }: VideoChatPageProps) => {
       }, 1400)
       return () => window.clearTimeout(timer)
     }
-  }, [realtimeReady])
+  }, [lobbyDone, realtimeReady, reconnecting])
 
   useEffect(() => {
-    if (realtimeReady) {
-      sendSocket('match:request', { mode: 'video' })
+    if (reconnecting) {
+      // The server holds the session open for a few seconds while socket.io retries.
+      if (sessionIdRef.current) resumeSessionRef.current = sessionIdRef.current
+      return
+    }
+    if (!realtimeReady) {
+      resumeSessionRef.current = ''
+      return
+    }
+    if (resumeSessionRef.current) {
+      sendSocket('session:resume', { sessionId: resumeSessionRef.current })
+      resumeSessionRef.current = ''
+      return
     }
-  }, [realtimeReady, sendSocket])
+    if (lobbyDone) sendSocket('match:request', { mode: 'video' })
+  }, [lobbyDone, realtimeReady, reconnecting, sendSocket])
 
   useEffect(() => {
     if (!socket) return
 
-    const handlePaired = ({ mode, sessionId: incomingSession, partnerProfile, initiator }: MatchPairedPayload) => {
+    const handlePaired = ({
+      mode,
+      sessionId: incomingSession,
+      partnerProfile,
+      initiator,
+      sharedInterests: shared = [],
+    }: MatchPairedPayload) => {
       if (mode !== 'video') return
       const partnerName = partnerProfile?.name ?? 'Badger'
       cleanupPeerConnection()
+      initiatorRef.current = Boolean(initiator)
       setPartner({
         name: partnerName,
         email: partnerProfile?.email ?? 'unknown@wisc.edu',
-        interest: partnerProfile?.interests?.[0] ?? 'campus life',
+        interest: shared[0] ?? partnerProfile?.interests?.[0] ?? 'campus life',
         tagline: partnerProfile?.bio ?? 'Verified UW student ready for a video chat.',
       })
+      setSharedInterests(shared)
+      setPartnerReconnecting(false)
+      setReportOpen(false)
+      resetChat()
+      setSeenChatCount(0)
       setSessionId(incomingSession)
       sessionIdRef.current = incomingSession
       setStatus('connected')
@@ -287,6 +506,8 @@ const VideoChatPage = ({ user, onLeaveChat, onLogout }: VideoChatPageProps) => {
       if (!closingSession || closingSession !== sessionIdRef.current) return
       setStatus('matching')
       setPartner(null)
+      setSharedInterests([])
+      setPartnerReconnecting(false)
       setFeedbackNote('Your partner left the video chat.')
       setScreenEnabled(false)
       cleanupPeerConnection()
@@ -323,6 +544,8 @@ const VideoChatPage = ({ user, onLeaveChat, onLogout }: VideoChatPageProps) => {
       if (!incomingSession || incomingSession !== sessionIdRef.current) return
       const pc = ensurePeerConnection()
       if (!pc) return
+      const type = candidateType(candidate)
+      if (type) candidateTypesRef.current.remote.add(type)
       try {
         await pc.addIceCandidate(candidate)
       } catch (error) {
@@ -330,22 +553,99 @@ const VideoChatPage = ({ user, onLeaveChat, onLogout }: VideoChatPageProps) => {
       }
     }
 
+    const handleBlocked = ({ email }: BlockedPayload) => {
+      setFeedbackNote(`Blocked ${email}. You can undo this from the mode select page.`)
+    }
+
+    const handlePartnerReconnecting = ({ sessionId: incomingSession }: PartnerReconnectingPayload) => {
+      if (incomingSession !== sessionIdRef.current) return
+      setPartnerReconnecting(true)
+      setFeedbackNote('Your partner lost their connection. Holding the call for them…')
+    }
+
+    const handlePartnerReconnected = ({ sessionId: incomingSession, initiator }: PartnerReconnectedPayload) => {
+      if (incomingSession !== sessionIdRef.current) return
+      initiatorRef.current = Boolean(initiator)
+      setPartnerReconnecting(false)
+      setFeedbackNote('Your partner is back.')
+      if (initiator) void renegotiate(incomingSession)
+    }
+
+    const handleResumed = ({
+      sessionId: incomingSession,
+      mode,
+      initiator,
+      partnerPresent,
+    }: SessionResumedPayload) => {
+      if (mode !== 'video' || incomingSession !== sessionIdRef.current) return
+      initiatorRef.current = Boolean(initiator)
+      setStatus('connected')
+      setPartnerReconnecting(!partnerPresent)
+      setFeedbackNote('Reconnected. Restoring video…')
+      if (initiator && partnerPresent) void renegotiate(incomingSession)
+    }
+
+    const handleRevealState = ({ sessionId: incomingSession, you, partner: partnerRevealed }: RevealStatePayload) => {
+      if (incomingSession !== sessionIdRef.current) return
+      setReveal({ you, partner: partnerRevealed })
+    }
+
+    const handleExpired = ({ sessionId: expiredSession }: SimpleSessionPayload) => {
+      if (expiredSession !== sessionIdRef.current) return
+      sessionIdRef.current = ''
+      setSessionId('')
+      setPartner(null)
+      setSharedInterests([])
+      setPartnerReconnecting(false)
+      setStatus('matching')
+      setScreenEnabled(false)
+      cleanupPeerConnection()
+      resetChat()
+      setSeenChatCount(0)
+      setFeedbackNote('That call ended while you were offline. Finding you a new match…')
+      sendSocket('match:request', { mode: 'video' })
+    }
+
+    const handleBanned = (payload: BannedPayload) => {
+      sessionIdRef.current = ''
+      setSessionId('')
+      setPartner(null)
+      setStatus('matching')
+      setScreenEnabled(false)
+      cleanupPeerConnection()
+      setBanned(payload)
+    }
+
     socket.on('match:paired', handlePaired)
+    socket.on('profile:blocked', handleBlocked)
     socket.on('system:partner-left', handlePartnerLeft)
     socket.on('system:session-ended', handlePartnerLeft)
+    socket.on('system:partner-reconnecting', handlePartnerReconnecting)
+    socket.on('system:partner-reconnected', handlePartnerReconnected)
+    socket.on('session:resumed', handleResumed)
+    socket.on('session:expired', handleExpired)
+    socket.on('video:reveal-state', handleRevealState)
+    socket.on('system:banned', handleBanned)
     socket.on('webrtc:offer', handleOffer)
     socket.on('webrtc:answer', handleAnswer)
     socket.on('webrtc:ice-candidate', handleIceCandidate)
 
     return () => {
       socket.off('match:paired', handlePaired)
+      socket.off('profile:blocked', handleBlocked)
       socket.off('system:partner-left', handlePartnerLeft)
       socket.off('system:session-ended', handlePartnerLeft)
+      socket.off('system:partner-reconnecting', handlePartnerReconnecting)
+      socket.off('system:partner-reconnected', handlePartnerReconnected)
+      socket.off('session:resumed', handleResumed)
+      socket.off('session:expired', handleExpired)
+      socket.off('video:reveal-state', handleRevealState)
+      socket.off('system:banned', handleBanned)
       socket.off('webrtc:offer', handleOffer)
       socket.off('webrtc:answer', handleAnswer)
       socket.off('webrtc:ice-candidate', handleIceCandidate)
     }
-  }, [cleanupPeerConnection, ensurePeerConnection, sendSocket, socket])
+  }, [cleanupPeerConnection, ensurePeerConnection, renegotiate, resetChat, sendSocket, socket])
 
   useEffect(() => {
     if (!shouldInitiateCall || status !== 'connected' || !sessionId) return
@@ -383,12 +683,16 @@ const VideoChatPage = ({ user, onLeaveChat, onLogout }: VideoChatPageProps) => {
         return
       }
       try {
-        const stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: true })
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: videoConstraints(devicePrefsRef.current),
+          audio: audioConstraints(devicePrefsRef.current),
+        })
         if (cancelled) {
           stopStreamTracks(stream)
           return
         }
         streamRef.current = stream
+        setLocalStream(stream)
         stream.getAudioTracks().forEach((track) => {
           track.enabled = micEnabled
         })
@@ -402,7 +706,7 @@ const VideoChatPage = ({ user, onLeaveChat, onLogout }: VideoChatPageProps) => {
       } catch (error) {
         console.error(error)
         if (!cancelled) {
-          setCameraError('Unable to access your camera. Please allow permissions and try again.')
+          setCameraError(describeMediaError(error))
           setCameraEnabled(false)
         }
       }
@@ -428,7 +732,7 @@ const VideoChatPage = ({ user, onLeaveChat, onLogout }: VideoChatPageProps) => {
       track.enabled = cameraEnabled
     })
     setLocalPreviewStream(cameraEnabled ? stream : null)
-  }, [cameraEnabled, screenEnabled, setLocalPreviewStream])
+  }, [cameraEnabled, lobbyDone, screenEnabled, setLocalPreviewStream])
 
   useEffect(() => {
     const stream = streamRef.current
@@ -490,7 +794,7 @@ const VideoChatPage = ({ user, onLeaveChat, onLogout }: VideoChatPageProps) => {
 
   const leaveChat = () => {
     if (realtimeReady && sessionId) {
-      sendSocket('chat:leave', { sessionId, user: user.email, mode: 'video' })
+      sendSocket('chat:leave', { sessionId })
     }
     setScreenEnabled(false)
     stopScreenShare()
@@ -500,51 +804,194 @@ const VideoChatPage = ({ user, onLeaveChat, onLogout }: VideoChatPageProps) => {
     navigate('/mode')
   }
 
-  const handleReaction = (type: ReactionType) => {
+  // From the lobby, when the camera can't be used or the user would rather
+  // type. Nothing has been queued yet, so there's no session to leave.
+  const switchToText = () => {
+    stopLocalStream()
+    onSwitchToText()
+    navigate('/chat/text')
+  }
+
+  // Skip straight to the next partner without going back to the lobby.
+  const skipPartner = () => {
+    setReaction(null)
+    setFeedbackNote('')
+    setScreenEnabled(false)
+    setSharedInterests([])
+    cleanupPeerConnection()
+    resetChat()
+    setSeenChatCount(0)
+    if (!realtimeReady) {
+      setPartner(partnerProfiles[Math.floor(Math.random() * partnerProfiles.length)])
+      setSessionId(createVideoSessionId())
+      return
+    }
+    const previousSession = sessionIdRef.current
+    sessionIdRef.current = ''
+    setSessionId('')
+    setPartner(null)
+    setStatus('matching')
+    sendSocket('match:next', { mode: 'video', sessionId: previousSession || undefined })
+  }
+
+  // Blocking ends the call immediately and keeps this pair from ever matching again.
+  const handleBlock = () => {
+    if (!partner?.email) return
+    const blockedName = partner.name.split(' ')[0]
+    if (!realtimeReady) {
+      skipPartner()
+      setFeedbackNote(`Blocked ${blockedName}. You won't be matched with them again.`)
+      return
+    }
+    sendSocket('profile:block', { target: partner.email, sessionId: sessionIdRef.current })
+    sessionIdRef.current = ''
+    setSessionId('')
+    setReaction(null)
+    setPartner(null)
+    setSharedInterests([])
+    setStatus('matching')
+    setScreenEnabled(false)
+    cleanupPeerConnection()
+    resetChat()
+    setSeenChatCount(0)
+    setFeedbackNote(`You blocked ${blockedName}. Hit "New match" to meet someone else.`)
+  }
+
+  const handleReaction = async (type: ReactionType, report?: ReportDetails) => {
     if (!partner?.email || reaction === type) return
-    const result = recordReaction(partner.email, type)
+    const previousReaction = reaction
+    const reactedInSession = sessionIdRef.current
     setReaction(type)
+    const outcome = await recordReaction(partner.email, type, reactedInSession, report)
+    if (sessionIdRef.current !== reactedInSession) return
 
-    if (realtimeReady) {
-      sendSocket('profile:reaction', {
-        type,
-        target: partner.email,
-        sessionId,
-      })
+    if (!outcome.ok) {
+      setReaction(previousReaction)
+      setFeedbackNote(outcome.reason)
+      return
     }
 
+    const result = outcome.reputation
     if (result.banned) {
-      setFeedbackNote('This profile has been banned from Badger Connect due to community reports.')
+      setFeedbackNote('This profile has been suspended from Badger Connect due to community reports.')
       return
     }
 
     if (type === 'report') {
       setFeedbackNote(
-        `Report submitted. ${Math.max(
-          REPORT_THRESHOLD - result.reports,
-          0,
-        )} more report(s) will trigger a ban.`,
+        policy
+          ? `Report submitted. ${Math.max(
+              policy.reportThreshold - result.reports,
+              0,
+            )} more report(s) will trigger a suspension.`
+          : 'Report submitted.',
       )
     } else if (type === 'dislike') {
       setFeedbackNote(
-        `${Math.max(DISLIKE_THRESHOLD - result.dislikes, 0)} dislike(s) remain before an auto-ban.`,
+        policy
+          ? `${Math.max(policy.dislikeThreshold - result.dislikes, 0)} dislike(s) remain before a suspension.`
+          : 'Dislike recorded.',
       )
     } else {
       setFeedbackNote('Appreciate you boosting the positive profiles out there!')
     }
   }
 
+  // Swaps one device, mid-call included. A new camera or mic track goes out
+  // through attachTracksToPeerConnection's replaceTrack path, so the call
+  // isn't renegotiated. Without a stream yet, the choice applies when the
+  // camera starts.
+  const selectDevice = async (kind: DeviceKind, deviceId: string) => {
+    const next = { ...devicePrefs, [kind]: deviceId || undefined }
+    setDevicePrefs(next)
+    saveDevicePreferences(next)
+    setDeviceError('')
+    if (kind === 'speakerId') return
+
+    const current = streamRef.current
+    if (!current || !navigator.mediaDevices?.getUserMedia) return
+    const isVideo = kind === 'cameraId'
+    try {
+      const fresh = await navigator.mediaDevices.getUserMedia(
+        isVideo ? { video: videoConstraints(next) } : { audio: audioConstraints(next) },
+      )
+      const [track] = isVideo ? fresh.getVideoTracks() : fresh.getAudioTracks()
+      if (!track || streamRef.current !== current) {
+        stopStreamTracks(fresh)
+        return
+      }
+      const replaced = isVideo ? current.getVideoTracks() : current.getAudioTracks()
+      track.enabled = isVideo ? cameraEnabled : micEnabled
+      const updated = new MediaStream([...current.getTracks().filter((entry) => !replaced.includes(entry)), track])
+      streamRef.current = updated
+      setLocalStream(updated)
+      attachTracksToPeerConnection()
+      replaced.forEach((entry) => entry.stop())
+      if (isVideo && cameraEnabled && !screenEnabled) setLocalPreviewStream(updated)
+    } catch (error) {
+      console.error('Device switch failed', error)
+      setDeviceError(isVideo ? 'Could not switch to that camera.' : 'Could not switch to that microphone.')
+    }
+  }
+
+  // Without the realtime link the partner is a demo profile, so there's no one
+  // to wait for.
+  const requestReveal = () => {
+    if (!realtimeReady) {
+      setReveal({ you: true, partner: true })
+      return
+    }
+    if (!sessionIdRef.current) return
+    setReveal((current) => ({ ...current, you: true }))
+    sendSocket('video:reveal', { sessionId: sessionIdRef.current })
+  }
+
+  // Manual retry after the automatic ICE restarts gave up.
+  const retryConnection = () => {
+    const pc = peerConnectionRef.current
+    if (!pc) return
+    iceRestartsRef.current = 0
+    restartIce(pc)
+  }
+
+  const sendChat = () => {
+    const body = takeChatDraft()
+    if (body) sendChatMessage(body)
+  }
+
+  // Whatever is in the thread when the panel is toggled counts as seen.
+  const toggleChat = () => {
+    setSeenChatCount(chatMessages.length)
+    setChatOpen((open) => !open)
+  }
+
+  const unseenChatCount = chatOpen ? 0 : Math.max(chatMessages.length - seenChatCount, 0)
+  const chatDisabled = !realtimeReady || status === 'matching' || partnerReconnecting
+
   const remoteNameLabel =
     status === 'matching' ? 'Pairing you…' : (partner?.name ?? 'Partner')
   const remoteStatusLabel =
     status === 'matching'
       ? 'Encrypted connection'
-      : webrtcStatus === 'connected'
+      : reconnecting || partnerReconnecting
+        ? 'Reconnecting…'
+        : webrtcStatus === 'connected'
         ? 'Live now'
-        : webrtcStatus === 'error'
+        : webrtcStatus === 'restarting'
           ? 'Reconnecting…'
-          : 'Negotiating…'
-  const localStatusLabel = cameraError || (screenEnabled ? 'Sharing screen' : cameraEnabled ? 'Camera on' : 'Camera paused')
+          : webrtcStatus === 'error'
+            ? 'Connection failed'
+            : 'Negotiating…'
+  const localStatusLabel =
+    cameraError ||
+    `${screenEnabled ? 'Sharing screen' : cameraEnabled ? 'Camera on' : 'Camera paused'}${
+      revealed ? '' : ' · blurred for your partner'
+    }`
+  const revealLabel = reveal.you
+    ? 'Waiting for your partner to reveal…'
+    : reveal.partner
+      ? 'Your partner revealed · Reveal my video'
+      : 'Reveal my video'
   const localVideoVisible = screenEnabled || (cameraEnabled && !cameraError)
 
   return (
@@ -552,10 +999,12 @@ const VideoChatPage = ({ user, onLeaveChat, onLogout }: VideoChatPageProps) => {
       <div className="page-card video-card">
         <div className="chat-header">
           <div>
-            <p className="eyebrow">Session {sessionId}</p>
+            <p className="eyebrow">Session {sessionId || '—'}</p>
             <h1>Video lounge</h1>
             <p className="subtitle">
-              {status === 'matching'
+              {!lobbyDone
+                ? 'Make sure your camera and mic work, then join the queue.'
+                : status === 'matching'
                 ? 'Setting up a secure connection with another verified student…'
                 : `You are now on video with ${partner?.name ?? 'your match'}`}
             </p>
@@ -576,109 +1025,261 @@ const VideoChatPage = ({ user, onLeaveChat, onLogout }: VideoChatPageProps) => {
           {socketError && <p className="helper emphasis danger">Socket error: {socketError}</p>}
         </div>
 
-        <div className="video-stage">
-          <div className={`video-remote ${status}`}>
-            <video
-              ref={remoteVideoRef}
-              autoPlay
-              playsInline
-              className={remoteVideoActive ? 'video-feed visible' : 'video-feed'}
-            />
-            <div className="video-overlay">
-              <p>{remoteNameLabel}</p>
-              <span>{remoteStatusLabel}</span>
+        {banned && <BannedNotice email={user.email} bannedUntil={banned.banned_until} />}
+
+        {reportOpen && partner && (
+          <ReportDialog
+            partnerName={partner.name}
+            attachesTranscript={realtimeReady && chatMessages.length > 0}
+            onCancel={() => setReportOpen(false)}
+            onSubmit={(details) => {
+              setReportOpen(false)
+              handleReaction('report', details)
+            }}
+          />
+        )}
+
+        {lobbyDone ? (
+          <>
+            <div className="video-stage">
+              <div className={`video-remote ${status}`}>
+                <video
+                  ref={remoteVideoRef}
+                  autoPlay
+                  playsInline
+                  className={`video-feed${remoteVideoActive ? ' visible' : ''}${revealed ? '' : ' masked'}`}
+                />
+                <div className="video-overlay">
+                  <p>{remoteNameLabel}</p>
+                  <span>{remoteStatusLabel}</span>
+                  {status === 'connected' && !revealed && (
+                    <span className="reveal-note">Video stays blurred until you both reveal.</span>
+                  )}
+                </div>
+                {statsVisible && callStats && (
+                  <dl className="call-stats" aria-label="Call quality">
+                    <dt>Round trip</dt>
+                    <dd>{formatStat(callStats.rttMs, ' ms')}</dd>
+                    <dt>Loss in / out</dt>
+                    <dd>
+                      {formatStat(callStats.receiveLossPercent, '%')} / {formatStat(callStats.sendLossPercent, '%')}
+                    </dd>
+                    <dt>Bitrate in / out</dt>
+                    <dd>
+                      {formatStat(callStats.receiveKbps, '')} / {formatStat(callStats.sendKbps, ' kbps')}
+                    </dd>
+                    <dt>Resolution</dt>
+                    <dd>{callStats.resolution ?? '—'}</dd>
+                    <dt>Sending</dt>
+                    <dd>
+                      {SENDER_PROFILE_LABELS[senderProfile]}
+                      {lowBandwidth ? '' : ' (auto)'}
+                    </dd>
+                  </dl>
+                )}
+              </div>
+              <div className={`video-self ${cameraEnabled || screenEnabled ? 'active' : 'muted'}`}>
+                <video
+                  ref={localVideoRef}
+                  autoPlay
+                  muted
+                  playsInline
+                  className={localVideoVisible ? 'video-feed visible' : 'video-feed'}
+                />
+                <div className="video-overlay">
+                  <p>{user.name}</p>
+                  <span>{localStatusLabel}</span>
+                </div>
+              </div>
             </div>
-          </div>
-          <div className={`video-self ${cameraEnabled || screenEnabled ? 'active' : 'muted'}`}>
-            <video
-              ref={localVideoRef}
-              autoPlay
-              muted
-              playsInline
-              className={localVideoVisible ? 'video-feed visible' : 'video-feed'}
-            />
-            <div className="video-overlay">
-              <p>{user.name}</p>
-              <span>{localStatusLabel}</span>
+
+            <div className="video-controls">
+              {status === 'connected' && !revealed && (
+                <button
+                  type="button"
+                  className={reveal.partner ? 'active' : ''}
+                  onClick={requestReveal}
+                  disabled={reveal.you}
+                >
+                  {revealLabel}
+                </button>
+              )}
+              <button
+                type="button"
+                className={micEnabled ? '' : 'muted'}
+                onClick={() => setMicEnabled((value) => !value)}
+              >
+                {micEnabled ? 'Mute microphone' : 'Unmute microphone'}
+              </button>
+              <button
+                type="button"
+                className={cameraEnabled ? '' : 'muted'}
+                onClick={() => setCameraEnabled((value) => !value)}
+              >
+                {cameraEnabled ? 'Turn camera off' : 'Turn camera on'}
+              </button>
+              <button
+                type="button"
+                className={screenEnabled ? 'active' : ''}
+                onClick={() => setScreenEnabled((value) => !value)}
+              >
+                {screenEnabled ? 'Stop screen share' : 'Share screen'}
+              </button>
+              <button
+                type="button"
+                className={devicesOpen ? 'active' : ''}
+                onClick={() => setDevicesOpen((open) => !open)}
+              >
+                Devices
+              </button>
+              <button
+                type="button"
+                className={lowBandwidth ? 'active' : ''}
+                onClick={toggleLowBandwidth}
+                title="Caps your outgoing video at low resolution and bitrate"
+              >
+                {lowBandwidth ? 'Low bandwidth: on' : 'Low bandwidth mode'}
+              </button>
+              <button
+                type="button"
+                className={statsVisible ? 'active' : ''}
+                onClick={() => setStatsVisible((value) => !value)}
+              >
+                {statsVisible ? 'Hide call stats' : 'Call stats'}
+              </button>
+              <button type="button" className="secondary" onClick={skipPartner}>
+                New match
+              </button>
             </div>
-          </div>
-        </div>
+            {cameraError && <p className="camera-error">{cameraError}</p>}
+            {devicesOpen && (
+              <DeviceSettingsPanel
+                stream={localStream}
+                preferences={devicePrefs}
+                onSelect={(kind, deviceId) => void selectDevice(kind, deviceId)}
+                error={deviceError}
+                onClose={() => setDevicesOpen(false)}
+              />
+            )}
+            {iceDiagnosis && (
+              <div className="ice-diagnosis" role="alert">
+                <p className="summary-label">Video couldn&apos;t connect</p>
+                <p className="helper">{iceDiagnosis}</p>
+                <div className="chat-actions">
+                  <button type="button" className="secondary" onClick={retryConnection}>
+                    Try again
+                  </button>
+                  <button type="button" className="ghost" onClick={skipPartner}>
+                    New match
+                  </button>
+                </div>
+              </div>
+            )}
 
-        <div className="video-controls">
-          <button
-            type="button"
-            className={micEnabled ? '' : 'muted'}
-            onClick={() => setMicEnabled((value) => !value)}
-          >
-            {micEnabled ? 'Mute microphone' : 'Unmute microphone'}
-          </button>
-          <button
-            type="button"
-            className={cameraEnabled ? '' : 'muted'}
-            onClick={() => setCameraEnabled((value) => !value)}
-          >
-            {cameraEnabled ? 'Turn camera off' : 'Turn camera on'}
-          </button>
-          <button
-            type="button"
-            className={screenEnabled ? 'active' : ''}
-            onClick={() => setScreenEnabled((value) => !value)}
-          >
-            {screenEnabled ? 'Stop screen share' : 'Share screen'}
-          </button>
-          <button type="button" className="secondary" onClick={() => sendSocket('match:request', { mode: 'video' })}>
-            New match
-          </button>
-        </div>
-        {cameraError && <p className="camera-error">{cameraError}</p>}
-
-        <div className="reaction-panel">
-          <div className="profile-card">
-            <p className="summary-label">Profile</p>
-            <p className="summary-value">{partner?.name ?? 'Waiting for partner'}</p>
-            <p className="helper">{partner?.tagline ?? 'We will introduce you once we find a match.'}</p>
-            <p className="helper">wisc email: {partner?.email ?? 'pending match'}</p>
-            <p className="helper">Favorite chat topic: {partner?.interest ?? 'any topic'}</p>
-          </div>
-          <p className="helper">
-            Use these controls to keep chats respectful. 3 reports or 10 dislikes ban the verified email.
-          </p>
-          <div className="reaction-stats">
-            <span>Reports: {reputation.reports}</span>
-            <span>Dislikes: {reputation.dislikes}</span>
-            <span>Likes: {reputation.likes}</span>
-          </div>
-          <div className="reaction-actions">
-            <button
-              type="button"
-              className={reaction === 'like' ? 'primary' : 'secondary'}
-              onClick={() => handleReaction('like')}
-              disabled={!partner?.email}
-            >
-              👍 Like
-            </button>
-            <button
-              type="button"
-              className={reaction === 'dislike' ? 'primary' : 'secondary'}
-              onClick={() => handleReaction('dislike')}
-              disabled={!partner?.email}
-            >
-              👎 Dislike
-            </button>
-            <button
-              type="button"
-              className={reaction === 'report' ? 'primary' : 'ghost'}
-              onClick={() => handleReaction('report')}
-              disabled={!partner?.email}
-            >
-              🚩 Report
-            </button>
-          </div>
-          {feedbackNote && <p className="helper emphasis">{feedbackNote}</p>}
-          {reputation.banned && (
-            <p className="helper emphasis danger">This profile has been banned from Badger Connect.</p>
-          )}
-        </div>
+            <section className={`video-chat ${chatOpen ? 'open' : ''}`}>
+              <button type="button" className="ghost video-chat-toggle" onClick={toggleChat}>
+                💬 {chatOpen ? 'Hide chat' : 'Open chat'}
+                {unseenChatCount > 0 && <span className="chat-badge">{unseenChatCount}</span>}
+              </button>
+              {chatOpen && (
+                <div className="chat-window video-chat-window">
+                  <ChatThread
+                    messages={chatMessages}
+                    partnerTyping={partnerTyping && status === 'connected'}
+                    partnerName={partner?.name ?? 'Your match'}
+                    draft={chatDraft}
+                    onDraftChange={updateChatDraft}
+                    onSend={sendChat}
+                    disabled={chatDisabled}
+                    emptyState={
+                      realtimeReady
+                        ? 'Drop a link, spell out a name, or keep talking when audio cuts out.'
+                        : 'Chat opens once you are paired over the realtime link.'
+                    }
+                    placeholder="Send a message alongside the call"
+                  />
+                </div>
+              )}
+            </section>
+
+            <div className="reaction-panel">
+              <div className="profile-card">
+                <p className="summary-label">Profile</p>
+                <p className="summary-value">{partner?.name ?? 'Waiting for partner'}</p>
+                <p className="helper">{partner?.tagline ?? 'We will introduce you once we find a match.'}</p>
+                <p className="helper">wisc email: {partner?.email ?? 'pending match'}</p>
+                <p className="helper">Favorite chat topic: {partner?.interest ?? 'any topic'}</p>
+                {sharedInterests.length > 0 && (
+                  <>
+                    <p className="helper">You both enjoy:</p>
+                    <div className="selected-chips">
+                      {sharedInterests.map((interest) => (
+                        <span key={interest} className="pill">
+                          {interest}
+                        </span>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+              <p className="helper">
+                Use these controls to keep chats respectful.{' '}
+                {policy
+                  ? `${policy.reportThreshold} recent reports or ${policy.dislikeThreshold} recent dislikes suspend the verified email.`
+                  : 'Repeated reports or dislikes suspend the verified email.'}
+              </p>
+              <div className="reaction-stats">
+                <span>Reports: {reputation.reports}</span>
+                <span>Dislikes: {reputation.dislikes}</span>
+                <span>Likes: {reputation.likes}</span>
+              </div>
+              <div className="reaction-actions">
+                <button
+                  type="button"
+                  className={reaction === 'like' ? 'primary' : 'secondary'}
+                  onClick={() => handleReaction('like')}
+                  disabled={!partner?.email}
+                >
+                  👍 Like
+                </button>
+                <button
+                  type="button"
+                  className={reaction === 'dislike' ? 'primary' : 'secondary'}
+                  onClick={() => handleReaction('dislike')}
+                  disabled={!partner?.email}
+                >
+                  👎 Dislike
+                </button>
+                <button
+                  type="button"
+                  className={reaction === 'report' ? 'primary' : 'ghost'}
+                  onClick={() => setReportOpen(true)}
+                  disabled={!partner?.email || reaction === 'report'}
+                >
+                  🚩 Report
+                </button>
+                <button type="button" className="ghost" onClick={handleBlock} disabled={!partner?.email}>
+                  ⛔ Block
+                </button>
+              </div>
+              {feedbackNote && <p className="helper emphasis">{feedbackNote}</p>}
+              {reputation.banned && (
+                <p className="helper emphasis danger">This profile has been banned from Badger Connect.</p>
+              )}
+            </div>
+          </>
+        ) : (
+          <VideoLobby
+            stream={localStream}
+            preferences={devicePrefs}
+            onSelectDevice={(kind, deviceId) => void selectDevice(kind, deviceId)}
+            deviceError={deviceError}
+            cameraError={cameraError}
+            onRetryCamera={() => setCameraEnabled(true)}
+            onJoin={() => setLobbyDone(true)}
+            onSwitchToText={switchToText}
+          />
+        )}
       </div>
     </div>
   )
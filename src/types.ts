@@ -1,7 +1,226 @@
 export type ChatMode = 'text' | 'video'
 
+export type ReactionType = 'like' | 'dislike' | 'report'
+
 export interface UserProfile {
   name: string
   email: string
   interests: string[]
+  // Set at sign-in for emails on the backend's ADMIN_EMAILS allow-list.
+  staff?: boolean
+}
+
+// Socket.IO contract shared by SocketContext, the chat pages and the backend.
+// The server validates every client → server payload at runtime against
+// backend/lib/socketContract.js, so keep the two in sync when an event changes.
+
+export type PartnerProfilePayload = {
+  name?: string
+  email?: string
+  interests?: string[]
+  bio?: string
+}
+
+export type ProfileUpdatePayload = {
+  name?: string
+  interests?: string[]
+}
+
+export type MatchRequestPayload = {
+  mode: ChatMode
+}
+
+export type MatchNextPayload = {
+  mode: ChatMode
+  sessionId?: string
+}
+
+export type MatchQueuedPayload = {
+  mode: ChatMode
+  queueLength: number
+}
+
+export type MatchPairedPayload = {
+  mode: ChatMode
+  sessionId: string
+  initiator?: boolean
+  partnerProfile?: PartnerProfilePayload
+  sharedInterests?: string[]
+}
+
+export type SimpleSessionPayload = {
+  sessionId: string
+}
+
+export type SessionResumedPayload = {
+  sessionId: string
+  mode: ChatMode
+  initiator: boolean
+  partnerPresent: boolean
+}
+
+export type PartnerReconnectingPayload = {
+  sessionId: string
+  graceMs: number
+}
+
+export type PartnerReconnectedPayload = {
+  sessionId: string
+  initiator: boolean
+}
+
+// Who has pressed "reveal" in a video session. Clear video flows only once
+// both have.
+export type RevealStatePayload = {
+  sessionId: string
+  you: boolean
+  partner: boolean
+}
+
+export type LeaveChatPayload = {
+  sessionId?: string
+}
+
+export type OutgoingTextMessagePayload = {
+  sessionId: string
+  body: string
+  // Echoed back in `chat:text:sent` so the sender can match its optimistic bubble.
+  clientId?: string
+}
+
+export type TextMessagePayload = {
+  id: string
+  sessionId: string
+  body: string
+  from: string
+  timestamp: number
+}
+
+export type TextMessageSentPayload = {
+  sessionId: string
+  clientId?: string
+  id: string
+  timestamp: number
+}
+
+export type TypingPayload = {
+  sessionId: string
+  typing: boolean
+}
+
+export type ReceiptStatus = 'delivered' | 'read'
+
+export type ReceiptPayload = {
+  sessionId: string
+  messageIds: string[]
+  status: ReceiptStatus
+}
+
+// Mirrors REPORT_CATEGORIES in backend/lib/socketContract.js.
+export type ReportCategory = 'harassment' | 'sexual' | 'hate' | 'spam' | 'underage' | 'other'
+
+export type ReportDetails = {
+  category: ReportCategory
+  note?: string
+}
+
+export type ReactionPayload = {
+  target: string
+  type: ReactionType
+  sessionId?: string
+  // Only sent with reports.
+  category?: ReportCategory
+  note?: string
+}
+
+export type BlockPayload = {
+  target: string
+  sessionId?: string
+}
+
+export type BlockedPayload = {
+  email: string
+}
+
+export type ReputationPayload = {
+  email?: string
+  likes: number
+  dislikes: number
+  reports: number
+  banned: boolean
+  // ISO end of a temporary suspension; null for permanent bans or no ban.
+  banned_until?: string | null
+  permanent?: boolean
+}
+
+// Reply to `profile:reaction`. The sender's FeedbackContext keeps its
+// optimistic update on `ok`, or rolls it back.
+export type ReactionResultPayload =
+  | { target: string; type: ReactionType; ok: true; reputation: ReputationPayload }
+  | { target: string; type: ReactionType; ok: false; reason: string }
+
+export type BannedPayload = Partial<ReputationPayload> & {
+  banned: true
+  reason?: string
+}
+
+export type SystemWarningPayload = {
+  sessionId: string
+  message: string
+  // Set when the warning is about a message the sender just tried to send.
+  clientId?: string
+  reason?: string
+  severity?: 'critical' | 'block'
+}
+
+export type WebRtcDescriptionPayload = {
+  sessionId: string
+  description: RTCSessionDescriptionInit
+}
+
+export type WebRtcCandidatePayload = {
+  sessionId: string
+  candidate: RTCIceCandidateInit | null
+}
+
+export interface ClientToServerEvents {
+  'profile:update': (payload: ProfileUpdatePayload) => void
+  'profile:reaction': (payload: ReactionPayload) => void
+  'profile:block': (payload: BlockPayload) => void
+  'match:request': (payload: MatchRequestPayload) => void
+  'match:next': (payload: MatchNextPayload) => void
+  'chat:text:message': (payload: OutgoingTextMessagePayload) => void
+  'chat:typing': (payload: TypingPayload) => void
+  'chat:receipt': (payload: ReceiptPayload) => void
+  'chat:leave': (payload: LeaveChatPayload) => void
+  'session:resume': (payload: SimpleSessionPayload) => void
+  'video:reveal': (payload: SimpleSessionPayload) => void
+  'webrtc:offer': (payload: WebRtcDescriptionPayload) => void
+  'webrtc:answer': (payload: WebRtcDescriptionPayload) => void
+  'webrtc:ice-candidate': (payload: WebRtcCandidatePayload) => void
+}
+
+export interface ServerToClientEvents {
+  'profile:reputation': (payload: ReputationPayload) => void
+  'profile:reaction:result': (payload: ReactionResultPayload) => void
+  'profile:blocked': (payload: BlockedPayload) => void
+  'match:queued': (payload: MatchQueuedPayload) => void
+  'match:paired': (payload: MatchPairedPayload) => void
+  'chat:text:message': (payload: TextMessagePayload) => void
+  'chat:text:sent': (payload: TextMessageSentPayload) => void
+  'chat:typing': (payload: TypingPayload) => void
+  'chat:receipt': (payload: ReceiptPayload) => void
+  'system:warning': (payload: SystemWarningPayload) => void
+  'system:banned': (payload: BannedPayload) => void
+  'system:error': (message: string) => void
+  'system:partner-left': (payload: SimpleSessionPayload) => void
+  'system:session-ended': (payload: SimpleSessionPayload) => void
+  'system:partner-reconnecting': (payload: PartnerReconnectingPayload) => void
+  'system:partner-reconnected': (payload: PartnerReconnectedPayload) => void
+  'session:resumed': (payload: SessionResumedPayload) => void
+  'session:expired': (payload: SimpleSessionPayload) => void
+  'video:reveal-state': (payload: RevealStatePayload) => void
+  'webrtc:offer': (payload: WebRtcDescriptionPayload) => void
+  'webrtc:answer': (payload: WebRtcDescriptionPayload) => void
+  'webrtc:ice-candidate': (payload: WebRtcCandidatePayload) => void
 }